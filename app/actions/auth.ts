@@ -2,7 +2,7 @@
 
 import { cookies } from "next/headers"
 import { redirect } from "next/navigation"
-import { prisma } from "@/lib/prisma"
+import { sessionRepository, userRepository } from "@/lib/database/repository"
 import { User } from "@/lib/database"
 
 export async function getCurrentUser() {
@@ -15,26 +15,14 @@ export async function getCurrentUser() {
 
   try {
     // Clean up expired sessions (older than 5 minutes)
-    await prisma.userSession.deleteMany({
-      where: {
-        lastSeen: {
-          lt: new Date(Date.now() - 5 * 60 * 1000) // 5 minutes ago
-        }
-      }
-    })
+    await sessionRepository.deleteStale(new Date(Date.now() - 5 * 60 * 1000)) // 5 minutes ago
 
     // Find and update current session
-    const session = await prisma.userSession.findUnique({
-      where: { sessionId },
-      include: { user: true }
-    })
+    const session = await sessionRepository.findBySessionId(sessionId)
 
     if (session) {
       // Update last seen
-      await prisma.userSession.update({
-        where: { sessionId },
-        data: { lastSeen: new Date() }
-      })
+      await sessionRepository.touch(sessionId)
 
       return session.user
     }
@@ -54,49 +42,32 @@ export async function signIn(_prevState: { error?: string } | null, formData: Fo
 
   try {
     // Check if user already has an active session
-    const existingUser = await prisma.user.findFirst({
-      where: { name: name.trim() },
-      include: {
-        sessions: {
-          where: {
-            lastSeen: {
-              gt: new Date(Date.now() - 5 * 60 * 1000) // Active in last 5 minutes
-            }
-          }
-        }
-      }
-    })
+    const existingUser = await userRepository.findByName(name.trim())
+    const activeSessions = existingUser
+      ? await sessionRepository.findActiveForUser(existingUser.id, new Date(Date.now() - 5 * 60 * 1000)) // Active in last 5 minutes
+      : []
 
     let user: User
     let sessionId: string
 
-    if (existingUser && existingUser.sessions.length > 0) {
+    if (existingUser && activeSessions.length > 0) {
       // User has active session, use existing user and session
       user = existingUser
-      sessionId = existingUser.sessions[0].sessionId
+      sessionId = activeSessions[0].sessionId
 
       // Update last seen
-      await prisma.userSession.update({
-        where: { sessionId },
-        data: { lastSeen: new Date() }
-      })
+      await sessionRepository.touch(sessionId)
     } else {
       // Create new user or get existing user without active session
-      user = await prisma.user.upsert({
-        where: { name: name.trim() },
-        update: {},
-        create: { name: name.trim() }
-      })
+      user = await userRepository.findOrCreate({ name: name.trim() })
 
       // Create new session
       sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
 
-      await prisma.userSession.create({
-        data: {
-          userId: user.id,
-          sessionId,
-          lastSeen: new Date()
-        }
+      await sessionRepository.create({
+        userId: user.id,
+        sessionId,
+        lastSeen: new Date()
       })
     }
 
@@ -123,9 +94,7 @@ export async function signOut() {
   if (sessionId) {
     try {
       // Delete session from database
-      await prisma.userSession.delete({
-        where: { sessionId }
-      })
+      await sessionRepository.deleteBySessionId(sessionId)
     } catch {
       // Remove 'error' parameter if not used
     }
@@ -2,20 +2,19 @@
 
 
 import { getCurrentUser } from "./auth"
-import { prisma } from "@/lib/prisma"
-import { GameState, GamePhase, Card, Team, Player, Bet, Bets } from "@/lib/game-types"
+import { roomRepository, roomMemberRepository } from "@/lib/database/repository"
+import { isSpectator } from "@/lib/database"
+import { GameState, GamePhase, Card, Team, Player, Bet, Bets, MatchTarget, TrickRecord } from "@/lib/game-types"
 // import { EVENT_TYPES } from "@/lib/events" // Available for future use
 
-// Helper function to safely cast JSON to expected type
-function safeJsonCast<T>(value: any, fallback: T): T {
-  if (value && typeof value === 'object' && !Array.isArray(value)) {
-    return value as T
-  }
-  return fallback
-}
-
-// Import the proper broadcastGameEvent function from game-actions
-import { broadcastGameEvent, getRoomGameState, saveRoomGameState } from "./game-actions"
+// Loading, saving and broadcasting room state (not server actions)
+import { broadcastGameEvent, getRoomGameState } from "@/lib/room-game-state"
+import { projectGameStateForViewer } from "@/lib/event-filtering"
+import { resolveActingPlayer, gameStateForActor } from "@/lib/acting-player"
+import { mutateRoomGameState } from "@/lib/optimistic-concurrency"
+import { GameCommandBatch, dealForBidding } from "@/lib/game-reducer"
+import { rebuildGameState } from "@/lib/game-command-log"
+import { applyTeamSelection, applyBet, applyCardPlay, broadcastMatchEnd } from "@/lib/player-moves"
 
 // Type for round result
 interface RoundResult {
@@ -25,86 +24,28 @@ interface RoundResult {
   round: number
   highestBet: Bet
 }
+
 import {
-  selectTeam,
-  placeBet,
-  areTeamsBalanced,
-  getHighestBet,
-  areAllBetsPlaced,
-  dealCards,
-  canPlayCard,
-  playCard,
-  isTrickComplete,
-  isRoundComplete,
-  processTrickWin,
-  getWinningCard,
   calculateRoundScores,
-  processRoundEnd
+  generateDealSeed,
+  redealRound,
+  getDealSeeds,
+  getTricksForRound,
+  isValidMatchTarget,
+  isTurnExpired,
+  getTimeoutMove
 } from "@/lib/game-logic"
 
-// Get current game state for a room
+// Get current game state for a room, as seen by the signed-in user
 export async function getGameState(roomId: string): Promise<GameState | null> {
   try {
-    const room = await prisma.room.findUnique({
-      where: { id: roomId },
-      include: {
-        members: {
-          include: { user: true }
-        }
-      }
-    })
-
-    if (!room) return null
-
-    // Build game state from room data
-    const players: Record<string, Player> = {}
-    const playerTeams = safeJsonCast<Record<string, Team>>(room.playerTeams, {})
-    const playerSeats = safeJsonCast<Record<string, number>>(room.playerSeats, {})
-    const playerReady = safeJsonCast<Record<string, boolean>>(room.playerReady, {})
-
-    room.members.forEach(member => {
-      players[member.userId] = {
-        id: member.userId,
-        name: member.user.name,
-        team: playerTeams[member.userId],
-        seatPosition: playerSeats[member.userId],
-        isReady: playerReady[member.userId] || false
-      }
-    })
+    const user = await getCurrentUser()
+    if (!user) return null
 
-    // Build turn order from seat positions
-    const turnOrder = Object.values(players)
-      .filter(p => p.seatPosition !== undefined)
-      .sort((a, b) => (a.seatPosition || 0) - (b.seatPosition || 0))
-      .map(p => p.id)
-
-    // Build highest bet if exists
-    let highestBet: any = undefined
-    if (room.highestBetUserId && room.highestBetValue !== null) {
-      highestBet = {
-        playerId: room.highestBetUserId,
-        value: room.highestBetValue,
-        trump: room.highestBetTrump || false,
-        timestamp: new Date()
-      }
-    }
+    const gameState = await getRoomGameState(roomId)
+    if (!gameState) return null
 
-    return {
-      phase: (room.gamePhase as GamePhase) || GamePhase.TEAM_SELECTION,
-      round: room.currentRound || 1,
-      currentTurn: room.currentTurn || '',
-      dealer: room.dealerUserId || '',
-      starter: room.starterUserId || '',
-      trump: room.trumpColor as any,
-      highestBet,
-      players,
-      bets: safeJsonCast<Record<string, Bet>>(room.playerBets, {}),
-      playedCards: safeJsonCast<Record<string, Card>>(room.playedCards, {}),
-      playerHands: safeJsonCast<Record<string, Card[]>>(room.playerHands, {}),
-      wonTricks: safeJsonCast<Record<string, number>>(room.tricksWon, {}),
-      scores: safeJsonCast<Record<string, number>>(room.gameScores, {}),
-      turnOrder
-    }
+    return projectGameStateForViewer(gameState, user.id)
   } catch (error) {
     console.error("Failed to get game state:", error)
     return null
@@ -124,67 +65,17 @@ export async function selectPlayerTeam(
       return { success: false, error: "Not authenticated" }
     }
 
-    const gameState = await getRoomGameState(roomId)
-    if (!gameState) {
-      return { success: false, error: "Game not found" }
-    }
-
-    if (gameState.phase !== GamePhase.TEAM_SELECTION) {
-      return { success: false, error: "Not in team selection phase" }
-    }
-
-    const newGameState = selectTeam(gameState, user.id, team)
-
-    // Check if we can move to betting (auto-assign seats)
-    const teamsBalanced = areTeamsBalanced(newGameState)
-    if (teamsBalanced) {
-      // Auto-assign seats in A1, B2, A3, B4 pattern
-      const teamAPlayers = Object.values(newGameState.players).filter(p => p.team === Team.A)
-      const teamBPlayers = Object.values(newGameState.players).filter(p => p.team === Team.B)
-
-      teamAPlayers[0].seatPosition = 0  // A1
-      teamBPlayers[0].seatPosition = 1  // B2
-      teamAPlayers[1].seatPosition = 2  // A3
-      teamBPlayers[1].seatPosition = 3  // B4
-
-      newGameState.phase = GamePhase.BETS
+    if (!(await roomMemberRepository.findMember(roomId, user.id))) {
+      return { success: false, error: "Not a member of this room" }
     }
 
-    await saveRoomGameState(roomId, newGameState)
-
-    // Broadcast team selection event
-    await broadcastGameEvent({
-      type: 'TEAM_SELECTED',
-      roomId,
-      userId: user.id,
-      data: {
-        team,
-        playerName: newGameState.players[user.id]?.name,
-        teamsBalanced,
-        phase: newGameState.phase
-      },
-      timestamp: new Date()
-    })
-
-    // If teams are balanced and betting phase started, broadcast that too
-    if (teamsBalanced) {
-      await broadcastGameEvent({
-        type: 'BETTING_PHASE_STARTED',
-        roomId,
-        userId: user.id,
-        data: {
-          phase: 'bets',
-          turnOrder: newGameState.turnOrder,
-          currentTurn: newGameState.currentTurn
-        },
-        timestamp: new Date()
-      })
+    const result = await applyTeamSelection(roomId, user.id, team)
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
 
-    // Note: Removed revalidatePath to prevent SSE connection closure
-    // Real-time updates are handled via SSE events
-
-    return { success: true, gameState: newGameState }
+    // Balanced teams deal the hands for bidding; only hand back the caller's own
+    return { success: true, gameState: projectGameStateForViewer(result.gameState!, user.id) }
   } catch (error) {
     console.error("Failed to select team:", error)
     return { success: false, error: "Failed to select team" }
@@ -201,102 +92,18 @@ export async function placeBetAction(
   playerId?: string
 ): Promise<{ success: boolean; error?: string; gameState?: GameState }> {
   try {
-    // Use provided playerId (for simulator) or get from session (for real users)
-    let userId = playerId
-    if (!userId) {
-      const user = await getCurrentUser()
-      if (!user) {
-        return { success: false, error: "Not authenticated" }
-      }
-      userId = user.id
-    }
-
-    const gameState = await getRoomGameState(roomId)
-    if (!gameState) {
-      return { success: false, error: "Game not found" }
-    }
-
-    if (gameState.phase !== GamePhase.BETS) {
-      return { success: false, error: "Not in betting phase" }
+    // Act as the session user; other players only in simulator rooms
+    const actor = await resolveActingPlayer(roomId, playerId)
+    if (!actor.success) {
+      return { success: false, error: actor.error }
     }
 
-    if (gameState.currentTurn !== userId) {
-      return { success: false, error: "Not your turn" }
+    const result = await applyBet(roomId, actor.userId, betValue, trump)
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
 
-    const newGameState = placeBet(gameState, userId, betValue, trump)
-
-    console.log('🎯 Bet placed by:', userId, 'Bet:', betValue, 'Trump:', trump)
-    console.log('🎯 Current bets:', Object.keys(newGameState.bets).length, '/', newGameState.turnOrder.length)
-
-    // Check if all bets are placed
-    if (areAllBetsPlaced(newGameState)) {
-      console.log('🎯 All bets are placed! Moving to cards phase...')
-      const allBets = Object.values(newGameState.bets)
-      const highestBet = getHighestBet(allBets)
-
-      if (highestBet) {
-        newGameState.highestBet = highestBet
-        newGameState.currentTurn = highestBet.playerId // Highest better starts
-        newGameState.starter = highestBet.playerId
-      }
-
-      // Deal cards to all players
-      const gameStateWithCards = dealCards(newGameState)
-
-      // Move to cards phase
-      gameStateWithCards.phase = GamePhase.CARDS
-
-      // Return the game state with cards dealt
-      await saveRoomGameState(roomId, gameStateWithCards)
-
-      // Small delay to ensure database write is committed
-      await new Promise(resolve => setTimeout(resolve, 50))
-
-      // Broadcast that all bets are complete and cards phase started
-      console.log('🎯 Broadcasting betting_complete event for room:', roomId)
-      await broadcastGameEvent({
-        type: 'BETTING_COMPLETE',
-        roomId,
-        userId,
-        data: {
-          phase: 'cards',
-          highestBet: highestBet?.value,
-          highestBetter: highestBet?.playerId,
-          trump: highestBet?.trump,
-          allBetsComplete: true
-        },
-        timestamp: new Date()
-      })
-      console.log('✅ betting_complete event broadcasted')
-
-      // Note: Removed revalidatePath to prevent SSE connection closure
-      // Real-time updates are handled via SSE events
-      return { success: true, gameState: gameStateWithCards }
-    }
-
-    await saveRoomGameState(roomId, newGameState)
-
-    // Small delay to ensure database write is committed
-    await new Promise(resolve => setTimeout(resolve, 50))
-
-    await broadcastGameEvent({
-      type: 'BETS_CHANGED',
-      roomId,
-      userId,
-      data: {
-        bets: newGameState.bets,           // Only the bets object
-        currentTurn: newGameState.currentTurn,  // Only the current turn
-        phase: newGameState.phase          // Only the phase (in case it changes)
-      },
-      timestamp: new Date()
-    })
-    console.log('✅ bet_placed event broadcasted')
-
-    // Note: Removed revalidatePath to prevent SSE connection closure
-    // Real-time updates are handled via SSE events
-
-    return { success: true, gameState: newGameState }
+    return { success: true, gameState: gameStateForActor(actor, result.gameState!) }
   } catch (error) {
     console.error("Failed to place bet:", error)
     return { success: false, error: "Failed to place bet" }
@@ -314,23 +121,17 @@ export async function setPlayerReady(
       return { success: false, error: "Not authenticated" }
     }
 
-    const gameState = await getRoomGameState(roomId)
-    if (!gameState) {
-      return { success: false, error: "Game not found" }
-    }
+    const result = await mutateRoomGameState(roomId, (gameState) => {
+      const batch = new GameCommandBatch(gameState)
+      batch.apply({ type: 'PLAYER_READY_SET', playerId: user.id, ready })
+      return { success: true, gameState: batch.state, commands: batch.commands }
+    })
 
-    const newGameState = {
-      ...gameState,
-      players: {
-        ...gameState.players,
-        [user.id]: {
-          ...gameState.players[user.id],
-          isReady: ready
-        }
-      }
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
 
-    await saveRoomGameState(roomId, newGameState)
+    const newGameState = result.gameState!
 
     // Broadcast ready state change event
     await broadcastGameEvent({
@@ -348,7 +149,7 @@ export async function setPlayerReady(
     // Note: Removed revalidatePath to prevent SSE connection closure
     // Real-time updates are handled via SSE events
 
-    return { success: true, gameState: newGameState }
+    return { success: true, gameState: projectGameStateForViewer(newGameState, user.id) }
   } catch (error) {
     console.error("Failed to set ready state:", error)
     return { success: false, error: "Failed to set ready state" }
@@ -362,171 +163,69 @@ export async function playCardAction(
   playerId?: string
 ): Promise<{ success: boolean; error?: string; gameState?: GameState }> {
   try {
-    // Use provided playerId (for simulator) or get from session (for real users)
-    let userId = playerId
-    if (!userId) {
-      const user = await getCurrentUser()
-      if (!user) {
-        return { success: false, error: "Not authenticated" }
-      }
-      userId = user.id
+    // Act as the session user; other players only in simulator rooms
+    const actor = await resolveActingPlayer(roomId, playerId)
+    if (!actor.success) {
+      return { success: false, error: actor.error }
     }
 
-    const gameState = await getRoomGameState(roomId)
-    if (!gameState) {
-      return { success: false, error: "Game not found" }
+    const result = await applyCardPlay(roomId, actor.userId, cardId)
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
 
-    if (gameState.phase !== GamePhase.CARDS) {
-      return { success: false, error: "Not in card playing phase" }
-    }
+    return { success: true, gameState: gameStateForActor(actor, result.gameState!) }
+  } catch (error) {
+    console.error("Failed to play card:", error)
+    return { success: false, error: "Failed to play card" }
+  }
+}
 
-    if (gameState.currentTurn !== userId) {
-      return { success: false, error: "Not your turn" }
+// Make the safe move for a player whose turn ran out. Any player at the table
+// can call this once the deadline has passed; the deadline is checked again
+// when the move is applied, so a late move by the player still wins the race.
+export async function expireTurnAction(
+  roomId: string
+): Promise<{ success: boolean; error?: string; gameState?: GameState }> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return { success: false, error: "Not authenticated" }
     }
 
-    // Find the card in player's hand
-    const playerHand = gameState.playerHands[userId] || []
-    const card = playerHand.find(c => c.id === cardId)
-
-    if (!card) {
-      return { success: false, error: "Card not found in your hand" }
+    const gameState = await getRoomGameState(roomId)
+    if (!gameState) {
+      return { success: false, error: "Game not found" }
     }
 
-    if (!canPlayCard(gameState, userId, card)) {
-      return { success: false, error: "Cannot play this card" }
+    if (!gameState.players[user.id]) {
+      return { success: false, error: "Player not found in game" }
     }
 
-    let newGameState = playCard(gameState, userId, card)
-
-    // Save the state immediately for the card play
-    await saveRoomGameState(roomId, newGameState)
+    if (!isTurnExpired(gameState)) {
+      return { success: false, error: "Turn has not timed out" }
+    }
 
-    // Small delay to ensure database write is committed
-    await new Promise(resolve => setTimeout(resolve, 50))
+    const move = getTimeoutMove(gameState)
+    if (!move) {
+      return { success: false, error: "No move to make" }
+    }
 
-    // Broadcast granular card change event
-    await broadcastGameEvent({
-      type: 'CARDS_CHANGED',
-      roomId,
-      userId,
-      data: {
-        playedCards: newGameState.playedCards,    // Only the played cards
-        currentTurn: newGameState.currentTurn,    // Only the current turn
-        phase: newGameState.phase,               // Only the phase
-        playerHands: newGameState.playerHands,   // Updated player hands
-        card: `${card.color}-${card.value}`,
-        playerName: newGameState.players[userId]?.name,
-        cardsInTrick: Object.keys(newGameState.playedCards).length
-      },
-      timestamp: new Date()
-    })
+    const timedOutPlayer = gameState.currentTurn
+    console.log(`⏰ Turn timed out for ${timedOutPlayer} in room ${roomId}, making move:`, move)
 
-    // Check if trick is complete
-    if (isTrickComplete(newGameState)) {
-      console.log('🎯 Trick complete! Processing trick win...')
-
-      // First, broadcast TRICK_COMPLETE while cards are still visible
-      const playedCards = Object.values(newGameState.playedCards).sort((a, b) => a.playOrder - b.playOrder)
-      const winningCard = getWinningCard(playedCards, newGameState.trump)
-
-      if (winningCard) {
-        const winnerBeforeProcessing = winningCard.playerId
-        await broadcastGameEvent({
-          type: 'TRICK_COMPLETE',
-          roomId,
-          userId,
-          data: {
-            winner: winnerBeforeProcessing,
-            winnerName: newGameState.players[winnerBeforeProcessing]?.name,
-            cardsInTrick: playedCards.length,
-            card: winningCard.color + '-' + winningCard.value,
-            remainingCards: Object.keys(newGameState.playerHands[winnerBeforeProcessing] || {}).length
-          },
-          timestamp: new Date()
-        })
-
-        console.log('🏆 TRICK_COMPLETE sent, processing trick normally but delaying TRICK_CHANGED...')
-      }
+    const result = move.type === 'bet'
+      ? await applyBet(roomId, timedOutPlayer, move.betValue, move.trump, true)
+      : await applyCardPlay(roomId, timedOutPlayer, move.cardId, true)
 
-      // Process trick win immediately (for game logic)
-      newGameState = processTrickWin(newGameState)
-
-      // Delay the TRICK_CHANGED broadcast to let players see the winner
-      setTimeout(async () => {
-        console.log('🔄 Now broadcasting TRICK_CHANGED to clear cards...')
-
-        // Broadcast granular trick change event (clears the cards)
-        await broadcastGameEvent({
-          type: 'TRICK_CHANGED',
-          roomId,
-          userId,
-          data: {
-            playedCards: newGameState.playedCards,    // Cleared played cards
-            currentTurn: newGameState.currentTurn,    // Winner starts next trick
-            phase: newGameState.phase,               // Might change to TRICK_SCORING
-            wonTricks: newGameState.wonTricks,       // Updated trick scores
-            winner: newGameState.currentTurn,
-            winnerName: newGameState.players[newGameState.currentTurn]?.name
-          },
-          timestamp: new Date()
-        })
-      }, 2000) // 2 second delay to let players see the winner message
-
-      // Check if round is complete
-      if (isRoundComplete(newGameState)) {
-        console.log('🎯 Round complete! Processing round scoring...')
-        newGameState.phase = GamePhase.TRICK_SCORING
-
-        // Automatically process round scoring
-        const roundScores = calculateRoundScores(newGameState)
-        console.log(`🏆 Round ${newGameState.round} complete! Processing scores:`, roundScores)
-
-        // Process the round end to update scores and prepare next round
-        newGameState = processRoundEnd(newGameState)
-        console.log(`🎯 Round ${newGameState.round - 1} scored. Starting round ${newGameState.round}`)
-
-        // Broadcast granular round change event
-        await broadcastGameEvent({
-          type: 'ROUND_CHANGED',
-          roomId,
-          userId,
-          data: {
-            phase: newGameState.phase,           // New phase (BETS)
-            round: newGameState.round,           // New round number
-            scores: newGameState.scores,         // Updated scores
-            bets: newGameState.bets,            // Cleared bets
-            currentTurn: newGameState.currentTurn, // New turn order
-            roundScores: roundScores,           // Scores from completed round
-            completedRound: newGameState.round - 1
-          },
-          timestamp: new Date()
-        })
-
-        // Also broadcast legacy ROUND_COMPLETE event for compatibility
-        await broadcastGameEvent({
-          type: 'ROUND_COMPLETE',
-          roomId,
-          userId,
-          data: {
-            round: newGameState.round - 1,
-            scores: roundScores
-          },
-          timestamp: new Date()
-        })
-      }
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
 
-    // Save final state if there were additional changes (trick/round completion)
-    await saveRoomGameState(roomId, newGameState)
-
-    // Note: Removed revalidatePath to prevent SSE connection closure
-    // Real-time updates are handled via SSE events
-
-    return { success: true, gameState: newGameState }
+    return { success: true, gameState: projectGameStateForViewer(result.gameState!, user.id) }
   } catch (error) {
-    console.error("Failed to play card:", error)
-    return { success: false, error: "Failed to play card" }
+    console.error("Failed to expire turn:", error)
+    return { success: false, error: "Failed to expire turn" }
   }
 }
 
@@ -540,7 +239,7 @@ export async function getPlayerHand(
       return { success: false, error: "Not authenticated" }
     }
 
-    const gameState = await getGameState(roomId)
+    const gameState = await getRoomGameState(roomId)
     if (!gameState) {
       return { success: false, error: "Game not found" }
     }
@@ -553,12 +252,119 @@ export async function getPlayerHand(
   }
 }
 
+// Re-deal a completed round exactly as it was dealt, from its recorded seeds.
+// `deal` picks a thrown-in deal of the round; by default the one that was played.
+// `deals` is how many times the round was dealt.
+export async function getRoundDeal(
+  roomId: string,
+  round: number,
+  deal?: number
+): Promise<{ success: boolean; error?: string; seed?: number; deals?: number; playerHands?: Record<string, Card[]> }> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const gameState = await getRoomGameState(roomId)
+    if (!gameState) {
+      return { success: false, error: "Game not found" }
+    }
+
+    if (!gameState.players[user.id]) {
+      return { success: false, error: "Player not found in game" }
+    }
+
+    // Only finished rounds can be revealed - the current deal is still secret
+    if (round >= gameState.round) {
+      return { success: false, error: "Round is not finished yet" }
+    }
+
+    const seeds = getDealSeeds(gameState, round)
+    const playerHands = redealRound(gameState, round, deal)
+    if (!playerHands) {
+      return { success: false, error: "No seed recorded for this deal" }
+    }
+
+    return { success: true, seed: seeds[deal ?? seeds.length - 1], deals: seeds.length, playerHands }
+  } catch (error) {
+    console.error("Failed to re-deal round:", error)
+    return { success: false, error: "Failed to re-deal round" }
+  }
+}
+
+// Tricks played in a round (the current round by default), in play order
+export async function getRoundTricks(
+  roomId: string,
+  round?: number
+): Promise<{ success: boolean; error?: string; round?: number; tricks?: TrickRecord[] }> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const gameState = await getRoomGameState(roomId)
+    if (!gameState) {
+      return { success: false, error: "Game not found" }
+    }
+
+    // Played cards are public, so spectators may look back through them too
+    if (!gameState.players[user.id] && !(await isSpectator(roomId, user.id))) {
+      return { success: false, error: "Player not found in game" }
+    }
+
+    const requestedRound = round ?? gameState.round
+    if (!Number.isInteger(requestedRound) || requestedRound < 1 || requestedRound > gameState.round) {
+      return { success: false, error: "Invalid round" }
+    }
+
+    return { success: true, round: requestedRound, tricks: getTricksForRound(gameState, requestedRound) }
+  } catch (error) {
+    console.error("Failed to get round tricks:", error)
+    return { success: false, error: "Failed to get round tricks" }
+  }
+}
+
+// Rebuild the game as it was after a given command, from the command log (replays and audits)
+export async function getGameStateAt(
+  roomId: string,
+  sequence?: number
+): Promise<{ success: boolean; error?: string; gameState?: GameState; sequence?: number }> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const membership = await roomMemberRepository.findMember(roomId, user.id)
+    if (!membership) {
+      return { success: false, error: "Not a member of this room" }
+    }
+
+    const rebuilt = await rebuildGameState(roomId, sequence)
+    if (!rebuilt.success) {
+      return { success: false, error: rebuilt.error }
+    }
+
+    // Other players' hands stay hidden, as in the live game
+    return {
+      success: true,
+      gameState: projectGameStateForViewer(rebuilt.gameState!, user.id),
+      sequence: rebuilt.sequence
+    }
+  } catch (error) {
+    console.error("Failed to rebuild game state:", error)
+    return { success: false, error: "Failed to rebuild game state" }
+  }
+}
+
 // Get current trick cards
 export async function getCurrentTrick(
   roomId: string
 ): Promise<{ success: boolean; error?: string; playedCards?: Record<string, Card> }> {
   try {
-    const gameState = await getGameState(roomId)
+    const gameState = await getRoomGameState(roomId)
     if (!gameState) {
       return { success: false, error: "Game not found" }
     }
@@ -580,19 +386,32 @@ export async function processRoundScoring(
       return { success: false, error: "Not authenticated" }
     }
 
-    const gameState = await getGameState(roomId)
-    if (!gameState) {
-      return { success: false, error: "Game not found" }
-    }
+    const result = await mutateRoomGameState<RoundResult>(roomId, (gameState) => {
+      if (gameState.phase !== GamePhase.TRICK_SCORING) {
+        return { success: false, error: "Not in scoring phase" }
+      }
 
-    if (gameState.phase !== GamePhase.TRICK_SCORING) {
-      return { success: false, error: "Not in scoring phase" }
-    }
+      const batch = new GameCommandBatch(gameState)
+      batch.apply({ type: 'ROUND_SCORED', seed: generateDealSeed() })
+
+      return {
+        success: true,
+        gameState: batch.state,
+        commands: batch.commands,
+        data: {
+          ...calculateRoundScores(gameState),
+          round: gameState.round,
+          highestBet: gameState.highestBet
+        }
+      }
+    })
 
-    const roundResult = calculateRoundScores(gameState)
-    const newGameState = processRoundEnd(gameState)
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
 
-    await saveRoomGameState(roomId, newGameState)
+    const newGameState = result.gameState!
+    const roundResult = result.data!
 
     // Broadcast round scoring complete event
     await broadcastGameEvent({
@@ -608,17 +427,17 @@ export async function processRoundScoring(
       timestamp: new Date()
     })
 
+    if (newGameState.phase === GamePhase.GAME_END) {
+      await broadcastMatchEnd(roomId, newGameState, user.id)
+    }
+
     // Note: Removed revalidatePath to prevent SSE connection closure
     // Real-time updates are handled via SSE events
 
     return {
       success: true,
-      gameState: newGameState,
-      roundResult: {
-        ...roundResult,
-        round: gameState.round,
-        highestBet: gameState.highestBet
-      }
+      gameState: projectGameStateForViewer(newGameState, user.id),
+      roundResult
     }
   } catch (error) {
     console.error("Failed to process round scoring:", error)
@@ -631,7 +450,7 @@ export async function getGameScores(
   roomId: string
 ): Promise<{ success: boolean; error?: string; scores?: Record<string, number> }> {
   try {
-    const gameState = await getGameState(roomId)
+    const gameState = await getRoomGameState(roomId)
     if (!gameState) {
       return { success: false, error: "Game not found" }
     }
@@ -642,3 +461,115 @@ export async function getGameScores(
     return { success: false, error: "Failed to get game scores" }
   }
 }
+
+// Match actions
+
+// Set how the match is won. Host only; not while a match is being played.
+export async function setMatchTargetAction(
+  roomId: string,
+  target: MatchTarget
+): Promise<{ success: boolean; error?: string; gameState?: GameState }> {
+  try {
+    const user = await getCurrentUser()
+    if (!user) {
+      return { success: false, error: "Not authenticated" }
+    }
+
+    const room = await roomRepository.findById(roomId)
+    if (!room) {
+      return { success: false, error: "Room not found" }
+    }
+    if (room.hostId !== user.id) {
+      return { success: false, error: "Only the host can change the match target" }
+    }
+
+    if (!isValidMatchTarget(target)) {
+      return { success: false, error: "Invalid match target" }
+    }
+
+    const result = await mutateRoomGameState(roomId, (gameState) => {
+      const configurable = [GamePhase.WAITING, GamePhase.TEAM_SELECTION, GamePhase.GAME_END]
+      if (!configurable.includes(gameState.phase)) {
+        return { success: false, error: "The match target can only be changed between matches" }
+      }
+
+      const batch = new GameCommandBatch(gameState)
+      batch.apply({ type: 'MATCH_TARGET_SET', target: { type: target.type, value: target.value } })
+      return { success: true, gameState: batch.state, commands: batch.commands }
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
+    const newGameState = result.gameState!
+
+    await broadcastGameEvent({
+      type: 'GAME_STATE_UPDATED',
+      roomId,
+      userId: user.id,
+      data: {
+        phase: newGameState.phase,
+        matchTarget: newGameState.matchTarget,
+        message: `Match target set to ${target.value} ${target.type}`
+      },
+      timestamp: new Date()
+    })
+
+    return { success: true, gameState: projectGameStateForViewer(newGameState, user.id) }
+  } catch (error) {
+    console.error("Failed to set match target:", error)
+    return { success: false, error: "Failed to set match target" }
+  }
+}
+
+// Start a new match after GAME_END with the same teams and seats
+export async function rematchAction(
+  roomId: string
+): Promise<{ success: boolean; error?: string; gameState?: GameState }> {
+  try {
+    const actor = await resolveActingPlayer(roomId)
+    if (!actor.success) {
+      return { success: false, error: actor.error }
+    }
+    const userId = actor.userId
+
+    const result = await mutateRoomGameState(roomId, (gameState) => {
+      if (gameState.phase !== GamePhase.GAME_END) {
+        return { success: false, error: "The match is not over yet" }
+      }
+      if (!gameState.players[userId]) {
+        return { success: false, error: "Only players of this match can start a rematch" }
+      }
+
+      const batch = new GameCommandBatch(gameState)
+      batch.apply({ type: 'MATCH_RESTARTED' })
+      dealForBidding(batch, generateDealSeed())
+      return { success: true, gameState: batch.state, commands: batch.commands }
+    })
+
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
+    const newGameState = result.gameState!
+
+    await broadcastGameEvent({
+      type: 'GAME_STATE_UPDATED',
+      roomId,
+      userId,
+      data: {
+        phase: newGameState.phase,
+        message: 'Rematch started! Same teams, new match.',
+        rematch: true
+      },
+      timestamp: new Date()
+    })
+
+    console.log(`🔁 Rematch started in room ${roomId} by ${userId}`)
+    return { success: true, gameState: gameStateForActor(actor, newGameState) }
+  } catch (error) {
+    console.error("Failed to start rematch:", error)
+    return { success: false, error: "Failed to start rematch" }
+  }
+}
@@ -1,9 +1,22 @@
 "use server"
 import { redirect } from "next/navigation"
 import { getCurrentUser } from "./auth"
-import { createRoom as dbCreateRoom, getRooms as dbGetRooms, joinRoom as dbJoinRoom } from "@/lib/database"
+import {
+  createRoom as dbCreateRoom,
+  getRooms as dbGetRooms,
+  joinRoom as dbJoinRoom,
+  spectateRoom as dbSpectateRoom,
+  stopSpectating,
+  isSpectator,
+  getSpectatorCount,
+  addBotToRoom
+} from "@/lib/database"
+import { roomRepository, roomMemberRepository } from "@/lib/database/repository"
 
 import { initializeGame } from "./game-actions"
+import { isValidRuleSet } from "@/lib/game-logic"
+import { AllPassRule, BotDifficulty, DEFAULT_RULE_SET, GamePhase, RuleSet } from "@/lib/game-types"
+import { isBotDifficulty } from "@/lib/type-guards"
 
 export async function createRoom(prevState: { error?: string } | null, formData: FormData) {
   console.log("🔍 Creating room - checking user...")
@@ -25,9 +38,14 @@ export async function createRoom(prevState: { error?: string } | null, formData:
     return { error: "Room name is required" }
   }
 
+  const rules = parseRuleSet(formData)
+  if (!isValidRuleSet(rules)) {
+    return { error: "Invalid house rules" }
+  }
+
   try {
     console.log(`🏠 Creating room "${roomName}" for user ${user.id}`)
-    const room = await dbCreateRoom(roomName.trim(), user.id)
+    const room = await dbCreateRoom(roomName.trim(), user.id, rules)
     console.log(`✅ Room created: ${room.id}`)
 
     // Initialize game state for the room
@@ -40,7 +58,7 @@ export async function createRoom(prevState: { error?: string } | null, formData:
     }
 
     // Emit real-time event for room creation
-    const { broadcastGameEvent } = await import("./game-actions")
+    const { broadcastGameEvent } = await import("@/lib/room-game-state")
     await broadcastGameEvent({
       type: "ROOM_UPDATED",
       roomId: room.id,
@@ -62,6 +80,32 @@ export async function createRoom(prevState: { error?: string } | null, formData:
   }
 }
 
+// House rules from the create-room form; fields left out keep their defaults
+function parseRuleSet(formData: FormData): RuleSet {
+  // Only forms that show the house rules send this, so checkboxes can be read as unchecked
+  const hasRuleFields = formData.get("houseRules") === "on"
+
+  const numberField = (name: keyof RuleSet) => {
+    const raw = formData.get(name)
+    return raw === null || raw === "" ? DEFAULT_RULE_SET[name] as number : Number(raw)
+  }
+  const flagField = (name: keyof RuleSet) =>
+    hasRuleFields ? formData.get(name) === "on" : DEFAULT_RULE_SET[name] as boolean
+  const allPassRule = formData.get("allPassRule")
+
+  return {
+    bonhommeRougePoints: numberField("bonhommeRougePoints"),
+    bonhommeBrunPoints: numberField("bonhommeBrunPoints"),
+    minimumBet: numberField("minimumBet"),
+    mustOvertrump: flagField("mustOvertrump"),
+    allPassRule: allPassRule === null || allPassRule === "" ? DEFAULT_RULE_SET.allPassRule : allPassRule as AllPassRule,
+    dealBeforeBetting: flagField("dealBeforeBetting"),
+    trumpBetMultiplier: numberField("trumpBetMultiplier"),
+    noTrumpBetMultiplier: numberField("noTrumpBetMultiplier"),
+    turnTimeLimit: numberField("turnTimeLimit")
+  }
+}
+
 export async function joinRoom(prevState: { error?: string } | null,  formData: FormData) {
   console.log("🚪 Joining room...")
   const user = await getCurrentUser()
@@ -81,6 +125,8 @@ export async function joinRoom(prevState: { error?: string } | null,  formData:
 
   try {
     console.log(`🚪 Attempting to join room ${roomId} for user ${user.id}`)
+    // Taking a seat ends spectating, which the players' spectator count has to hear about
+    const wasSpectating = await isSpectator(roomId, user.id)
     const success = await dbJoinRoom(roomId, user.id)
     console.log("✅ Join result:", success)
     
@@ -90,7 +136,7 @@ export async function joinRoom(prevState: { error?: string } | null,  formData:
       await updateGamePlayersAction(roomId)
 
       // Emit real-time event
-      const { broadcastGameEvent } = await import("./game-actions")
+      const { broadcastGameEvent } = await import("@/lib/room-game-state")
       await broadcastGameEvent({
         type: "PLAYER_JOINED",
         roomId,
@@ -100,6 +146,9 @@ export async function joinRoom(prevState: { error?: string } | null,  formData:
         },
         timestamp: new Date()
       })
+      if (wasSpectating) {
+        await broadcastSpectatorsChanged(roomId, user, false)
+      }
 
       console.log(`🎯 Redirecting to /room/${roomId}`)
       redirect(`/room/${roomId}`)
@@ -116,6 +165,142 @@ export async function joinRoom(prevState: { error?: string } | null,  formData:
   }
 }
 
+// Watch a room without taking a seat; members go straight back to their table
+export async function spectateRoom(prevState: { error?: string } | null, formData: FormData) {
+  const user = await getCurrentUser()
+
+  if (!user) {
+    console.log("❌ No user found, redirecting to home")
+    redirect("/")
+  }
+
+  const roomId = formData.get("roomId") as string
+
+  if (!roomId) {
+    return { error: "Room ID is required" }
+  }
+
+  try {
+    if (!(await roomRepository.findById(roomId))) {
+      return { error: "Room not found" }
+    }
+
+    // Members hold a seat, even before the game state lists them: send them to it instead
+    if (!(await roomMemberRepository.findMember(roomId, user.id))) {
+      const wasSpectating = await isSpectator(roomId, user.id)
+      if (!(await dbSpectateRoom(roomId, user.id))) {
+        return { error: "Failed to spectate room" }
+      }
+      if (!wasSpectating) {
+        await broadcastSpectatorsChanged(roomId, user, true)
+      }
+    }
+
+    console.log(`👁️ Redirecting to /room/${roomId}`)
+    redirect(`/room/${roomId}`)
+  } catch (error) {
+    // Don't log redirect errors
+    if (error instanceof Error && error.message === "NEXT_REDIRECT") {
+      throw error
+    }
+    console.error("Failed to spectate room:", error)
+    return { error: "Failed to spectate room" }
+  }
+}
+
+// Stop watching a room
+export async function stopSpectatingAction(roomId: string): Promise<{ success: boolean; error?: string }> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return { success: false, error: "Not authenticated" }
+  }
+
+  try {
+    if (await stopSpectating(roomId, user.id)) {
+      await broadcastSpectatorsChanged(roomId, user, false)
+    }
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to stop spectating:", error)
+    return { success: false, error: "Failed to stop spectating" }
+  }
+}
+
+// Tell the room how many spectators it has after one started or stopped watching
+async function broadcastSpectatorsChanged(roomId: string, user: { id: string; name: string }, joined: boolean) {
+  const { broadcastGameEvent } = await import("@/lib/room-game-state")
+  const spectatorCount = await getSpectatorCount(roomId)
+  console.log(`👁️ ${user.name} ${joined ? 'is watching' : 'stopped watching'} room ${roomId} (${spectatorCount} watching)`)
+  await broadcastGameEvent({
+    type: "SPECTATORS_CHANGED",
+    roomId,
+    data: {
+      spectatorCount,
+      joined,
+      playerName: user.name,
+      playerId: user.id
+    },
+    timestamp: new Date()
+  })
+}
+
+// Fill an empty seat with a bot: the search AI at `difficulty`, or the heuristic bot without one.
+// Any player in the room can add bots until the game starts.
+export async function addBotAction(
+  roomId: string,
+  difficulty?: BotDifficulty
+): Promise<{ success: boolean; error?: string }> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return { success: false, error: "Not authenticated" }
+  }
+
+  if (difficulty !== undefined && !isBotDifficulty(difficulty)) {
+    return { success: false, error: "Invalid bot difficulty" }
+  }
+
+  try {
+    const { updateGamePlayersAction } = await import("./game-actions")
+    const { getRoomGameState, broadcastGameEvent } = await import("@/lib/room-game-state")
+    const gameState = await getRoomGameState(roomId)
+    if (!gameState) {
+      return { success: false, error: "Game not found" }
+    }
+    if (!gameState.players[user.id]) {
+      return { success: false, error: "Not a member of this room" }
+    }
+    if (gameState.phase !== GamePhase.WAITING && gameState.phase !== GamePhase.TEAM_SELECTION) {
+      return { success: false, error: "Bots can only join before the game starts" }
+    }
+
+    const bot = await addBotToRoom(roomId, difficulty)
+    if (!bot) {
+      return { success: false, error: "Room is full" }
+    }
+    console.log(`🤖 ${bot.name} (${difficulty ?? 'heuristic'}) added to room ${roomId} by ${user.id}`)
+
+    // Update game state with the new player; the bot picks a team once the table is full
+    await updateGamePlayersAction(roomId)
+
+    await broadcastGameEvent({
+      type: "PLAYER_JOINED",
+      roomId,
+      data: {
+        playerName: bot.name,
+        playerId: bot.id,
+        isBot: true,
+        botDifficulty: difficulty
+      },
+      timestamp: new Date()
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to add bot:", error)
+    return { success: false, error: "Failed to add bot" }
+  }
+}
+
 export async function getRooms() {
   try {
     return await dbGetRooms()
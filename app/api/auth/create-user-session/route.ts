@@ -1,27 +1,18 @@
 import { NextRequest, NextResponse } from "next/server"
 import { cookies } from "next/headers"
-import { prisma } from "@/lib/prisma"
+import { userRepository, sessionRepository } from "@/lib/database/repository"
 
 export async function POST(request: NextRequest) {
   try {
     const { userId, name, sessionId } = await request.json()
     
     // Create or get user
-    const user = await prisma.user.upsert({
-      where: { id: userId },
-      update: {},
-      create: { id: userId, name }
-    })
+    const user = await userRepository.findOrCreate({ id: userId, name })
 
     // Create session
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
-    
-    await prisma.userSession.create({
-      data: {
-        userId: user.id,
-        sessionId,
-        expiresAt
-      }
+    await sessionRepository.create({
+      userId: user.id,
+      sessionId
     })
 
     // Set session cookie
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server"
 import { cookies } from "next/headers"
-import { prisma } from "@/lib/prisma"
+import { sessionRepository } from "@/lib/database/repository"
 
 export async function POST() {
   try {
@@ -10,9 +10,7 @@ export async function POST() {
     if (sessionId) {
       try {
         // Delete session from database
-        await prisma.userSession.delete({
-          where: { sessionId }
-        })
+        await sessionRepository.deleteBySessionId(sessionId)
       } catch (error) {
         console.error("Error deleting session:", error)
       }
@@ -1,32 +1,151 @@
 import type { NextRequest } from "next/server"
-import { eventStore } from "@/lib/events"
+import { eventStore, type GameEvent } from "@/lib/events"
+import { getCurrentUser } from "@/app/actions/auth"
+import { filterEventForUser, getEventPhase } from "@/lib/event-filtering"
+import { resolveEventViewer } from "@/lib/acting-player"
+import { getLatestEventSequence, readGameEvents, toSseEvent } from "@/lib/game-event-log"
+import { CLIENT_EVENT_TYPES, isClientEventType, logValidationResult, validateAndSanitizeEvent } from "@/lib/event-validation"
+import { createErrorResponse, getHttpStatusCode, type ApiErrorResponse } from "@/lib/api-types"
+import { roomMemberRepository } from "@/lib/database/repository"
+
+// Most stored events a reconnecting client is sent before it is told to resync instead
+const MAX_REPLAY_EVENTS = 100
+
+// Event id the client last saw: the standard reconnect header, or a query param for manual reconnects
+function parseLastEventId(request: NextRequest): number | undefined {
+  const raw = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId')
+  if (raw === null || raw === '') return undefined
+  const parsed = Number.parseInt(raw, 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ roomId: string }> }) {
   const { roomId } = await params
+  const viewer = await resolveEventViewer(roomId)
+  if (!viewer.success || !viewer.context) {
+    return errorResponse(createErrorResponse(viewer.error ?? "Cannot watch this room", viewer.code))
+  }
+  // Per-connection filter context; its phase follows the events sent on this connection
+  const context = viewer.context
+  const lastEventId = parseLastEventId(request)
   const connectionId = `conn_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
 
   const stream = new ReadableStream({
-    start(controller) {
+    async start(controller) {
       const encoder = new TextEncoder()
 
+      // Highest sequence sent on this connection, so replayed and live events are never sent twice.
+      // Unknown on a fresh connection until its first stored event goes out.
+      let lastSent = lastEventId
+      let replaying = lastEventId !== undefined
+      const pending: GameEvent[] = []
+      // Live events go out one at a time, since filling a gap reads the event log
+      let sending: Promise<void> = Promise.resolve()
+
+      const send = (event: object, id?: number) => {
+        const idLine = id !== undefined ? `id: ${id}\n` : ''
+        controller.enqueue(encoder.encode(`${idLine}data: ${JSON.stringify(event)}\n\n`))
+      }
+
+      const sendEvent = (event: GameEvent) => {
+        const sequence = (event as { sequence?: number }).sequence
+        if (sequence !== undefined) {
+          // Already sent, live or while filling a gap
+          if (lastSent !== undefined && sequence <= lastSent) return
+          lastSent = sequence
+        }
+
+        // Role-based filtering and hand redaction: players only ever receive their own hand
+        const result = filterEventForUser(event, context)
+        context.gamePhase = getEventPhase(event) ?? context.gamePhase
+        if (!result.allowed) return
+
+        send(result.modifiedEvent ?? event, sequence)
+      }
+
+      // Events after `from` and before `to` never reached this connection: send them from the
+      // event log, or a RESYNC when the log no longer has all of them
+      const fillGap = async (from: number, to: number) => {
+        const missed = to - from - 1
+        if (missed <= MAX_REPLAY_EVENTS) {
+          try {
+            const page = await readGameEvents(roomId, { after: from, limit: missed, order: 'asc' })
+            const sequences = page.events.map(stored => stored.sequence)
+            if (sequences.length === missed && sequences.every((sequence, i) => sequence === from + 1 + i)) {
+              page.events.forEach(stored => sendEvent(toSseEvent(stored) as GameEvent))
+              return
+            }
+          } catch (error) {
+            console.error('Error filling event gap for room:', roomId, error)
+          }
+        }
+
+        lastSent = to - 1
+        send({ type: "RESYNC", roomId, sequence: to - 1, reason: "live_gap" }, to - 1)
+      }
+
+      const sendLiveEvent = (event: GameEvent) => {
+        sending = sending.then(async () => {
+          const sequence = (event as { sequence?: number }).sequence
+          if (sequence !== undefined && lastSent !== undefined && sequence > lastSent + 1) {
+            await fillGap(lastSent, sequence)
+          }
+          sendEvent(event)
+        }).catch(error => {
+          console.error("Error sending event to room:", roomId, error)
+        })
+      }
+
       // Register this connection
       eventStore.registerConnection(roomId, connectionId)
 
       // Send connection message
       try {
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "CONNECTED" })}\n\n`))
+        send({ type: "CONNECTED", role: context.userRole })
       } catch (error) {
         console.error('Error sending CONNECTED message:', error)
       }
 
-      // Subscribe to real events for this room
+      // Subscribe before replaying so nothing emitted meanwhile is lost; hold live events until the replay is sent
       const unsubscribe = eventStore.subscribe(roomId, (event) => {
+        if (replaying) {
+          pending.push(event)
+          return
+        }
+        sendLiveEvent(event)
+      })
+
+      // Replay what the client missed while it was disconnected
+      if (lastEventId !== undefined) {
         try {
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          const latest = await getLatestEventSequence(roomId)
+          const missed = latest - lastEventId
+
+          if (missed > 0 && missed <= MAX_REPLAY_EVENTS) {
+            const page = await readGameEvents(roomId, { after: lastEventId, limit: MAX_REPLAY_EVENTS, order: 'asc' })
+            // The oldest missed events may have been pruned; a partial replay would leave the client inconsistent
+            if (page.events[0]?.sequence === lastEventId + 1) {
+              page.events.forEach(stored => sendEvent(toSseEvent(stored) as GameEvent))
+            } else {
+              lastSent = latest
+              send({ type: "RESYNC", roomId, sequence: latest, reason: "events_pruned" }, latest)
+            }
+          } else if (missed !== 0) {
+            lastSent = latest
+            send({ type: "RESYNC", roomId, sequence: latest, reason: missed > 0 ? "gap_too_large" : "unknown_event_id" }, latest)
+          }
         } catch (error) {
-          console.error("Error sending event to room:", roomId, error)
+          console.error('Error replaying events for room:', roomId, error)
+          try {
+            send({ type: "RESYNC", roomId, sequence: lastSent ?? 0, reason: "replay_failed" })
+          } catch {
+            // Connection already closed
+          }
         }
-      })
+
+        replaying = false
+        pending.splice(0).forEach(sendLiveEvent)
+      }
 
       // Send periodic heartbeat
       const heartbeat = setInterval(() => {
@@ -39,7 +158,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
           // Update heartbeat tracking
           eventStore.updateConnectionHeartbeat(connectionId)
 
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "HEARTBEAT" })}\n\n`))
+          send({ type: "HEARTBEAT" })
         } catch (error) {
           console.error('SSE heartbeat error:', error)
           clearInterval(heartbeat)
@@ -67,23 +186,54 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       'Connection': 'keep-alive',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET',
-      'Access-Control-Allow-Headers': 'Cache-Control'
+      'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID'
     }
   })
 }
 
+/**
+ * Client-originated events (chat, emotes, typing). The sender is always the
+ * session user, who must be a member of the room; game events can only come
+ * from server actions.
+ */
 export async function POST(request: NextRequest, { params }: { params: Promise<{ roomId: string }> }) {
   try {
     const { roomId } = await params
-    const body = await request.json()
-    
-    // Emit the event to the event store
-    eventStore.emit({
+
+    const user = await getCurrentUser()
+    if (!user) {
+      return errorResponse(createErrorResponse("Not authenticated", "UNAUTHORIZED"))
+    }
+
+    const membership = await roomMemberRepository.findMember(roomId, user.id)
+    if (!membership) {
+      return errorResponse(createErrorResponse("Not a member of this room", "FORBIDDEN"))
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!isClientEventType(body?.type)) {
+      console.warn(`🚫 ${user.id} tried to send ${body?.type} to room ${roomId}`)
+      return errorResponse(createErrorResponse(`Clients may only send ${CLIENT_EVENT_TYPES.join(", ")} events`, "FORBIDDEN"))
+    }
+
+    const { isValid, sanitizedEvent, validation } = validateAndSanitizeEvent({
       type: body.type,
       roomId,
-      data: body.data,
-      ...(body.playerId && { playerId: body.playerId })
-    } as any)
+      userId: user.id,
+      data: body.data
+    })
+    if (!isValid || !sanitizedEvent) {
+      logValidationResult(validation)
+      return errorResponse(createErrorResponse(validation.errors.join("; "), "VALIDATION_ERROR", validation.errors))
+    }
+
+    // Client events are ephemeral: not stored in the event log, so they carry no sequence
+    eventStore.emit(toSseEvent({
+      type: sanitizedEvent.type,
+      roomId,
+      userId: user.id,
+      data: { ...(sanitizedEvent as { data?: object }).data, playerName: user.name }
+    }) as unknown as GameEvent)
 
     return Response.json({ success: true })
   } catch (error) {
@@ -91,3 +241,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     return Response.json({ success: false, error: "Failed to process event" }, { status: 500 })
   }
 }
+
+function errorResponse(response: ApiErrorResponse): Response {
+  return Response.json(response, { status: getHttpStatusCode(response) })
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getRoomGameState } from "@/app/actions/game-actions"
+import { getRoomGameState } from "@/lib/room-game-state"
+import { getCurrentUser } from "@/app/actions/auth"
+import { projectGameStateForViewer } from "@/lib/event-filtering"
+import { isSpectator, getSpectatorCount } from "@/lib/database"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -11,14 +14,23 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   try {
     const { roomId } = await params
 
+    const user = await getCurrentUser()
+    if (!user) {
+      const response = createErrorResponse("Not authenticated", "UNAUTHORIZED")
+      return NextResponse.json(response, { status: getHttpStatusCode(response) })
+    }
+
     const gameState = await getRoomGameState(roomId)
 
     if (gameState) {
+      // Only ever hand out the viewer's own cards
       const responseData: GameStateResponse = {
-        gameState,
+        gameState: projectGameStateForViewer(gameState, user.id),
         roomExists: true,
         playerCount: Object.keys(gameState.players).length,
-        isPlayerInRoom: true // This would need user context to determine properly
+        isPlayerInRoom: !!gameState.players[user.id],
+        isSpectator: await isSpectator(roomId, user.id),
+        spectatorCount: await getSpectatorCount(roomId)
       }
 
       const response = createSuccessResponse(responseData, "Game state retrieved successfully")
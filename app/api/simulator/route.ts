@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getRoomGameState, resetGameAction } from "@/app/actions/game-actions"
+import { resetGameAction } from "@/app/actions/game-actions"
+import { getRoomGameState } from "@/lib/room-game-state"
+import { getCurrentUser } from "@/app/actions/auth"
+import { isSimulatorRoom } from "@/lib/acting-player"
+import { projectGameStateForViewer } from "@/lib/event-filtering"
+import { getSpectatorCount } from "@/lib/database"
 import {
   createSuccessResponse,
   createErrorResponse,
@@ -12,16 +17,27 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { action, roomId } = body
 
+    const user = await getCurrentUser()
+    if (!user) {
+      const response = createErrorResponse("Not authenticated", "UNAUTHORIZED")
+      return NextResponse.json(response, { status: getHttpStatusCode(response) })
+    }
+
+    // Only simulator rooms expose every hand and allow resets from here
+    const simulatorRoom = await isSimulatorRoom(roomId)
+
     switch (action) {
       case 'getGameState':
         try {
           const gameState = await getRoomGameState(roomId)
           if (gameState) {
             const responseData: GameStateResponse = {
-              gameState,
+              gameState: simulatorRoom ? gameState : projectGameStateForViewer(gameState, user.id),
               roomExists: true,
               playerCount: Object.keys(gameState.players).length,
-              isPlayerInRoom: true
+              isPlayerInRoom: simulatorRoom || !!gameState.players[user.id],
+              isSpectator: false, // the simulator drives seats, it never watches
+              spectatorCount: await getSpectatorCount(roomId)
             }
             const response = createSuccessResponse(responseData, "Game state retrieved successfully")
             return NextResponse.json(response)
@@ -36,6 +52,11 @@ export async function POST(request: NextRequest) {
         }
 
       case 'resetGame':
+        if (!simulatorRoom) {
+          const response = createErrorResponse("Only simulator rooms can be reset here", "FORBIDDEN")
+          return NextResponse.json(response, { status: getHttpStatusCode(response) })
+        }
+
         try {
           const result = await resetGameAction(roomId)
           // resetGameAction returns the old format, so we need to convert it
@@ -44,7 +65,9 @@ export async function POST(request: NextRequest) {
               gameState: result.gameState,
               roomExists: true,
               playerCount: Object.keys(result.gameState.players).length,
-              isPlayerInRoom: true
+              isPlayerInRoom: true,
+              isSpectator: false,
+              spectatorCount: await getSpectatorCount(roomId)
             }
             const response = createSuccessResponse(responseData, "Game reset successfully")
             return NextResponse.json(response)
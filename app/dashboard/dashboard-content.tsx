@@ -1,7 +1,7 @@
 "use client"
 
 import { useActionState } from "react"
-import { createRoom, joinRoom } from "../actions/rooms"
+import { createRoom, joinRoom, spectateRoom } from "../actions/rooms"
 import { signOut } from "../actions/auth"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Users, Plus, LogOut, Gamepad2, Sparkles } from "lucide-react"
 import Link from "next/link"
 import Navigation, { BottomNavigation } from "@/components/navigation"
+import { ALL_PASS_RULES, ALL_PASS_RULE_LABELS, DEFAULT_RULE_SET, RULE_SET_LIMITS, TURN_TIME_LIMIT_OPTIONS } from "@/lib/game-types"
 
 type User = {
   id: string
@@ -19,7 +20,7 @@ type Room = {
   id: string
   name: string
   host: User
-  _count?: { members: number }
+  _count?: { members: number; spectators?: number }
   createdAt: Date
 }
 
@@ -31,6 +32,7 @@ interface DashboardContentProps {
 export default function DashboardContent({ user, rooms }: DashboardContentProps) {
   const [createState, createAction, isCreating] = useActionState(createRoom, null)
   const [joinState, joinAction, isJoining] = useActionState(joinRoom, null)
+  const [spectateState, spectateAction, isSpectating] = useActionState(spectateRoom, null)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 via-blue-50 to-purple-100">
@@ -93,6 +95,107 @@ export default function DashboardContent({ user, rooms }: DashboardContentProps)
                   disabled={isCreating}
                   className="h-12 text-lg border-2 border-green-200 focus:border-green-400 rounded-xl"
                 />
+                <details className="rounded-xl border-2 border-green-100 p-3 text-sm">
+                  <summary className="cursor-pointer font-semibold text-gray-700">🏠 House rules</summary>
+                  <input type="hidden" name="houseRules" value="on" />
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <label className="space-y-1">
+                      <span className="text-gray-600">Minimum bet</span>
+                      <select
+                        name="minimumBet"
+                        defaultValue={DEFAULT_RULE_SET.minimumBet}
+                        disabled={isCreating}
+                        className="w-full h-9 rounded-md border px-2"
+                      >
+                        {Array.from(
+                          { length: RULE_SET_LIMITS.minimumBet.max - RULE_SET_LIMITS.minimumBet.min + 1 },
+                          (_, i) => RULE_SET_LIMITS.minimumBet.min + i
+                        ).map(value => (
+                          <option key={value} value={value}>{value}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-gray-600">Red 0 points</span>
+                      <Input
+                        type="number"
+                        name="bonhommeRougePoints"
+                        defaultValue={DEFAULT_RULE_SET.bonhommeRougePoints}
+                        min={RULE_SET_LIMITS.bonhommePoints.min}
+                        max={RULE_SET_LIMITS.bonhommePoints.max}
+                        disabled={isCreating}
+                      />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-gray-600">Brown 0 points</span>
+                      <Input
+                        type="number"
+                        name="bonhommeBrunPoints"
+                        defaultValue={DEFAULT_RULE_SET.bonhommeBrunPoints}
+                        min={RULE_SET_LIMITS.bonhommePoints.min}
+                        max={RULE_SET_LIMITS.bonhommePoints.max}
+                        disabled={isCreating}
+                      />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-gray-600">Trump / no-trump ×</span>
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          name="trumpBetMultiplier"
+                          defaultValue={DEFAULT_RULE_SET.trumpBetMultiplier}
+                          min={RULE_SET_LIMITS.betMultiplier.min}
+                          max={RULE_SET_LIMITS.betMultiplier.max}
+                          disabled={isCreating}
+                        />
+                        <Input
+                          type="number"
+                          name="noTrumpBetMultiplier"
+                          defaultValue={DEFAULT_RULE_SET.noTrumpBetMultiplier}
+                          min={RULE_SET_LIMITS.betMultiplier.min}
+                          max={RULE_SET_LIMITS.betMultiplier.max}
+                          disabled={isCreating}
+                        />
+                      </div>
+                    </label>
+                  </div>
+                  <label className="flex items-center gap-2 mt-3">
+                    <input type="checkbox" name="mustOvertrump" defaultChecked={DEFAULT_RULE_SET.mustOvertrump} disabled={isCreating} />
+                    <span className="text-gray-600">Must overtrump when trumping a trumped trick</span>
+                  </label>
+                  <label className="block space-y-1 mt-2">
+                    <span className="text-gray-600">When everyone passes</span>
+                    <select
+                      name="allPassRule"
+                      defaultValue={DEFAULT_RULE_SET.allPassRule}
+                      disabled={isCreating}
+                      className="w-full h-9 rounded-md border px-2"
+                    >
+                      {ALL_PASS_RULES.map(rule => (
+                        <option key={rule} value={rule}>{ALL_PASS_RULE_LABELS[rule]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 mt-2">
+                    <input type="checkbox" name="dealBeforeBetting" defaultChecked={DEFAULT_RULE_SET.dealBeforeBetting} disabled={isCreating} />
+                    <span className="text-gray-600">Deal before bidding (bid with your cards visible)</span>
+                  </label>
+                  <label className="block space-y-1 mt-2">
+                    <span className="text-gray-600">Turn time limit</span>
+                    <select
+                      name="turnTimeLimit"
+                      defaultValue={DEFAULT_RULE_SET.turnTimeLimit}
+                      disabled={isCreating}
+                      className="w-full h-9 rounded-md border px-2"
+                    >
+                      {TURN_TIME_LIMIT_OPTIONS.map(seconds => (
+                        <option key={seconds} value={seconds}>
+                          {seconds === 0 ? "No limit" : `${seconds} seconds (then pass or lowest card)`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </details>
                 {createState?.error && (
                   <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
                     <p className="text-red-500 text-sm">{createState.error}</p>
@@ -134,19 +237,34 @@ export default function DashboardContent({ user, rooms }: DashboardContentProps)
                         <h3 className="font-semibold text-gray-900">{room.name}</h3>
                         <p className="text-sm text-gray-600">
                           🎮 Host: {room.host.name} • 👥 {room._count?.members || 0} players
+                          {(room._count?.spectators || 0) > 0 && ` • 👁️ ${room._count?.spectators} watching`}
                         </p>
                       </div>
-                      <form action={joinAction}>
-                        <input type="hidden" name="roomId" value={room.id} />
-                        <Button
-                          type="submit"
-                          size="sm"
-                          disabled={isJoining}
-                          className="bg-purple-600 hover:bg-purple-700 text-white rounded-lg px-4 py-2"
-                        >
-                          {isJoining ? "🔄 Joining..." : "🚀 Join"}
-                        </Button>
-                      </form>
+                      <div className="flex gap-2">
+                        <form action={spectateAction}>
+                          <input type="hidden" name="roomId" value={room.id} />
+                          <Button
+                            type="submit"
+                            size="sm"
+                            variant="outline"
+                            disabled={isSpectating}
+                            className="border-purple-300 text-purple-700 rounded-lg px-4 py-2"
+                          >
+                            {isSpectating ? "🔄 Opening..." : "👁️ Watch"}
+                          </Button>
+                        </form>
+                        <form action={joinAction}>
+                          <input type="hidden" name="roomId" value={room.id} />
+                          <Button
+                            type="submit"
+                            size="sm"
+                            disabled={isJoining}
+                            className="bg-purple-600 hover:bg-purple-700 text-white rounded-lg px-4 py-2"
+                          >
+                            {isJoining ? "🔄 Joining..." : "🚀 Join"}
+                          </Button>
+                        </form>
+                      </div>
                     </div>
                   ))
                 )}
@@ -156,6 +274,11 @@ export default function DashboardContent({ user, rooms }: DashboardContentProps)
                   <p className="text-red-500 text-sm">{joinState.error}</p>
                 </div>
               )}
+              {spectateState?.error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg mt-4">
+                  <p className="text-red-500 text-sm">{spectateState.error}</p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -5,9 +5,10 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Crown, Clock, X } from "lucide-react"
-import { GameState, Team, Bets, BetsNumericValue, Bet } from "@/lib/game-types"
+import { GameState, Team, Bets, BetsNumericValue, Bet, CARD_COLORS, ALL_PASS_RULE_LABELS } from "@/lib/game-types"
 // Using API route instead of Server Action to prevent SSE connection closure
 import { useToast } from "@/hooks/use-toast"
+import { canPlaceBet, getHighestBet, getLatestBets, getRuleSet, hasPassed, isBiddingOver } from "@/lib/game-logic"
 
 interface BettingPhaseProps {
   roomId: string
@@ -25,9 +26,16 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
   const [recentBetters, setRecentBetters] = useState<Set<string>>(new Set())
   const { toast } = useToast()
   const isMyTurn = gameState.currentTurn === currentUserId
-  const playerBet = gameState.bets[currentUserId]
-  const allBets = Object.values(gameState.bets)
-  const highestBet = gameState.highestBet
+  const latestBets = getLatestBets(gameState.bets)
+  const playerBet = latestBets[currentUserId]
+  const passedCount = gameState.turnOrder.filter(id => hasPassed(gameState, id)).length
+  const auctionOver = isBiddingOver(gameState)
+  const leadingBet = getHighestBet(gameState.bets)
+  const highestBet = gameState.highestBet ?? (leadingBet?.betValue !== Bets.SKIP ? leadingBet : null)
+  const lastBet = gameState.bets[gameState.bets.length - 1]
+  const rules = getRuleSet(gameState)
+  const myHand = [...(gameState.playerHands[currentUserId] || [])]
+    .sort((a, b) => CARD_COLORS.indexOf(a.color) - CARD_COLORS.indexOf(b.color) || a.value - b.value)
 
   // Track gameState changes
   useEffect(() => {
@@ -35,8 +43,8 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
       currentTurn: gameState.currentTurn,
       currentUserId,
       isMyTurn: gameState.currentTurn === currentUserId,
-      playerBet: !!gameState.bets[currentUserId],
-      allBetsCount: Object.keys(gameState.bets || {}).length,
+      playerBet: !!getLatestBets(gameState.bets)[currentUserId],
+      auctionLength: gameState.bets.length,
       totalPlayers: gameState.turnOrder?.length || 0,
       timestamp: Date.now()
     })
@@ -61,18 +69,18 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
   }, [isMyTurn, onRefreshNeeded])
 
   // Track recent bet placements for visual feedback
+  const auctionLength = gameState.bets.length
+  const lastBetterId = lastBet?.playerId
   useEffect(() => {
-    const currentBetters = new Set(Object.keys(gameState.bets))
-    const newBetters = new Set([...currentBetters].filter(id => !recentBetters.has(id)))
-
-    if (newBetters.size > 0) {
-      setRecentBetters(currentBetters)
-      // Clear the highlight after 3 seconds
-      setTimeout(() => {
-        setRecentBetters(new Set())
-      }, 3000)
-    }
-  }, [gameState.bets, recentBetters])
+    if (!lastBetterId) return
+
+    setRecentBetters(new Set([lastBetterId]))
+    // Clear the highlight after 3 seconds
+    const timeout = setTimeout(() => {
+      setRecentBetters(new Set())
+    }, 3000)
+    return () => clearTimeout(timeout)
+  }, [auctionLength, lastBetterId])
 
   const handlePlaceBet = async () => {
     if (isPlacing || !isMyTurn || !selectedBet) return
@@ -134,23 +142,18 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
     return `${BetsNumericValue[bet]} tricks`
   }
 
-  const isBetAvailable = (bet: Bets) => {
-    if (bet === Bets.SKIP) return true
-
-    if (!highestBet || highestBet.betValue === Bets.SKIP) {
-      return BetsNumericValue[bet] >= 7 // Minimum bet is 7
+  // Same rule the server applies when the bet is placed
+  const isBetAvailable = (bet: Bets) =>
+    canPlaceBet(gameState, currentUserId, { betValue: bet, value: BetsNumericValue[bet], trump: isTrump })
+
+  const getCardColor = (color: string) => {
+    switch (color) {
+      case 'red': return 'bg-red-100 border-red-300 text-red-800'
+      case 'blue': return 'bg-blue-100 border-blue-300 text-blue-800'
+      case 'green': return 'bg-green-100 border-green-300 text-green-800'
+      case 'brown': return 'bg-amber-100 border-amber-300 text-amber-800'
+      default: return 'bg-gray-100 border-gray-300 text-gray-800'
     }
-
-    const currentHighest = BetsNumericValue[highestBet.betValue]
-    const thisBetValue = BetsNumericValue[bet]
-
-    // Must bet higher than current highest
-    if (thisBetValue > currentHighest) return true
-
-    // Same value only allowed if upgrading from trump to no-trump
-    if (thisBetValue === currentHighest && highestBet.trump && !isTrump) return true
-
-    return false
   }
 
   const getPlayerTeamColor = (playerId: string) => {
@@ -180,6 +183,13 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
         <p className="text-xs text-gray-600">
           Bid on tricks you can win! 🎯
         </p>
+        <p className="text-xs text-gray-500">
+          Opening bet {rules.minimumBet}+
+          {` · if all pass: ${ALL_PASS_RULE_LABELS[rules.allPassRule].toLowerCase()}`}
+          {rules.mustOvertrump && " · must overtrump"}
+          {!rules.dealBeforeBetting && " · bidding blind"}
+          {rules.turnTimeLimit > 0 && ` · ${rules.turnTimeLimit}s per turn`}
+        </p>
 
         {error && (
           <div className="bg-red-50 border border-red-200 rounded p-2 mt-2">
@@ -210,6 +220,21 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
           </div>
         )}
 
+        {/* Your Hand (dealt before bidding) */}
+        {myHand.length > 0 && (
+          <div className="p-3 bg-white border border-gray-200 rounded-lg">
+            <h3 className="font-semibold text-sm text-center mb-2">Your Hand ({myHand.length} cards)</h3>
+            <div className="flex flex-wrap gap-1 justify-center">
+              {myHand.map(card => (
+                <div key={card.id} className={`px-2 py-1 rounded border-2 text-center ${getCardColor(card.color)}`}>
+                  <div className="font-bold">{card.value}</div>
+                  <div className="text-xs capitalize">{card.color}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Round Info */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
           <div className="text-center">
@@ -219,7 +244,7 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
               {gameState.dealer === currentUserId && " (You)"}
             </p>
             <p className="text-xs text-blue-500 mt-1">
-              Betting order: First Better → Others → Dealer (bets last)
+              Betting order: First Better → Others → Dealer, round the table until all but the highest bidder pass
             </p>
           </div>
         </div>
@@ -230,9 +255,10 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
           <div className="grid gap-3">
             {gameState.turnOrder.map((playerId, index) => {
               const player = gameState.players[playerId]
-              const bet = gameState.bets[playerId]
+              const bet = latestBets[playerId]
               const isCurrentTurn = gameState.currentTurn === playerId
               const isCurrentUser = playerId === currentUserId
+              const isOut = hasPassed(gameState, playerId)
 
               return (
                 <div
@@ -266,14 +292,16 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
                   </div>
 
                   <div className="flex items-center gap-2">
-                    {isCurrentTurn && !bet && (
+                    {isCurrentTurn && !auctionOver && (
                       <Badge variant="default" className="animate-pulse">
                         <Clock className="h-3 w-3 mr-1" />
                         Betting...
                       </Badge>
                     )}
                     
-                    {bet ? (
+                    {isOut ? (
+                      <Badge variant="secondary">Passed</Badge>
+                    ) : bet ? (
                       <Badge 
                         variant={bet.value === 0 ? "secondary" : "default"}
                         className={bet.trump ? "bg-yellow-500 text-yellow-900" : ""}
@@ -291,7 +319,7 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
         </div>
 
         {/* Betting Interface */}
-        {isMyTurn && !playerBet && (
+        {isMyTurn && !auctionOver && !hasPassed(gameState, currentUserId) && (
           <div className="border-2 border-green-200 rounded-lg p-6 bg-green-50">
             <h3 className="font-semibold mb-4 text-center text-green-800">Place Your Bet</h3>
             
@@ -363,7 +391,7 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
         {/* Your Bet Display */}
         {playerBet && (
           <div className="text-center p-4 bg-blue-50 border border-blue-200 rounded-lg">
-            <h3 className="font-semibold text-blue-800 mb-2">Your Bet</h3>
+            <h3 className="font-semibold text-blue-800 mb-2">Your Latest Bet</h3>
             <Badge variant="default" className="text-lg px-4 py-2">
               {getBetDisplay(playerBet)}
             </Badge>
@@ -374,23 +402,44 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
         <div className="space-y-4">
           <div className="text-center">
             <p className="text-sm text-gray-600 mb-2">
-              {allBets.length}/{gameState.turnOrder.length} players have bet
+              {passedCount}/{gameState.turnOrder.length} players have passed
             </p>
 
-            {allBets.length === gameState.turnOrder.length && (
+            {auctionOver && (
               <p className="text-green-600 font-semibold">
-                ✓ All bets placed! Starting card game...
+                ✓ Auction over! Starting card game...
               </p>
             )}
           </div>
 
+          {/* Auction History */}
+          {gameState.bets.length > 0 && (
+            <div className="p-3 bg-white border border-gray-200 rounded-lg">
+              <h3 className="font-semibold text-sm text-center mb-2">Auction ({gameState.bets.length} bets)</h3>
+              <ol className="space-y-1 text-sm">
+                {gameState.bets.map((bet, index) => (
+                  <li key={index} className="flex items-center justify-between">
+                    <span className={getPlayerTeamColor(bet.playerId)}>
+                      {index + 1}. {gameState.players[bet.playerId]?.name || 'Unknown'}
+                      {bet.playerId === currentUserId && ' (You)'}
+                    </span>
+                    <span className={bet.betValue === Bets.SKIP ? "text-gray-500" : "font-medium"}>
+                      {bet.betValue === Bets.SKIP ? "Pass" : getBetDisplay(bet)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Player Betting Status */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
             {gameState.turnOrder.map((playerId) => {
               const player = gameState.players[playerId]
-              const playerBet = gameState.bets[playerId]
-              const isCurrentTurn = gameState.currentTurn === playerId
+              const playerBet = latestBets[playerId]
+              const isCurrentTurn = gameState.currentTurn === playerId && !auctionOver
               const isCurrentUser = playerId === currentUserId
+              const isOut = hasPassed(gameState, playerId)
               const isRecentBetter = recentBetters.has(playerId) && playerBet
 
               return (
@@ -411,8 +460,10 @@ export default function BettingPhase({ roomId, gameState, currentUserId, onGameS
                     {isCurrentUser && ' (You)'}
                   </div>
                   <div className="text-xs mt-1">
-                    {isCurrentTurn && !playerBet ? (
+                    {isCurrentTurn ? (
                       <span className="text-yellow-700">🕐 Betting...</span>
+                    ) : isOut ? (
+                      <span className="text-gray-500">✗ Passed</span>
                     ) : playerBet ? (
                       <span className="text-green-700">
                         ✓ {getBetDisplay(playerBet)}
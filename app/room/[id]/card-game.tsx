@@ -4,8 +4,10 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { GameState, Card as GameCard } from "@/lib/game-types"
+import { GameState, Card as GameCard, Team } from "@/lib/game-types"
+import { getTeamTallies } from "@/lib/game-logic"
 import { playCardAction } from "@/app/actions/game-logic"
+import TrickHistory from "./trick-history"
 
 interface CardGameProps {
   roomId: string
@@ -37,6 +39,7 @@ export default function CardGame({ roomId, gameState, currentUserId, onGameState
   const playerHand = gameState.playerHands[currentUserId] || []
   const playedCards = Object.values(gameState.playedCards)
   const highestBet = gameState.highestBet
+  const teamTallies = getTeamTallies(gameState)
 
   // Debug logging for played cards
   console.log('🃏 CardGame render - played cards:', playedCards.length, playedCards)
@@ -184,6 +187,9 @@ export default function CardGame({ roomId, gameState, currentUserId, onGameState
           </div>
         </div>
 
+        {/* Trick History */}
+        <TrickHistory roomId={roomId} gameState={gameState} />
+
         {/* Player's Hand */}
         <div>
           <h3 className="font-semibold mb-3">Your Hand ({playerHand.length} cards):</h3>
@@ -222,11 +228,12 @@ export default function CardGame({ roomId, gameState, currentUserId, onGameState
 
         {/* Scores */}
         <div>
-          <h3 className="font-semibold mb-3">Tricks Won This Round:</h3>
+          <h3 className="font-semibold mb-3">Taken This Round:</h3>
           <div className="grid grid-cols-2 gap-4">
             {gameState.turnOrder.map(playerId => {
               const player = gameState.players[playerId]
               const tricks = gameState.wonTricks[playerId] || 0
+              const points = gameState.cardPoints?.[playerId] || 0
               const isCurrentTurn = gameState.currentTurn === playerId
               return (
                 <div key={playerId} className={`flex justify-between items-center p-2 rounded ${
@@ -237,11 +244,27 @@ export default function CardGame({ roomId, gameState, currentUserId, onGameState
                     {player.team && <Badge variant="outline">Team {player.team}</Badge>}
                     {isCurrentTurn && <Badge variant="default" className="text-xs">Turn</Badge>}
                   </span>
-                  <Badge variant="secondary">{tricks} tricks</Badge>
+                  <span className="flex gap-1">
+                    <Badge variant="secondary">{tricks} tricks</Badge>
+                    <Badge variant="outline">{points} pts</Badge>
+                  </span>
                 </div>
               )
             })}
           </div>
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            {[Team.A, Team.B].map(team => (
+              <div key={team} className="flex justify-between items-center p-2 rounded bg-gray-50 border">
+                <span className="font-medium">
+                  Team {team}
+                  {highestBet && gameState.players[highestBet.playerId]?.team === team && ` (needs ${highestBet.value} pts)`}
+                </span>
+                <span className="text-sm">
+                  {teamTallies[team].tricks} tricks · {teamTallies[team].cardPoints} pts
+                </span>
+              </div>
+            ))}
+          </div>
         </div>
 
         {/* Game Scores */}
@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { GameState, DEFAULT_MATCH_TARGET } from "@/lib/game-types"
+import { rematchAction } from "@/app/actions/game-logic"
+import { RotateCcw, Trophy } from "lucide-react"
+
+interface GameEndProps {
+  roomId: string
+  gameState: GameState
+  currentUserId: string
+  onGameStateUpdate: (newGameState: GameState) => void
+}
+
+export default function GameEnd({ roomId, gameState, currentUserId, onGameStateUpdate }: GameEndProps) {
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const result = gameState.matchResult
+  const target = gameState.matchTarget ?? DEFAULT_MATCH_TARGET
+  const myTeam = gameState.players[currentUserId]?.team
+  const isPlayer = !!gameState.players[currentUserId]
+
+  const handleRematch = async () => {
+    setIsStarting(true)
+    setError(null)
+
+    try {
+      const response = await rematchAction(roomId)
+      if (response.success && response.gameState) {
+        onGameStateUpdate(response.gameState)
+      } else {
+        setError(response.error || "Failed to start rematch")
+      }
+    } catch (error) {
+      console.error("Rematch error:", error)
+      setError("Failed to start rematch")
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-center flex items-center justify-center gap-2">
+          <Trophy className="h-6 w-6 text-yellow-500" />
+          {result ? `Team ${result.winningTeam} wins!` : "Match over"}
+        </CardTitle>
+        <p className="text-center text-sm text-gray-600">
+          {result && `After ${result.roundsPlayed} round${result.roundsPlayed !== 1 ? "s" : ""} · `}
+          Played to {target.value} {target.type}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result?.standings.map((standing, index) => (
+          <div
+            key={standing.team}
+            className={`flex items-center justify-between p-4 rounded-lg border ${
+              index === 0 ? "bg-yellow-50 border-yellow-200" : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <div>
+              <div className="font-semibold flex items-center gap-2">
+                Team {standing.team}
+                {standing.team === myTeam && <Badge variant="outline">Your team</Badge>}
+              </div>
+              <div className="text-sm text-gray-600">
+                {standing.players.map(p => p.name).join(" & ")}
+              </div>
+            </div>
+            <div className="text-2xl font-bold">{standing.score}</div>
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+        {isPlayer && (
+          <Button onClick={handleRematch} disabled={isStarting} size="lg" className="w-full">
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {isStarting ? "Starting..." : "Rematch (same teams)"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
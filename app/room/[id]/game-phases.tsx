@@ -1,16 +1,20 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { GamePhase, GameState } from "@/lib/game-types"
+import { GamePhase, GameState, DEFAULT_MATCH_TARGET, BotDifficulty, BOT_DIFFICULTIES } from "@/lib/game-types"
 
 import { Button } from "@/components/ui/button"
-import { Play, Users } from "lucide-react"
+import { Bot, Play, Users } from "lucide-react"
 import TeamSelection from "./team-selection"
 import BettingPhase from "./betting-phase"
 import CardGame from "./card-game"
+import GameEnd from "./game-end"
 import { forceAutoStartAction } from "../../actions/game-actions"
+import { expireTurnAction } from "../../actions/game-logic"
+import { addBotAction } from "../../actions/rooms"
+import { TurnIndicator } from "@/components/ui/game-status-indicators"
 
 interface GamePhasesProps {
   roomId: string
@@ -27,6 +31,8 @@ interface GamePhasesProps {
 export default function GamePhases({ roomId, gameState: initialGameState, currentUserId, onRefreshNeeded, trickComplete }: GamePhasesProps) {
   // Local state for immediate UI updates
   const [localGameState, setLocalGameState] = useState<GameState | null>(null)
+  const [isAddingBot, setIsAddingBot] = useState(false)
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty | "">("")
 
   // Use local state for immediate updates, then fallback to prop
   const gameState = localGameState || initialGameState
@@ -37,7 +43,7 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
     console.log('🎮 Game Phases - gameState changed:', {
       phase: gameState?.phase,
       currentTurn: gameState?.currentTurn,
-      betsCount: Object.keys(gameState?.bets || {}).length,
+      betsCount: (gameState?.bets || []).length,
       usingLocalState: !!localGameState,
       usingPropState: !localGameState,
       timestamp: Date.now()
@@ -51,7 +57,7 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
     console.log('🎮 Game state updated locally in game-phases:', {
       phase: newGameState.phase,
       currentTurn: newGameState.currentTurn,
-      betsCount: Object.keys(newGameState.bets || {}).length
+      betsCount: (newGameState.bets || []).length
     })
 
     // Don't use local state for any actions - SSE handles all updates now
@@ -66,6 +72,23 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
     }
   }
 
+  // The player to move ran out of time: have the server make their move. Clocks
+  // can drift a little from the server's, so a refused early call is retried once.
+  const handleTurnExpired = useCallback(async () => {
+    try {
+      let result = await expireTurnAction(roomId)
+      if (!result.success && result.error === "Turn has not timed out") {
+        await new Promise(resolve => setTimeout(resolve, 2000))
+        result = await expireTurnAction(roomId)
+      }
+      if (!result.success) {
+        console.log('⏰ Turn timeout not applied:', result.error)
+      }
+    } catch (error) {
+      console.error("Turn timeout error:", error)
+    }
+  }, [roomId])
+
   // Handle start game for waiting phase
   const handleStartGame = async () => {
     try {
@@ -79,6 +102,22 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
     }
   }
 
+  // Fill an empty seat with a bot; the new player arrives through SSE
+  const handleAddBot = async () => {
+    setIsAddingBot(true)
+    try {
+      const result = await addBotAction(roomId, botDifficulty || undefined)
+      if (!result.success) {
+        console.log('🤖 Bot not added:', result.error)
+      }
+      handleGameStateUpdate(gameState)
+    } catch (error) {
+      console.error("Add bot error:", error)
+    } finally {
+      setIsAddingBot(false)
+    }
+  }
+
   return (
     <div className="space-y-6">
       {/* Game Status Header */}
@@ -110,6 +149,12 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
                 {localGameState ? "Local" : "Live"}
               </Badge>
             </div>
+            <div>
+              <p className="text-sm text-gray-600">Playing To</p>
+              <Badge variant="outline">
+                {(gameState.matchTarget ?? DEFAULT_MATCH_TARGET).value} {(gameState.matchTarget ?? DEFAULT_MATCH_TARGET).type}
+              </Badge>
+            </div>
             <div>
               <p className="text-sm text-gray-600">Dealer</p>
               <Badge variant="outline">
@@ -120,6 +165,19 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
         </CardContent>
       </Card>
 
+      {/* Turn clock */}
+      {(gameState.phase === GamePhase.BETS || gameState.phase === GamePhase.CARDS) && gameState.currentTurn && (
+        <div className="w-full max-w-4xl mx-auto">
+          <TurnIndicator
+            currentTurn={gameState.currentTurn}
+            currentUserId={currentUserId}
+            playerName={gameState.players[gameState.currentTurn]?.name}
+            deadline={gameState.turnDeadline}
+            onExpire={handleTurnExpired}
+          />
+        </div>
+      )}
+
       {/* Phase-specific content */}
       <div className="w-full">
         {gameState.phase === GamePhase.WAITING && (
@@ -147,13 +205,42 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
                       <span className={`text-sm ${
                         i < Object.keys(gameState.players).length ? 'text-green-700' : 'text-gray-500'
                       }`}>
-                        Player {i + 1} {i < Object.keys(gameState.players).length ? '✓' : 'waiting...'}
+                        Player {i + 1} {i < Object.keys(gameState.players).length
+                          ? (Object.values(gameState.players)[i].isBot ? '🤖' : '✓')
+                          : 'waiting...'}
                       </span>
                     </div>
                   ))}
                 </div>
               </div>
 
+              {/* Add Bot Button */}
+              {Object.keys(gameState.players).length < 4 && (
+                <div className="mb-6 flex items-center justify-center gap-2">
+                  <select
+                    value={botDifficulty}
+                    onChange={(e) => setBotDifficulty(e.target.value as BotDifficulty | "")}
+                    disabled={isAddingBot}
+                    className="h-9 rounded-md border px-2 text-sm"
+                  >
+                    <option value="">Simple bot</option>
+                    {BOT_DIFFICULTIES.map(difficulty => (
+                      <option key={difficulty} value={difficulty}>
+                        {`AI bot (${difficulty})`}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={handleAddBot}
+                    disabled={isAddingBot}
+                    variant="outline"
+                  >
+                    <Bot className="h-4 w-4 mr-2" />
+                    {isAddingBot ? "Adding bot..." : "Add a bot"}
+                  </Button>
+                </div>
+              )}
+
               {/* Start Game Button */}
               {Object.keys(gameState.players).length === 4 && (
                 <div className="space-y-4">
@@ -193,7 +280,7 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
 
         {gameState.phase === GamePhase.BETS && (
           <BettingPhase
-            key={`betting-${gameState.currentTurn}-${Object.keys(gameState.bets || {}).length}`}
+            key={`betting-${gameState.currentTurn}-${(gameState.bets || []).length}`}
             roomId={roomId}
             gameState={gameState}
             currentUserId={currentUserId}
@@ -211,6 +298,15 @@ export default function GamePhases({ roomId, gameState: initialGameState, curren
           />
         )}
 
+        {gameState.phase === GamePhase.GAME_END && (
+          <GameEnd
+            roomId={roomId}
+            gameState={gameState}
+            currentUserId={currentUserId}
+            onGameStateUpdate={handleGameStateUpdate}
+          />
+        )}
+
         {gameState.phase === GamePhase.TRICK_SCORING && (
           <Card className="max-w-2xl mx-auto">
             <CardContent className="text-center py-8">
@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button"
 import { useGameState } from "@/hooks/use-game-state"
 import Navigation, { BottomNavigation } from "@/components/navigation"
 import CollapsibleInfo, { QuickGameInfo } from "@/components/collapsible-info"
-import { Wifi, WifiOff } from "lucide-react"
+import { Eye, Wifi, WifiOff } from "lucide-react"
 import { useMemo, useState } from "react"
 
 interface GameWrapperProps {
@@ -16,6 +16,7 @@ interface GameWrapperProps {
   currentUserId: string
   initialGameState?: GameState | null
   playerCount: number
+  spectatorCount?: number
 }
 
 // Create default game state outside component to prevent re-creation
@@ -26,15 +27,16 @@ const DEFAULT_GAME_STATE: GameState = {
   dealer: '',
   starter: '',
   players: {},
-  bets: {},
+  bets: [],
   playedCards: {},
   playerHands: {},
   wonTricks: {},
+  cardPoints: {},
   scores: {},
   turnOrder: []
 }
 
-export default function GameWrapper({ roomId, currentUserId, initialGameState, playerCount: initialPlayerCount }: GameWrapperProps) {
+export default function GameWrapper({ roomId, currentUserId, initialGameState, playerCount: initialPlayerCount, spectatorCount: initialSpectatorCount }: GameWrapperProps) {
   const playerCount = initialPlayerCount
   const [lastTrickComplete, setLastTrickComplete] = useState<{
     winner: string
@@ -43,9 +45,10 @@ export default function GameWrapper({ roomId, currentUserId, initialGameState, p
   } | null>(null)
 
   // Use game state hook for live updates with build safety
-  const { gameState: liveGameState, isConnected, refreshGameState, reconnect } = useGameState({
+  const { gameState: liveGameState, spectatorCount, isConnected, refreshGameState, reconnect } = useGameState({
     roomId,
     initialGameState,
+    initialSpectatorCount,
     onGameEvent: (event) => {
       // Handle TRICK_COMPLETE events and pass them to child components
       if (event.type === 'TRICK_COMPLETE') {
@@ -103,6 +106,12 @@ export default function GameWrapper({ roomId, currentUserId, initialGameState, p
                 Offline
               </Badge>
             )}
+            {spectatorCount > 0 && (
+              <Badge variant="outline" className="text-purple-600 border-purple-200 text-xs">
+                <Eye className="h-3 w-3 mr-1" />
+                {spectatorCount} watching
+              </Badge>
+            )}
           </div>
 
           {!isConnected && (
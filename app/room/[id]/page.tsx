@@ -1,8 +1,11 @@
 import { getCurrentUser } from "../../actions/auth"
 import { redirect } from "next/navigation"
-import { getRoomGameState, getRoomData } from "../../actions/game-actions"
+import { getRoomGameState, getRoomData } from "@/lib/room-game-state"
+import { projectGameStateForViewer } from "@/lib/event-filtering"
+import { isSpectator, getSpectatorCount } from "@/lib/database"
 
 import GameWrapper from "./game-wrapper"
+import SpectatorView from "./spectator-view"
 interface RoomPageProps {
   params: Promise<{ id: string }>
 }
@@ -21,8 +24,34 @@ export default async function RoomPage({ params }: RoomPageProps) {
     redirect("/dashboard")
   }
 
-  // Get real game state from database
-  const gameState = await getRoomGameState(id)
+  // Seats are taken from the dashboard (Join) and spectating is explicit (Watch);
+  // opening the page never does either
+  const isMember = room.members.some(member => member.userId === user.id)
+  const watching = !isMember && (await isSpectator(id, user.id))
+  if (!isMember && !watching) {
+    redirect("/dashboard")
+  }
+
+  // Get real game state from database, reduced to what this user may see
+  const fullGameState = await getRoomGameState(id)
+  const gameState = fullGameState && projectGameStateForViewer(fullGameState, user.id)
+  const spectatorCount = await getSpectatorCount(id)
+
+  if (watching) {
+    if (!gameState) {
+      redirect("/dashboard")
+    }
+
+    return (
+      <div className="container mx-auto p-4 space-y-6">
+        <SpectatorView
+          roomId={id}
+          initialGameState={gameState}
+          spectatorCount={spectatorCount}
+        />
+      </div>
+    )
+  }
 
   return (
     <div className="container mx-auto p-4 space-y-6">
@@ -31,9 +60,8 @@ export default async function RoomPage({ params }: RoomPageProps) {
         currentUserId={user.id}
         initialGameState={gameState}
         playerCount={room.members.length}
+        spectatorCount={spectatorCount}
       />
     </div>
   )
 }
-
-
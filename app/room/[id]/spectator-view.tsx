@@ -0,0 +1,256 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { GameState, GamePhase, Bet, Team } from "@/lib/game-types"
+import { getTeamScores, getTeamTallies } from "@/lib/game-logic"
+import { stopSpectatingAction } from "@/app/actions/rooms"
+import { useGameState } from "@/hooks/use-game-state"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import Navigation from "@/components/navigation"
+import { QuickGameInfo } from "@/components/collapsible-info"
+import { Eye, Wifi, WifiOff } from "lucide-react"
+import TrickHistory from "./trick-history"
+
+interface SpectatorViewProps {
+  roomId: string
+  initialGameState: GameState
+  spectatorCount: number
+}
+
+// Read-only view of a room for spectators: everything on the table, no hands
+export default function SpectatorView({ roomId, initialGameState, spectatorCount: initialSpectatorCount }: SpectatorViewProps) {
+  const router = useRouter()
+  const [isLeaving, setIsLeaving] = useState(false)
+
+  const { gameState: liveGameState, spectatorCount, isConnected, reconnect } = useGameState({
+    roomId,
+    initialGameState,
+    initialSpectatorCount
+  })
+
+  const gameState = liveGameState || initialGameState
+  const playerIds = gameState.turnOrder.length > 0 ? gameState.turnOrder : Object.keys(gameState.players)
+  const playedCards = Object.values(gameState.playedCards).sort((a, b) => (a.playOrder || 0) - (b.playOrder || 0))
+  const highestBet = gameState.highestBet
+  const teamTallies = getTeamTallies(gameState)
+  const teamScores = getTeamScores(gameState)
+  const isPlaying = gameState.phase === GamePhase.CARDS || gameState.phase === GamePhase.TRICK_SCORING
+
+  const getCardColor = (color: string) => {
+    switch (color) {
+      case 'red': return 'bg-red-100 border-red-300 text-red-800'
+      case 'blue': return 'bg-blue-100 border-blue-300 text-blue-800'
+      case 'green': return 'bg-green-100 border-green-300 text-green-800'
+      case 'brown': return 'bg-amber-100 border-amber-300 text-amber-800'
+      default: return 'bg-gray-100 border-gray-300 text-gray-800'
+    }
+  }
+
+  const getBetDisplay = (bet: Bet) => {
+    if (bet.value === 0) return "Skip"
+    return `${bet.value}${bet.trump ? " (Trump)" : ""}`
+  }
+
+  // Card counts come from the projection; spectators are never sent a hand
+  const getCardCount = (playerId: string) =>
+    gameState.handCounts?.[playerId] ?? gameState.playerHands[playerId]?.length ?? 0
+
+  const handleLeave = async () => {
+    setIsLeaving(true)
+    try {
+      await stopSpectatingAction(roomId)
+    } finally {
+      router.push("/dashboard")
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100">
+      {/* Navigation */}
+      <Navigation
+        title={`👁️ Watching ${roomId.slice(-6)}`}
+        showBack={true}
+        backUrl="/dashboard"
+      />
+
+      <div className="px-3 py-3 pb-16 md:pb-6 max-w-md mx-auto space-y-3">
+        <QuickGameInfo
+          phase={gameState.phase}
+          round={gameState.round}
+          currentPlayer={gameState.players[gameState.currentTurn]?.name}
+          playerCount={Object.keys(gameState.players).length}
+        />
+
+        {/* Connection Status and Leave */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {isConnected ? (
+              <Badge variant="outline" className="text-green-600 border-green-200 text-xs">
+                <Wifi className="h-3 w-3 mr-1" />
+                Live
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-red-600 border-red-200 text-xs">
+                <WifiOff className="h-3 w-3 mr-1" />
+                Offline
+              </Badge>
+            )}
+            <Badge variant="outline" className="text-purple-600 border-purple-200 text-xs">
+              <Eye className="h-3 w-3 mr-1" />
+              {spectatorCount} watching
+            </Badge>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {!isConnected && (
+              <Button
+                onClick={() => reconnect()}
+                variant="outline"
+                size="sm"
+                className="text-orange-600 border-orange-200 hover:bg-orange-50 h-7 text-xs"
+              >
+                🔌 Reconnect
+              </Button>
+            )}
+            <Button onClick={handleLeave} disabled={isLeaving} variant="outline" size="sm" className="h-7 text-xs">
+              {isLeaving ? "Leaving..." : "🚪 Stop Watching"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Match Result */}
+        {gameState.phase === GamePhase.GAME_END && gameState.matchResult && (
+          <div className="text-center p-3 bg-gradient-to-r from-yellow-100 to-orange-100 border-2 border-yellow-300 rounded-lg">
+            <div className="text-lg font-bold text-orange-800">
+              🏆 Team {gameState.matchResult.winningTeam} wins the match!
+            </div>
+            <div className="text-xs text-orange-700">
+              after {gameState.matchResult.roundsPlayed} round{gameState.matchResult.roundsPlayed !== 1 ? 's' : ''}
+            </div>
+          </div>
+        )}
+
+        {/* Table */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex justify-between items-center text-base">
+              <span>Table - Round {gameState.round}</span>
+              {gameState.trump && (
+                <Badge variant="outline">Trump: {gameState.trump}</Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {playerIds.length === 0 ? (
+              <p className="text-gray-500 text-sm text-center">No players yet</p>
+            ) : (
+              playerIds.map(playerId => {
+                const player = gameState.players[playerId]
+                if (!player) return null
+                const isCurrentTurn = gameState.currentTurn === playerId
+                return (
+                  <div key={playerId} className={`flex justify-between items-center p-2 rounded text-sm ${
+                    isCurrentTurn ? 'bg-blue-50 border border-blue-200' : 'bg-white/50'
+                  }`}>
+                    <span className="flex items-center gap-2">
+                      {player.name}
+                      {player.isBot && <span className="text-xs">🤖</span>}
+                      {player.team && <Badge variant="outline">Team {player.team}</Badge>}
+                      {gameState.dealer === playerId && <Badge variant="outline" className="text-xs">Dealer</Badge>}
+                      {isCurrentTurn && <Badge variant="default" className="text-xs">Turn</Badge>}
+                    </span>
+                    <span className="flex gap-1">
+                      <Badge variant="secondary">🂠 {getCardCount(playerId)}</Badge>
+                      <Badge variant="outline">{gameState.wonTricks[playerId] || 0} tricks</Badge>
+                    </span>
+                  </div>
+                )
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Auction */}
+        {gameState.bets.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Bids</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {highestBet && (
+                <div className="text-center p-2 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+                  <span className="font-semibold text-yellow-800">Highest: </span>
+                  {getBetDisplay(highestBet)} by {gameState.players[highestBet.playerId]?.name}
+                </div>
+              )}
+              <ol className="space-y-1 text-sm">
+                {gameState.bets.map((bet, index) => (
+                  <li key={`${bet.playerId}-${index}`} className="flex justify-between">
+                    <span>{gameState.players[bet.playerId]?.name}</span>
+                    <span className={bet.value === 0 ? "text-gray-500" : "font-medium"}>{getBetDisplay(bet)}</span>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Current Trick */}
+        {isPlaying && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Current Trick</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-2 justify-center min-h-[60px] items-center">
+                {playedCards.length === 0 ? (
+                  <p className="text-gray-500 text-sm">No cards played yet</p>
+                ) : (
+                  playedCards.map(card => (
+                    <div key={card.id} className="text-center">
+                      <div className={`px-2 py-1 rounded border-2 min-w-[48px] ${getCardColor(card.color)}`}>
+                        <div className="font-bold">{card.value}</div>
+                        <div className="text-xs capitalize">{card.color}</div>
+                      </div>
+                      <p className="text-xs mt-1">{gameState.players[card.playerId]?.name}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Tricks played so far */}
+        {isPlaying && <TrickHistory roomId={roomId} gameState={gameState} />}
+
+        {/* Scores */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Scores</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              {[Team.A, Team.B].map(team => (
+                <div key={team} className="p-2 rounded bg-gray-50 border text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">Team {team}</span>
+                    <Badge variant={teamScores[team] >= 0 ? "default" : "destructive"}>{teamScores[team]}</Badge>
+                  </div>
+                  {isPlaying && (
+                    <div className="text-xs text-gray-600 mt-1">
+                      {teamTallies[team].tricks} tricks · {teamTallies[team].cardPoints} pts this round
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { GameState, TrickRecord } from "@/lib/game-types"
+import { getTricksForRound } from "@/lib/game-logic"
+import { getRoundTricks } from "@/app/actions/game-logic"
+import { History } from "lucide-react"
+
+interface TrickHistoryProps {
+  roomId: string
+  gameState: GameState
+}
+
+export default function TrickHistory({ roomId, gameState }: TrickHistoryProps) {
+  const [showAll, setShowAll] = useState(false)
+  const [viewedRound, setViewedRound] = useState<number | null>(null)
+  const [pastTricks, setPastTricks] = useState<TrickRecord[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const roundTricks = getTricksForRound(gameState, gameState.round)
+  const lastTrick = roundTricks[roundTricks.length - 1]
+  const listedTricks = viewedRound === null ? roundTricks : pastTricks
+
+  const handleViewRound = async (round: number | null) => {
+    setViewedRound(round)
+    setError(null)
+    if (round === null) return
+
+    setIsLoading(true)
+    try {
+      const response = await getRoundTricks(roomId, round)
+      if (response.success && response.tricks) {
+        setPastTricks(response.tricks)
+      } else {
+        setError(response.error || "Failed to load tricks")
+      }
+    } catch (error) {
+      console.error("Trick history error:", error)
+      setError("Failed to load tricks")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const getCardColor = (color: string) => {
+    switch (color) {
+      case 'red': return 'bg-red-100 border-red-300 text-red-800'
+      case 'blue': return 'bg-blue-100 border-blue-300 text-blue-800'
+      case 'green': return 'bg-green-100 border-green-300 text-green-800'
+      case 'brown': return 'bg-amber-100 border-amber-300 text-amber-800'
+      default: return 'bg-gray-100 border-gray-300 text-gray-800'
+    }
+  }
+
+  const renderTrick = (trick: TrickRecord) => (
+    <div key={trick.trickNumber} className="p-2 rounded-lg border bg-gray-50">
+      <div className="flex items-center justify-between text-sm mb-2">
+        <span className="font-medium">Trick {trick.trickNumber}</span>
+        <span className="flex items-center gap-1">
+          {trick.capturedBonhommeRouge && <Badge variant="outline" className="text-red-700">Red 0</Badge>}
+          {trick.capturedBonhommeBrun && <Badge variant="outline" className="text-amber-700">Brown 0</Badge>}
+          <Badge variant="secondary">
+            🏆 {gameState.players[trick.winningPlayerId]?.name} {trick.points >= 0 ? "+" : ""}{trick.points}
+          </Badge>
+        </span>
+      </div>
+      <div className="flex gap-2 justify-center">
+        {trick.cards.map(card => (
+          <div key={card.id} className="text-center">
+            <div className={`px-2 py-1 rounded border-2 min-w-[48px] ${getCardColor(card.color)} ${
+              card.id === trick.winningCard.id ? "ring-2 ring-yellow-400" : ""
+            }`}>
+              <div className="font-bold">{card.value}</div>
+              <div className="text-xs capitalize">{card.color}</div>
+            </div>
+            <p className="text-xs mt-1">{gameState.players[card.playerId]?.name}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Last Trick:
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Hide tricks" : "All tricks"}
+        </Button>
+      </div>
+
+      {lastTrick ? renderTrick(lastTrick) : (
+        <p className="text-sm text-gray-500 text-center">No tricks played this round yet</p>
+      )}
+
+      {showAll && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1 justify-center">
+            {Array.from({ length: gameState.round }, (_, i) => i + 1).map(round => {
+              const isCurrent = round === gameState.round
+              const isViewed = isCurrent ? viewedRound === null : viewedRound === round
+              return (
+                <Button
+                  key={round}
+                  variant={isViewed ? "default" : "outline"}
+                  size="sm"
+                  disabled={isLoading}
+                  onClick={() => handleViewRound(isCurrent ? null : round)}
+                >
+                  {isCurrent ? "This round" : `Round ${round}`}
+                </Button>
+              )
+            })}
+          </div>
+
+          {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500 text-center">Loading tricks...</p>
+          ) : listedTricks.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center">No tricks recorded for this round</p>
+          ) : (
+            listedTricks.map(renderTrick)
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,7 +10,7 @@ import TeamSelection from "../room/[id]/team-selection"
 import BettingPhase from "../room/[id]/betting-phase"
 import CardGame from "../room/[id]/card-game"
 import { Users, RotateCcw, Zap } from "lucide-react"
-import { forceInitializeGame, getRoomGameState } from "../actions/game-actions"
+import { forceInitializeGame } from "../actions/game-actions"
 
 
 // Fixed simulator room ID
@@ -53,10 +53,11 @@ export default function GameSimulator() {
       trump: undefined,
       highestBet: undefined,
       players,
-      bets: {},
+      bets: [],
       playedCards: {},
       playerHands: {},
       wonTricks: {},
+      cardPoints: {},
       scores: {},
       turnOrder: DUMMY_PLAYERS.map(p => p.id)
     }
@@ -156,17 +157,12 @@ export default function GameSimulator() {
     try {
       const result = await forceInitializeGame(roomId)
       if (result.success) {
-        // Fetch the real game state from database after initialization
-        const realGameState = await getRoomGameState(roomId)
-        if (realGameState) {
-          setGameState(realGameState)
-          console.log("✅ Force initialized game from simulator")
-        } else {
-          // Fallback to the returned game state
-          if (result.gameState) {
-            setGameState(result.gameState)
-          }
+        if (result.gameState) {
+          setGameState(result.gameState)
         }
+        // Reload through the simulator route, which only shows every hand in simulator rooms
+        await loadCurrentGameState()
+        console.log("✅ Force initialized game from simulator")
       } else {
         console.error("❌ Force initialization failed:", result.error)
         alert(`Failed to force initialize: ${result.error}`)
@@ -211,13 +211,32 @@ function SSEMetricsIndicator({ metrics }: {
 export function TurnIndicator({ 
   currentTurn, 
   currentUserId, 
-  playerName 
+  playerName,
+  deadline,
+  onExpire
 }: { 
   currentTurn: string
   currentUserId: string
   playerName?: string 
+  deadline?: number // epoch ms the turn times out at, when turns are timed
+  onExpire?: () => void // called once the countdown reaches zero
 }) {
   const isMyTurn = currentTurn === currentUserId
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    if (!deadline) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [deadline])
+
+  const secondsLeft = deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : null
+  const isExpired = secondsLeft === 0
+
+  React.useEffect(() => {
+    if (isExpired && onExpire) onExpire()
+  }, [isExpired, onExpire])
 
   return (
     <div className={`flex items-center gap-2 px-3 py-2 rounded-lg ${
@@ -229,6 +248,11 @@ export function TurnIndicator({
       <span className="font-medium">
         {isMyTurn ? "Your Turn" : `${playerName || 'Player'}'s Turn`}
       </span>
+      {secondsLeft !== null && (
+        <span className={`ml-auto font-mono text-sm ${secondsLeft <= 10 ? 'text-red-600 font-bold animate-pulse' : ''}`}>
+          ⏱️ {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+        </span>
+      )}
     </div>
   )
 }
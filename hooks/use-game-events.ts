@@ -20,11 +20,14 @@ export function useGameEvents(roomId: string) {
     if (!roomId) return
 
     let eventSource: EventSource | null = null
+    // Id of the last sequenced event, sent on manual reconnects so missed events are replayed
+    let lastEventId: string | null = null
 
     const connect = () => {
       try {
         console.log('🔌 Connecting to SSE for room events:', roomId)
-        eventSource = new EventSource(`/api/game-events/${roomId}`)
+        const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : ''
+        eventSource = new EventSource(`/api/game-events/${roomId}${query}`)
 
         eventSource.onopen = () => {
           console.log('✅ SSE connected successfully for events')
@@ -34,6 +37,9 @@ export function useGameEvents(roomId: string) {
         eventSource.onmessage = (event) => {
           try {
             const data = JSON.parse(event.data)
+            if (event.lastEventId) {
+              lastEventId = event.lastEventId
+            }
 
             // Handle different event types
             if (data.type === "CONNECTED") {
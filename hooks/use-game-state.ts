@@ -21,6 +21,7 @@ interface LocalGameEvent {
 interface UseGameStateOptions {
   roomId: string
   initialGameState?: GameState | null
+  initialSpectatorCount?: number
   onGameEvent?: (event: LocalGameEvent) => void
   onTrickComplete?: (winner: string, winnerName: string) => void
 }
@@ -30,17 +31,20 @@ const REFRESH_TRIGGERING_EVENTS = [
   EVENT_TYPES.TEAMS_CHANGED,
   EVENT_TYPES.BETS_CHANGED,
   EVENT_TYPES.BETTING_COMPLETE,
+  EVENT_TYPES.ROUND_REDEALT,
   EVENT_TYPES.CARDS_CHANGED,
   EVENT_TYPES.TRICK_COMPLETE,
   EVENT_TYPES.TRICK_CHANGED,
   EVENT_TYPES.ROUND_CHANGED,
   EVENT_TYPES.ROUND_COMPLETE,
+  EVENT_TYPES.GAME_ENDED,
   EVENT_TYPES.GAME_STATE_UPDATED,
   EVENT_TYPES.GAME_RESET,
 ] as const
 
-export function useGameState({ roomId, initialGameState }: UseGameStateOptions) {
+export function useGameState({ roomId, initialGameState, initialSpectatorCount = 0 }: UseGameStateOptions) {
   const [gameState, setGameState] = useState<GameState | null>(initialGameState || null)
+  const [spectatorCount, setSpectatorCount] = useState(initialSpectatorCount)
   const [isConnected, setIsConnected] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -57,6 +61,9 @@ export function useGameState({ roomId, initialGameState }: UseGameStateOptions)
         if (gameState) {
           setGameState({ ...gameState })
         }
+        if (result.success && result.data && typeof result.data.spectatorCount === 'number') {
+          setSpectatorCount(result.data.spectatorCount)
+        }
       }
     } catch (error) {
       console.error('Failed to refresh game state:', error)
@@ -111,6 +118,19 @@ export function useGameState({ roomId, initialGameState }: UseGameStateOptions)
 
           console.log('📡 SSE Event received:', data.type, data)
 
+          // Too many events were missed to replay them; the server state is the only source of truth
+          if (data.type === "RESYNC") {
+            console.log('🔄 Resyncing game state:', data.reason)
+            refreshGameState()
+            return
+          }
+
+          // The spectator count travels with the event, no refresh needed
+          if (data.type === EVENT_TYPES.SPECTATORS_CHANGED) {
+            setSpectatorCount(data.spectatorCount)
+            return
+          }
+
           // Handle specific events that need immediate game state refresh
           if (REFRESH_TRIGGERING_EVENTS.includes(data.type as any)) {
             console.log('🔄 Refreshing game state due to SSE event:', data.type)
@@ -173,6 +193,7 @@ export function useGameState({ roomId, initialGameState }: UseGameStateOptions)
 
   return {
     gameState,
+    spectatorCount,
     isConnected,
     error,
     refreshGameState,
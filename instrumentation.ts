@@ -0,0 +1,11 @@
+/**
+ * Next.js startup hook: connects the global EventStore to the transport
+ * selected by `EVENT_TRANSPORT` (see lib/event-transports.ts)
+ */
+export async function register() {
+  // Import inside the check so the edge bundle drops the Node-only transports
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { configureEventStore } = await import("./lib/event-transports")
+    await configureEventStore()
+  }
+}
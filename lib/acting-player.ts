@@ -0,0 +1,144 @@
+/**
+ * Acting Player Resolution
+ *
+ * Decides which player a game action is performed as. Real rooms only ever
+ * act as the signed-in session user; acting on behalf of another player is a
+ * server-side capability granted to simulator rooms (`Room.isSimulator`),
+ * where one person drives every seat. SSE connections are bound the same way:
+ * to the session user, as a player or a spectator of the room; anyone who
+ * neither sits at nor watches the room is turned away.
+ *
+ * @see docs/API_DOCUMENTATION.md for how the capability is used
+ */
+
+import { roomRepository, roomMemberRepository, roomSpectatorRepository } from "@/lib/database/repository"
+import { getCurrentUser } from "@/app/actions/auth"
+import { GameState } from "./game-types"
+import { projectGameStateForViewer, type FilterContext } from "./event-filtering"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ActingPlayerResult {
+  success: boolean
+  userId?: string // the player the action runs as
+  sessionUserId?: string // the signed-in user who sent the request
+  isImpersonating?: boolean
+  isSimulator?: boolean
+  error?: string
+  code?: 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND'
+}
+
+export interface EventViewerResult {
+  success: boolean
+  context?: FilterContext // what the viewer's SSE connection is filtered by
+  error?: string
+  code?: 'UNAUTHORIZED' | 'FORBIDDEN' | 'NOT_FOUND'
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve the identity an action runs as.
+ *
+ * `requestedPlayerId` is whatever the client asked to act as. It is only
+ * honoured when it matches the session user, or when the room is flagged as a
+ * simulator room and the requested player is seated in it.
+ */
+export async function resolveActingPlayer(
+  roomId: string,
+  requestedPlayerId?: string | null
+): Promise<ActingPlayerResult> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return { success: false, error: "Not authenticated", code: 'UNAUTHORIZED' }
+  }
+
+  const actingId = requestedPlayerId || user.id
+
+  const [room, member] = await Promise.all([
+    roomRepository.findById(roomId),
+    roomMemberRepository.findMember(roomId, actingId)
+  ])
+
+  if (!room) {
+    return { success: false, error: "Room not found", code: 'NOT_FOUND' }
+  }
+
+  if (actingId === user.id) {
+    return { success: true, userId: user.id, sessionUserId: user.id, isImpersonating: false, isSimulator: room.isSimulator }
+  }
+
+  if (!room.isSimulator) {
+    console.warn(`🚫 ${user.id} tried to act as ${requestedPlayerId} in room ${roomId}`)
+    return { success: false, error: "Cannot act on behalf of another player", code: 'FORBIDDEN' }
+  }
+
+  if (!member) {
+    return { success: false, error: "Player not found in room", code: 'NOT_FOUND' }
+  }
+
+  return { success: true, userId: actingId, sessionUserId: user.id, isImpersonating: true, isSimulator: true }
+}
+
+/**
+ * The game state an actor is allowed to receive back from an action.
+ * Simulator rooms see every hand; everyone else only their own.
+ */
+export function gameStateForActor(
+  actor: ActingPlayerResult,
+  gameState: GameState
+): GameState {
+  return actor.isSimulator ? gameState : projectGameStateForViewer(gameState, actor.userId)
+}
+
+/**
+ * Bind an SSE connection to the session user: seated members of the room
+ * watch as players, users who joined it as spectators (see `spectateRoom`)
+ * as spectators
+ */
+export async function resolveEventViewer(roomId: string): Promise<EventViewerResult> {
+  const user = await getCurrentUser()
+  if (!user) {
+    return { success: false, error: "Not authenticated", code: 'UNAUTHORIZED' }
+  }
+
+  const [room, member, spectator] = await Promise.all([
+    roomRepository.findById(roomId),
+    roomMemberRepository.findMember(roomId, user.id),
+    roomSpectatorRepository.findSpectator(roomId, user.id)
+  ])
+
+  if (!room) {
+    return { success: false, error: "Room not found", code: 'NOT_FOUND' }
+  }
+
+  if (!member && !spectator) {
+    return { success: false, error: "Join or spectate the room to follow it", code: 'FORBIDDEN' }
+  }
+
+  // The context is fixed for the connection's lifetime, so it carries no
+  // game phase or team: filters on those would go stale as the game moves on
+  const isPlayerInRoom = member !== null
+
+  return {
+    success: true,
+    context: {
+      userId: user.id,
+      roomId,
+      userRole: isPlayerInRoom ? 'player' : 'spectator',
+      isPlayerInRoom
+    }
+  }
+}
+
+/**
+ * Check whether a room grants the simulator capability
+ */
+export async function isSimulatorRoom(roomId: string): Promise<boolean> {
+  const room = await roomRepository.findById(roomId)
+  return room?.isSimulator === true
+}
@@ -64,6 +64,8 @@ export interface GameStateResponse {
   roomExists: boolean
   playerCount: number
   isPlayerInRoom: boolean
+  isSpectator: boolean
+  spectatorCount: number
 }
 
 /**
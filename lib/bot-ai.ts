@@ -0,0 +1,334 @@
+/**
+ * Search AI Bots
+ *
+ * A stronger practice opponent than the heuristic bots. The AI cannot see
+ * the other hands, so every simulation first deals them a layout it cannot
+ * tell apart from the real one: the cards it has not seen, shared out by
+ * hand size, never giving a player a colour they showed they are out of by
+ * failing to follow it. The round is then played out with the pure rules of
+ * lib/game-logic.ts and scored. Card play runs information set Monte Carlo
+ * tree search (ISMCTS) over these layouts; bidding compares the simulated
+ * round score of each bet within reach. The difficulty sets how many
+ * simulations a decision gets. Everything runs in-process and is pure.
+ *
+ * @see lib/bot-players.ts for the heuristics used inside the simulations
+ */
+
+import {
+  GameState,
+  GamePhase,
+  Card,
+  CardColor,
+  Team,
+  Bets,
+  Bet,
+  BotMove,
+  BotDifficulty,
+  BOT_SIMULATION_BUDGETS
+} from "./game-types"
+import {
+  canPlaceBet,
+  canPlayCard,
+  getAllBets,
+  getHighestBet,
+  areHandsDealt,
+  playCard,
+  processTrickWin,
+  isTrickComplete,
+  isRoundComplete,
+  calculateRoundScores,
+  getTricksForRound,
+  getRoundTrickPoints,
+  getRuleSet,
+  shuffleDeck,
+  type RandomSource
+} from "./game-logic"
+import { chooseBotBet, chooseBotCard, getBotMove } from "./bot-players"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// A card played in the search tree, shared by every layout it was legal in
+interface SearchNode {
+  cardId?: string // the card played to reach this node (none at the root)
+  playerId?: string // who played it
+  parent?: SearchNode
+  children: SearchNode[]
+  visits: number
+  reward: number // summed over visits, for the team of `playerId`
+  availability: number // selections of the parent in which this card was legal
+}
+
+// UCB exploration weight for rewards scaled into [0, 1]
+const EXPLORATION = 0.7
+
+// Attempts at dealing a layout that respects every known void
+const MAX_LAYOUT_ATTEMPTS = 20
+
+// Bet values above the lowest legal one that bidding simulates
+const BID_LOOKAHEAD = 2
+
+// Share of playout moves made at random, so playouts do not all follow one line
+const PLAYOUT_NOISE = 0.1
+
+// ============================================================================
+// Hidden Hands
+// ============================================================================
+
+/**
+ * Colours each player is known to be out of this round: a card that is
+ * neither the lead colour nor trump is only legal without a card of the lead
+ * colour in hand (a trump may be played while still holding the lead colour)
+ */
+export function getKnownVoids(gameState: GameState): Record<string, Set<CardColor>> {
+  const voids: Record<string, Set<CardColor>> = {}
+  const currentTrick = Object.values(gameState.playedCards).sort((a, b) => a.playOrder - b.playOrder)
+  const tricks = [...getTricksForRound(gameState, gameState.round).map(trick => trick.cards), currentTrick]
+
+  tricks.forEach(cards => {
+    const lead = cards[0]
+    if (!lead) return
+    cards.slice(1).filter(card => card.color !== lead.color && card.color !== gameState.trump).forEach(card => {
+      (voids[card.playerId] ??= new Set()).add(lead.color)
+    })
+  })
+
+  return voids
+}
+
+/**
+ * The state with every hand but the observer's dealt afresh from the cards
+ * the observer has not seen, keeping hand sizes and known voids
+ */
+export function sampleHiddenHands(gameState: GameState, observerId: string, random: RandomSource = Math.random): GameState {
+  const others = gameState.turnOrder.filter(id => id !== observerId)
+  const unseen = others.flatMap(id => gameState.playerHands[id] || [])
+  const sizes = Object.fromEntries(others.map(id => [id, (gameState.playerHands[id] || []).length]))
+  const voids = getKnownVoids(gameState)
+
+  let hands: Record<string, Card[]> | null = null
+  for (let attempt = 0; attempt < MAX_LAYOUT_ATTEMPTS && !hands; attempt++) {
+    hands = dealHiddenHands(unseen, sizes, (id, card) => !voids[id]?.has(card.color), random)
+  }
+  // The real deal always fits, but random dealing can keep missing it; then voids are dropped
+  hands ??= dealHiddenHands(unseen, sizes, () => true, random)!
+
+  return { ...gameState, playerHands: { ...gameState.playerHands, ...hands } }
+}
+
+// Deal the most constrained cards first, each to a random player with room who may hold it
+function dealHiddenHands(
+  cards: Card[],
+  sizes: Record<string, number>,
+  canHold: (playerId: string, card: Card) => boolean,
+  random: RandomSource
+): Record<string, Card[]> | null {
+  const players = Object.keys(sizes)
+  const hands: Record<string, Card[]> = Object.fromEntries(players.map(id => [id, []]))
+
+  const byConstraint = shuffleDeck(cards, random)
+    .map(card => ({ card, holders: players.filter(id => canHold(id, card)) }))
+    .sort((a, b) => a.holders.length - b.holders.length)
+
+  for (const { card, holders } of byConstraint) {
+    const open = holders.filter(id => hands[id].length < sizes[id])
+    if (open.length === 0) return null
+    hands[open[Math.floor(random() * open.length)]].push(card)
+  }
+
+  return hands
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+function getLegalCards(state: GameState): Card[] {
+  return (state.playerHands[state.currentTurn] || []).filter(card => canPlayCard(state, state.currentTurn, card))
+}
+
+// Play a card, resolving the trick it completes
+function simulatePlay(state: GameState, card: Card): GameState {
+  const next = playCard(state, state.currentTurn, card)
+  return isTrickComplete(next) ? processTrickWin(next) : next
+}
+
+// Finish the round with heuristic play at every seat
+function playOut(state: GameState, random: RandomSource): GameState {
+  while (!isRoundComplete(state)) {
+    const legal = getLegalCards(state)
+    const card = random() < PLAYOUT_NOISE
+      ? legal[Math.floor(random() * legal.length)]
+      : chooseBotCard(state, state.currentTurn)
+    state = simulatePlay(state, card ?? legal[0])
+  }
+  return state
+}
+
+// How far a team's round score is ahead of the other team's
+function getScoreMargin(state: GameState, team: Team | undefined): number {
+  const { teamAScore, teamBScore } = calculateRoundScores(state)
+  return team === Team.A ? teamAScore - teamBScore : teamBScore - teamAScore
+}
+
+// A score margin scaled into [0, 1] for the tree search
+function toReward(margin: number, state: GameState): number {
+  const rules = getRuleSet(state)
+  const scale = 2 * getRoundTrickPoints(rules) * Math.max(1, rules.trumpBetMultiplier, rules.noTrumpBetMultiplier)
+  return Math.min(1, Math.max(0, 0.5 + margin / scale))
+}
+
+// ============================================================================
+// Card Play
+// ============================================================================
+
+function getUpperConfidence(node: SearchNode): number {
+  return node.reward / node.visits + EXPLORATION * Math.sqrt(Math.log(node.availability) / node.visits)
+}
+
+/**
+ * The card the AI plays: the most visited card at the root of an ISMCTS
+ * search, one sampled layout of the hidden hands per iteration
+ */
+export function chooseAiCard(
+  gameState: GameState,
+  playerId: string,
+  difficulty: BotDifficulty,
+  random: RandomSource = Math.random
+): Card | null {
+  if (gameState.phase !== GamePhase.CARDS || gameState.currentTurn !== playerId) return null
+
+  const legal = getLegalCards(gameState)
+  if (legal.length <= 1) return legal[0] ?? null
+
+  const root: SearchNode = { children: [], visits: 0, reward: 0, availability: 0 }
+  const teamOf = (id?: string) => id ? gameState.players[id]?.team : undefined
+
+  for (let i = 0; i < BOT_SIMULATION_BUDGETS[difficulty]; i++) {
+    let state = sampleHiddenHands(gameState, playerId, random)
+    let node = root
+
+    // Select through cards tried before, until one is legal here that never was
+    while (!isRoundComplete(state)) {
+      const moves = getLegalCards(state)
+      const available = node.children.filter(child => moves.some(card => card.id === child.cardId))
+      const untried = moves.filter(card => !node.children.some(child => child.cardId === card.id))
+
+      if (untried.length > 0) {
+        const card = untried[Math.floor(random() * untried.length)]
+        const child: SearchNode = { cardId: card.id, playerId: state.currentTurn, parent: node, children: [], visits: 0, reward: 0, availability: 0 }
+        node.children.push(child)
+        available.push(child)
+        available.forEach(candidate => candidate.availability++)
+        state = simulatePlay(state, card)
+        node = child
+        break
+      }
+
+      available.forEach(candidate => candidate.availability++)
+      node = available.reduce((best, candidate) => getUpperConfidence(candidate) > getUpperConfidence(best) ? candidate : best)
+      state = simulatePlay(state, moves.find(card => card.id === node.cardId)!)
+    }
+
+    const final = playOut(state, random)
+
+    // Each card is scored for the team of the player who chose it
+    for (let current: SearchNode | undefined = node; current?.parent; current = current.parent) {
+      current.visits++
+      current.reward += toReward(getScoreMargin(final, teamOf(current.playerId)), final)
+    }
+  }
+
+  const best = root.children
+    .filter(child => legal.some(card => card.id === child.cardId))
+    .reduce<SearchNode | null>((most, child) => !most || child.visits > most.visits ? child : most, null)
+  return legal.find(card => card.id === best?.cardId) ?? legal[0]
+}
+
+// ============================================================================
+// Bidding
+// ============================================================================
+
+// The state as the card play would start with `contract` won
+function startCardPlay(state: GameState, contract: Bet): GameState {
+  return {
+    ...state,
+    phase: GamePhase.CARDS,
+    highestBet: contract,
+    currentTurn: contract.playerId,
+    starter: contract.playerId,
+    trump: undefined,
+    playedCards: {}
+  }
+}
+
+/**
+ * The AI's bet: of passing and the bets within reach of the lowest legal
+ * one, the one whose contract scored best across simulated rounds. Passing
+ * is scored as the standing bid being played out. Bidding on unseen hands
+ * leaves nothing to simulate, so it falls back on the heuristic bet.
+ */
+export function chooseAiBet(
+  gameState: GameState,
+  playerId: string,
+  difficulty: BotDifficulty,
+  random: RandomSource = Math.random
+): { betValue: Bets; trump: boolean } | null {
+  if (!areHandsDealt(gameState)) return chooseBotBet(gameState, playerId)
+
+  const legalBets = getAllBets()
+    .flatMap(bet => bet.betValue === Bets.SKIP ? [bet] : [{ ...bet, trump: true }, bet])
+    .filter(candidate => canPlaceBet(gameState, playerId, candidate))
+  const lowestValue = Math.min(...legalBets.filter(bet => bet.betValue !== Bets.SKIP).map(bet => bet.value))
+  const candidates = legalBets.filter(bet => bet.betValue === Bets.SKIP || bet.value <= lowestValue + BID_LOOKAHEAD)
+  if (candidates.length <= 1) return candidates[0] ? { betValue: candidates[0].betValue, trump: candidates[0].trump } : null
+
+  const team = gameState.players[playerId]?.team
+  const standingBid = getHighestBet(gameState.bets.filter(bet => bet.betValue !== Bets.SKIP))
+  const contracts = candidates.map(bet => bet.betValue === Bets.SKIP
+    ? standingBid
+    : { ...bet, playerId, timestamp: new Date() })
+
+  // Every candidate is played on the same layouts, so they are compared on equal cards
+  const totals = candidates.map(() => 0)
+  const layouts = Math.max(1, Math.floor(BOT_SIMULATION_BUDGETS[difficulty] / candidates.length))
+  for (let i = 0; i < layouts; i++) {
+    const layout = sampleHiddenHands(gameState, playerId, random)
+    contracts.forEach((contract, index) => {
+      // Passing with no bid standing: the round is thrown in or someone else bids, call it even
+      if (!contract) return
+      totals[index] += getScoreMargin(playOut(startCardPlay(layout, contract), random), team)
+    })
+  }
+
+  const bestIndex = totals.reduce((best, total, index) => total > totals[best] ? index : best, 0)
+  return { betValue: candidates[bestIndex].betValue, trump: candidates[bestIndex].trump }
+}
+
+// ============================================================================
+// Moves
+// ============================================================================
+
+/**
+ * The move an AI bot makes now, or null when it has nothing to do. Picking
+ * a team needs no search and is the same for every bot.
+ */
+export function getAiMove(
+  gameState: GameState,
+  botId: string,
+  difficulty: BotDifficulty,
+  random: RandomSource = Math.random
+): BotMove | null {
+  if (gameState.currentTurn === botId && gameState.phase === GamePhase.BETS) {
+    const bet = chooseAiBet(gameState, botId, difficulty, random)
+    return bet ? { type: 'bet', ...bet } : null
+  }
+
+  if (gameState.currentTurn === botId && gameState.phase === GamePhase.CARDS) {
+    const card = chooseAiCard(gameState, botId, difficulty, random)
+    return card ? { type: 'card', cardId: card.id } : null
+  }
+
+  return getBotMove(gameState, botId)
+}
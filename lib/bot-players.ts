@@ -0,0 +1,236 @@
+/**
+ * Bot Players
+ *
+ * How a bot seat decides its moves. Bots bid on the strength of the hand they
+ * hold and play legal cards picked by simple table heuristics: follow suit
+ * cheaply, feed the red 0 to a partner who has the trick, dump the brown 0 on
+ * the opponents and take any trick the red 0 is on. Everything here is pure:
+ * the bot runner applies the chosen move through the same path as a human's.
+ *
+ * @see lib/bot-runner.ts for when bots act
+ */
+
+import {
+  GameState,
+  GamePhase,
+  Card,
+  Team,
+  Bets,
+  Bet,
+  BotMove,
+  CARDS_PER_PLAYER,
+  MAX_PLAYERS,
+  BASE_TRICK_POINTS
+} from "./game-types"
+import {
+  canSelectTeam,
+  canPlaceBet,
+  canPlayCard,
+  getAllBets,
+  getWinningCard,
+  getTricksForRound,
+  getRuleSet,
+  isBonhommeRouge,
+  isBonhommeBrun
+} from "./game-logic"
+
+// ============================================================================
+// Bot Users
+// ============================================================================
+
+// The bot users seated by "Add bot", at most one of each per room
+export const BOT_PLAYERS = [
+  { id: 'bot-ada', name: 'Ada (bot)' },
+  { id: 'bot-blaise', name: 'Blaise (bot)' },
+  { id: 'bot-grace', name: 'Grace (bot)' },
+  { id: 'bot-alan', name: 'Alan (bot)' }
+]
+
+// ============================================================================
+// Hand Strength
+// ============================================================================
+
+// Chance a card takes a trick on its own, by value
+const TRICK_ODDS: Record<number, number> = { 7: 0.9, 6: 0.6, 5: 0.35, 4: 0.15 }
+
+// Share of the zeros' points a team can expect, holding the card or not
+const RED_ZERO_HELD_SHARE = 0.75
+const RED_ZERO_UNSEEN_SHARE = 0.4
+const BROWN_ZERO_HELD_SHARE = 0.25
+const BROWN_ZERO_UNSEEN_SHARE = 0.5
+
+// How far the estimate must clear a bet before a bot risks the no-trump multiplier
+const NO_TRUMP_MARGIN = 2
+
+/**
+ * Points a bot expects its team to make this round, from its own hand and an
+ * average partner. Without cards to look at this is just the average.
+ */
+export function estimateTeamPoints(gameState: GameState, playerId: string): number {
+  const hand = gameState.playerHands[playerId] || []
+  const rules = getRuleSet(gameState)
+
+  const ownTricks = hand.reduce((sum, card) => sum + (TRICK_ODDS[card.value] || 0), 0)
+  const partnerTricks = CARDS_PER_PLAYER / MAX_PLAYERS
+  const tricks = Math.min(CARDS_PER_PLAYER, ownTricks + partnerTricks)
+
+  const redShare = hand.some(isBonhommeRouge) ? RED_ZERO_HELD_SHARE : RED_ZERO_UNSEEN_SHARE
+  const brownShare = hand.some(isBonhommeBrun) ? BROWN_ZERO_HELD_SHARE : BROWN_ZERO_UNSEEN_SHARE
+
+  return tricks * BASE_TRICK_POINTS + redShare * rules.bonhommeRougePoints + brownShare * rules.bonhommeBrunPoints
+}
+
+/**
+ * The bot's bet: the lowest legal bet its hand can make, with trump unless
+ * the hand is strong enough for no-trump. Passes when nothing is in reach,
+ * and makes the lowest legal bet when the house rules forbid passing.
+ */
+export function chooseBotBet(gameState: GameState, playerId: string): { betValue: Bets; trump: boolean } | null {
+  const estimate = estimateTeamPoints(gameState, playerId)
+
+  // Lowest first: trump bets rank below no-trump bets of the same value
+  const legalBets = getAllBets()
+    .flatMap(bet => bet.betValue === Bets.SKIP ? [bet] : [{ ...bet, trump: true }, bet])
+    .filter(candidate => canPlaceBet(gameState, playerId, candidate))
+
+  const reachable = legalBets.find(bet =>
+    bet.betValue !== Bets.SKIP &&
+    bet.value <= estimate &&
+    (bet.trump || bet.value + NO_TRUMP_MARGIN <= estimate)
+  )
+  const bet: Omit<Bet, 'playerId' | 'timestamp'> | undefined =
+    reachable ?? legalBets.find(candidate => candidate.betValue === Bets.SKIP) ?? legalBets[0]
+
+  return bet ? { betValue: bet.betValue, trump: bet.trump } : null
+}
+
+// ============================================================================
+// Card Play
+// ============================================================================
+
+const byValue = (a: Card, b: Card) => a.value - b.value
+
+/**
+ * Whether no card still out can beat this one in its colour: every higher
+ * card of the colour is in the bot's hand or already played this round
+ */
+function isMasterCard(gameState: GameState, playerId: string, card: Card): boolean {
+  const seen = [
+    ...(gameState.playerHands[playerId] || []),
+    ...getTricksForRound(gameState, gameState.round).flatMap(trick => trick.cards),
+    ...Object.values(gameState.playedCards)
+  ]
+  const seenValues = new Set(seen.filter(c => c.color === card.color).map(c => c.value))
+
+  for (let value = card.value + 1; value <= 7; value++) {
+    if (!seenValues.has(value)) return false
+  }
+  return true
+}
+
+function isPartner(gameState: GameState, playerId: string, otherId: string): boolean {
+  const team = gameState.players[playerId]?.team
+  return !!team && gameState.players[otherId]?.team === team
+}
+
+/**
+ * The card a bot plays: a legal card from its hand, or null when it has none
+ */
+export function chooseBotCard(gameState: GameState, playerId: string): Card | null {
+  const hand = gameState.playerHands[playerId] || []
+  const legal = hand.filter(card => canPlayCard(gameState, playerId, card)).sort(byValue)
+  if (legal.length <= 1) return legal[0] ?? null
+
+  // Zeros are kept for the tricks they belong on
+  const ordinary = legal.filter(card => !isBonhommeRouge(card) && !isBonhommeBrun(card))
+  const lowest = ordinary[0] ?? legal[0]
+
+  const played = Object.values(gameState.playedCards).sort((a, b) => a.playOrder - b.playOrder)
+
+  // Leading: cash a card nobody can beat, otherwise give little away
+  if (played.length === 0) {
+    const master = [...ordinary].reverse().find(card => isMasterCard(gameState, playerId, card))
+    return master ?? lowest
+  }
+
+  const winning = getWinningCard(played, gameState.trump)!
+  const isLastToPlay = played.length === gameState.turnOrder.length - 1
+  const redZero = legal.find(isBonhommeRouge)
+  const brownZero = legal.find(isBonhommeBrun)
+
+  // Partner has the trick: give them the red 0 once it is safe there
+  if (isPartner(gameState, playerId, winning.playerId)) {
+    if (redZero && (isLastToPlay || isMasterCard(gameState, playerId, winning))) return redZero
+    return lowest
+  }
+
+  const beats = (card: Card) => getWinningCard([...played, card], gameState.trump)?.id === card.id
+  const winners = ordinary.filter(beats)
+  const trickHasRedZero = played.some(isBonhommeRouge)
+  const trickHasBrownZero = played.some(isBonhommeBrun)
+
+  // Opponents have the trick: always fight for the red 0
+  if (trickHasRedZero && winners.length > 0) return winners[0]
+
+  // Leave them the brown 0, and add ours when it cannot win the trick back
+  if (brownZero && !trickHasRedZero && !beats(brownZero)) return brownZero
+  if (trickHasBrownZero) {
+    const losers = ordinary.filter(card => !beats(card))
+    if (losers.length > 0) return losers[0]
+  }
+
+  // Take the trick as cheaply as possible, when no partner is left to do it
+  if (winners.length > 0 && (isLastToPlay || winners[0].value >= 6)) return winners[0]
+
+  // Never throw the red 0 to the opponents while another card will do
+  return lowest
+}
+
+// ============================================================================
+// Moves
+// ============================================================================
+
+/**
+ * The bot whose move it is: in team selection the first bot without a team,
+ * in bidding and play the player to move if it is a bot
+ */
+export function getBotToAct(gameState: GameState): string | null {
+  if (gameState.phase === GamePhase.TEAM_SELECTION) {
+    const bot = Object.values(gameState.players).find(player => player.isBot && !player.team)
+    return bot?.id ?? null
+  }
+
+  if (gameState.phase === GamePhase.BETS || gameState.phase === GamePhase.CARDS) {
+    return gameState.players[gameState.currentTurn]?.isBot ? gameState.currentTurn : null
+  }
+
+  return null
+}
+
+/**
+ * The move a bot makes now, or null when it has nothing to do
+ */
+export function getBotMove(gameState: GameState, botId: string): BotMove | null {
+  if (gameState.phase === GamePhase.TEAM_SELECTION) {
+    if (gameState.players[botId]?.team) return null
+    // Join the team with fewer players, so humans can still pick either
+    const players = Object.values(gameState.players)
+    const count = (team: Team) => players.filter(player => player.team === team).length
+    const team = count(Team.A) <= count(Team.B) ? Team.A : Team.B
+    return canSelectTeam(gameState, botId, team) ? { type: 'team', team } : null
+  }
+
+  if (gameState.currentTurn !== botId) return null
+
+  if (gameState.phase === GamePhase.BETS) {
+    const bet = chooseBotBet(gameState, botId)
+    return bet ? { type: 'bet', ...bet } : null
+  }
+
+  if (gameState.phase === GamePhase.CARDS) {
+    const card = chooseBotCard(gameState, botId)
+    return card ? { type: 'card', cardId: card.id } : null
+  }
+
+  return null
+}
@@ -0,0 +1,106 @@
+/**
+ * Bot Runner
+ *
+ * Moves bot seats when it is their turn. Every game event that can hand a
+ * turn on schedules a check of the room; after a short pause (so humans can
+ * follow the table) the bot to act, if any, makes its move through the same
+ * player moves a human's action goes through. That move broadcasts its own
+ * events, which schedule the next check, so bots keep playing until a human
+ * is to move. Bots only run while this server process is up; like turn
+ * timers, nothing is lost if it restarts, the next event picks them up again.
+ *
+ * @see lib/bot-players.ts and lib/bot-ai.ts for how bots choose their moves
+ */
+
+import { getRoomGameState } from "./room-game-state"
+import { getBotToAct, getBotMove } from "./bot-players"
+import { getAiMove } from "./bot-ai"
+import { applyTeamSelection, applyBet, applyCardPlay } from "./player-moves"
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+// Pause before a bot moves, and longer after a trick so its winner can be seen
+export const BOT_MOVE_DELAY_MS = 800
+export const BOT_TRICK_PAUSE_MS = 2500
+
+// Events after which a bot may be the one to move
+export const BOT_TRIGGERING_EVENTS = [
+  'GAME_STATE_UPDATED',
+  'TEAMS_CHANGED',
+  'TEAM_SELECTED',
+  'BETTING_PHASE_STARTED',
+  'BETS_CHANGED',
+  'BETTING_COMPLETE',
+  'ROUND_REDEALT',
+  'CARDS_CHANGED',
+  'TRICK_COMPLETE',
+  'ROUND_CHANGED',
+  'GAME_RESET',
+  'PLAYER_JOINED'
+]
+
+interface PendingCheck {
+  timer: ReturnType<typeof setTimeout>
+  dueAt: number
+}
+
+const pendingChecks = new Map<string, PendingCheck>()
+
+/**
+ * Check the room for a bot move after `delayMs`. A room has at most one
+ * check pending; asking again only ever pushes it later, so a trick pause
+ * is not cut short by the events that follow it.
+ */
+export function scheduleBotTurn(roomId: string, delayMs: number = BOT_MOVE_DELAY_MS): void {
+  const dueAt = Date.now() + delayMs
+  const pending = pendingChecks.get(roomId)
+  if (pending) {
+    if (pending.dueAt >= dueAt) return
+    clearTimeout(pending.timer)
+  }
+
+  const timer = setTimeout(() => {
+    pendingChecks.delete(roomId)
+    playBotTurn(roomId).catch(error => {
+      console.error(`🤖 Bot turn failed in room ${roomId}:`, error)
+    })
+  }, delayMs)
+  pendingChecks.set(roomId, { timer, dueAt })
+}
+
+// ============================================================================
+// Moves
+// ============================================================================
+
+/**
+ * Make the move of the bot to act in a room, if any. Returns whether a move
+ * was made; a move that lost a race with another player simply fails.
+ */
+export async function playBotTurn(roomId: string): Promise<boolean> {
+  const gameState = await getRoomGameState(roomId)
+  if (!gameState) return false
+
+  const botId = getBotToAct(gameState)
+  if (!botId) return false
+
+  // Search AI bots simulate from the full state, but only ever look at their own hand
+  const difficulty = gameState.players[botId]?.botDifficulty
+  const move = difficulty ? getAiMove(gameState, botId, difficulty) : getBotMove(gameState, botId)
+  if (!move) return false
+
+  console.log(`🤖 ${gameState.players[botId]?.name} moves in room ${roomId}:`, move)
+
+  const result = move.type === 'team'
+    ? await applyTeamSelection(roomId, botId, move.team)
+    : move.type === 'bet'
+      ? await applyBet(roomId, botId, move.betValue, move.trump)
+      : await applyCardPlay(roomId, botId, move.cardId)
+
+  if (!result.success) {
+    console.warn(`🤖 Bot move rejected in room ${roomId}:`, result.error)
+    return false
+  }
+  return true
+}
@@ -1,54 +1,27 @@
-import { prisma } from "./prisma"
+import { roomRepository, roomMemberRepository, roomSpectatorRepository, userRepository, type UserData } from "./database/repository"
+import type { RuleSet, BotDifficulty } from "./game-types"
+import { BOT_PLAYERS } from "./bot-players"
 
-// Create a new room
-export async function createRoom(name: string, hostId: string) {
+export type User = UserData
+
+// Create a new room, optionally with house rules (the defaults otherwise)
+export async function createRoom(name: string, hostId: string, rules?: RuleSet) {
   try {
-    const room = await prisma.room.create({
-      data: {
-        name,
-        hostId,
-        isActive: true
-      },
-      include: {
-        host: true,
-        members: {
-          include: {
-            user: true
-          }
-        },
-        _count: {
-          select: {
-            members: true
-          }
-        }
-      }
+    const room = await roomRepository.create({
+      name,
+      hostId,
+      isActive: true,
+      ...(rules && { rules })
     })
 
     // Add the host as the first member
-    await prisma.roomMember.create({
-      data: {
-        roomId: room.id,
-        userId: hostId
-      }
+    await roomMemberRepository.create({
+      roomId: room.id,
+      userId: hostId
     })
 
-    // Return the room with updated member count
-    return await prisma.room.findUnique({
-      where: { id: room.id },
-      include: {
-        host: true,
-        members: {
-          include: {
-            user: true
-          }
-        },
-        _count: {
-          select: {
-            members: true
-          }
-        }
-      }
-    })
+    // Return the room with its members
+    return await roomRepository.findWithMembers(room.id)
   } catch (error) {
     console.error("Database error creating room:", error)
     throw new Error("Failed to create room")
@@ -58,24 +31,7 @@ export async function createRoom(name: string, hostId: string) {
 // Get all active rooms
 export async function getRooms() {
   try {
-    const rooms = await prisma.room.findMany({
-      where: {
-        isActive: true
-      },
-      include: {
-        host: true,
-        _count: {
-          select: {
-            members: true
-          }
-        }
-      },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    })
-
-    return rooms
+    return await roomRepository.findActive()
   } catch (error) {
     console.error("Database error getting rooms:", error)
     throw new Error("Failed to get rooms")
@@ -86,12 +42,7 @@ export async function getRooms() {
 export async function joinRoom(roomId: string, userId: string): Promise<boolean> {
   try {
     // Check if room exists and is active
-    const room = await prisma.room.findUnique({
-      where: { id: roomId },
-      include: {
-        members: true
-      }
-    })
+    const room = await roomRepository.findWithMembers(roomId)
 
     if (!room || !room.isActive) {
       console.log("Room not found or inactive")
@@ -99,14 +50,7 @@ export async function joinRoom(roomId: string, userId: string): Promise<boolean>
     }
 
     // Check if user is already a member
-    const existingMember = await prisma.roomMember.findUnique({
-      where: {
-        roomId_userId: {
-          roomId,
-          userId
-        }
-      }
-    })
+    const existingMember = await roomMemberRepository.findMember(roomId, userId)
 
     if (existingMember) {
       console.log("User already a member")
@@ -120,12 +64,10 @@ export async function joinRoom(roomId: string, userId: string): Promise<boolean>
     }
 
     // Add user to room
-    await prisma.roomMember.create({
-      data: {
-        roomId,
-        userId
-      }
-    })
+    await roomMemberRepository.create({ roomId, userId })
+
+    // A spectator who takes a seat stops watching
+    await stopSpectating(roomId, userId)
 
     console.log(`User ${userId} successfully joined room ${roomId}`)
     return true
@@ -134,3 +76,75 @@ export async function joinRoom(roomId: string, userId: string): Promise<boolean>
     return false
   }
 }
+
+// Watch a room without taking a seat; members are already at the table
+export async function spectateRoom(roomId: string, userId: string): Promise<boolean> {
+  try {
+    const room = await roomRepository.findById(roomId)
+
+    if (!room || !room.isActive) {
+      console.log("Room not found or inactive")
+      return false
+    }
+
+    if (await roomMemberRepository.findMember(roomId, userId)) {
+      console.log("User is a member, not a spectator")
+      return false
+    }
+
+    if (await roomSpectatorRepository.findSpectator(roomId, userId)) {
+      return true // Already watching, consider it success
+    }
+
+    await roomSpectatorRepository.create({ roomId, userId })
+
+    console.log(`User ${userId} is now spectating room ${roomId}`)
+    return true
+  } catch (error) {
+    console.error("Database error spectating room:", error)
+    return false
+  }
+}
+
+// Stop watching a room; returns whether the user was spectating it
+export async function stopSpectating(roomId: string, userId: string): Promise<boolean> {
+  const spectator = await roomSpectatorRepository.findSpectator(roomId, userId)
+  return spectator ? await roomSpectatorRepository.delete(spectator.id) : false
+}
+
+export async function isSpectator(roomId: string, userId: string): Promise<boolean> {
+  return (await roomSpectatorRepository.findSpectator(roomId, userId)) !== null
+}
+
+export async function getSpectatorCount(roomId: string): Promise<number> {
+  return await roomSpectatorRepository.countByRoom(roomId)
+}
+
+// Seat the first bot not yet in the room, played by the search AI at `difficulty` if given;
+// returns the bot, or null when none could join
+export async function addBotToRoom(roomId: string, difficulty?: BotDifficulty): Promise<{ id: string; name: string } | null> {
+  try {
+    const members = await roomMemberRepository.findByRoom(roomId)
+    const bot = BOT_PLAYERS.find(candidate => !members.some(member => member.userId === candidate.id))
+    if (!bot) {
+      console.log("No bots left to add")
+      return null
+    }
+
+    // Bot users are shared by every room they sit in
+    await userRepository.findOrCreate({ id: bot.id, name: bot.name, isBot: true })
+
+    if (!(await joinRoom(roomId, bot.id))) {
+      return null
+    }
+
+    const member = await roomMemberRepository.findMember(roomId, bot.id)
+    if (member) {
+      await roomMemberRepository.update(member.id, { botDifficulty: difficulty ?? null })
+    }
+    return bot
+  } catch (error) {
+    console.error("Database error adding bot:", error)
+    return null
+  }
+}
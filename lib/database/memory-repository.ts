@@ -0,0 +1,632 @@
+/**
+ * In-Memory Repositories
+ *
+ * A process-local implementation of the repositories in
+ * `lib/database/repository.ts`, selected with `DATA_STORE=memory`. It keeps
+ * the same guarantees the app relies on from Postgres: unique user names,
+ * memberships and spectators, gapless per-room sequences, atomic compare-and-swap game state
+ * saves and cascading deletes. Records are copied in and out, so callers never
+ * share objects with the store.
+ *
+ * The tables live on `globalThis`, so every server context (actions, route
+ * handlers, hot-reloaded modules) sees the same data. Nothing survives a
+ * restart, and several server instances do not share it.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { DEFAULT_MATCH_TARGET } from "@/lib/game-types"
+import { ROOM_JSON_FIELDS } from "./room-columns"
+import type {
+  RoomRepository,
+  RoomMemberRepository,
+  RoomSpectatorRepository,
+  UserRepository,
+  SessionRepository,
+  GameEventRepository,
+  GameCommandRepository,
+  RoomData,
+  NewRoomData,
+  RoomWithMembers,
+  RoomListing,
+  GameStateWrite,
+  GameStateWriteResult,
+  RoomMemberData,
+  NewRoomMemberData,
+  RoomSpectatorData,
+  NewRoomSpectatorData,
+  UserData,
+  NewUserData,
+  SessionData,
+  SessionWithUser,
+  NewSessionData,
+  GameEventRecord,
+  NewGameEvent,
+  GameEventFindOptions,
+  GameCommandRecord,
+  GameSnapshotRecord
+} from "./repository"
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+export interface MemoryTables {
+  users: Map<string, UserData>
+  sessions: Map<string, SessionData>
+  rooms: Map<string, RoomData>
+  members: Map<string, RoomMemberData>
+  spectators: Map<string, RoomSpectatorData>
+  events: Map<string, GameEventRecord[]> // by room, in sequence order
+  commands: Map<string, GameCommandRecord[]> // by room, in sequence order
+  snapshots: Map<string, GameSnapshotRecord[]> // by room
+}
+
+declare global {
+  var __memoryTables: MemoryTables | undefined
+}
+
+function createTables(): MemoryTables {
+  return {
+    users: new Map(),
+    sessions: new Map(),
+    rooms: new Map(),
+    members: new Map(),
+    spectators: new Map(),
+    events: new Map(),
+    commands: new Map(),
+    snapshots: new Map()
+  }
+}
+
+function tables(): MemoryTables {
+  if (!globalThis.__memoryTables) {
+    globalThis.__memoryTables = createTables()
+  }
+  return globalThis.__memoryTables
+}
+
+/**
+ * Empty every table, e.g. between integration test runs
+ */
+export function resetMemoryTables(): void {
+  globalThis.__memoryTables = createTables()
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function copy<T>(value: T): T {
+  return structuredClone(value)
+}
+
+// Store a value the way a JSON column would: dates become strings, undefined fields disappear
+function toJson(value: unknown): unknown {
+  return value === undefined || value === null ? null : JSON.parse(JSON.stringify(value))
+}
+
+function toRoomRow<T extends Partial<RoomData>>(data: T): T {
+  const row = copy(data)
+  for (const field of ROOM_JSON_FIELDS) {
+    if (field in row) (row as Record<string, unknown>)[field] = toJson(row[field])
+  }
+  return row
+}
+
+function matches<T>(record: T, filter?: Partial<T>): boolean {
+  if (!filter) return true
+  return Object.entries(filter).every(([key, value]) => record[key as keyof T] === value)
+}
+
+// Shared CRUD over one table, keyed by record id
+class MemoryTable<T extends { id: string }> {
+  constructor(private readonly name: string, private readonly rows: () => Map<string, T>) {}
+
+  get(id: string): T | null {
+    const row = this.rows().get(id)
+    return row ? copy(row) : null
+  }
+
+  list(filter?: Partial<T>): T[] {
+    return [...this.rows().values()].filter(row => matches(row, filter)).map(copy)
+  }
+
+  insert(row: T): T {
+    this.rows().set(row.id, copy(row))
+    return copy(row)
+  }
+
+  patch(id: string, data: Partial<T>): T {
+    const row = this.rows().get(id)
+    if (!row) {
+      throw new Error(`No ${this.name} with id ${id}`)
+    }
+    // The id never changes
+    Object.assign(row, copy(data), { id })
+    return copy(row)
+  }
+
+  has(id: string): boolean {
+    return this.rows().has(id)
+  }
+}
+
+// Remove a room and everything that belongs to it
+function deleteRoom(roomId: string): void {
+  const { rooms, members, spectators, events, commands, snapshots } = tables()
+  rooms.delete(roomId)
+  for (const [id, member] of members) {
+    if (member.roomId === roomId) members.delete(id)
+  }
+  for (const [id, spectator] of spectators) {
+    if (spectator.roomId === roomId) spectators.delete(id)
+  }
+  events.delete(roomId)
+  commands.delete(roomId)
+  snapshots.delete(roomId)
+}
+
+function withUser<T extends { userId: string }>(record: T): T & { user: UserData } {
+  return { ...record, user: copy(tables().users.get(record.userId)!) }
+}
+
+// ============================================================================
+// Room Repository
+// ============================================================================
+
+export class MemoryRoomRepository implements RoomRepository {
+  private readonly table = new MemoryTable<RoomData>('room', () => tables().rooms)
+
+  async findById(id: string): Promise<RoomData | null> {
+    return this.table.get(id)
+  }
+
+  async findMany(filter?: Partial<RoomData>): Promise<RoomData[]> {
+    return this.table.list(filter)
+  }
+
+  async create(data: NewRoomData): Promise<RoomData> {
+    if (!tables().users.has(data.hostId)) {
+      throw new Error(`No user with id ${data.hostId}`)
+    }
+
+    const now = new Date()
+    return this.table.insert({
+      id: crypto.randomUUID(),
+      name: data.name,
+      hostId: data.hostId,
+      isActive: data.isActive ?? true,
+      isSimulator: data.isSimulator ?? false,
+      createdAt: now,
+      updatedAt: now,
+      stateVersion: 0,
+      eventSequence: 0,
+      commandSequence: 0,
+      gamePhase: 'team_selection',
+      currentRound: 1,
+      currentTurn: null,
+      dealerUserId: null,
+      starterUserId: null,
+      trumpColor: null,
+      turnDeadline: null,
+      highestBetUserId: null,
+      highestBetValue: null,
+      highestBetType: null,
+      highestBetTrump: null,
+      playerHands: null,
+      playedCards: null,
+      playerBets: null,
+      playerTeams: null,
+      playerSeats: null,
+      playerReady: null,
+      tricksWon: null,
+      cardPoints: null,
+      gameScores: null,
+      roundHistory: null,
+      roundSeeds: null,
+      trickHistory: null,
+      matchTargetType: DEFAULT_MATCH_TARGET.type,
+      matchTargetValue: DEFAULT_MATCH_TARGET.value,
+      matchResult: null,
+      rules: toJson(data.rules)
+    })
+  }
+
+  async update(id: string, data: Partial<RoomData>): Promise<RoomData> {
+    return this.table.patch(id, { ...toRoomRow(data), updatedAt: new Date() })
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.table.has(id)) return false
+    deleteRoom(id)
+    return true
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return this.table.has(id)
+  }
+
+  async findWithMembers(id: string): Promise<RoomWithMembers | null> {
+    const room = this.table.get(id)
+    if (!room) return null
+
+    const members = [...tables().members.values()]
+      .filter(member => member.roomId === id)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())
+      .map(member => withUser(copy(member)))
+    return { ...room, members }
+  }
+
+  async findActive(): Promise<RoomListing[]> {
+    const { users, members, spectators } = tables()
+    return this.table.list({ isActive: true })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(room => ({
+        ...room,
+        host: copy(users.get(room.hostId)!),
+        _count: {
+          members: [...members.values()].filter(member => member.roomId === room.id).length,
+          spectators: [...spectators.values()].filter(spectator => spectator.roomId === room.id).length
+        }
+      }))
+  }
+
+  async saveGameState(id: string, write: GameStateWrite): Promise<GameStateWriteResult | null> {
+    // No awaits in here: the check, the write and the log append happen as one step
+    const room = tables().rooms.get(id)
+    if (!room) {
+      throw new Error(`No room with id ${id}`)
+    }
+    if (write.expectedVersion !== undefined && room.stateVersion !== write.expectedVersion) {
+      return null
+    }
+
+    Object.assign(room, toRoomRow(write.fields))
+    room.stateVersion += 1
+    room.updatedAt = new Date()
+
+    if (write.commands.length === 0) {
+      return { version: room.stateVersion, lastCommand: 0 }
+    }
+
+    const log = tables().commands.get(id) ?? []
+    for (const command of write.commands) {
+      room.commandSequence += 1
+      log.push({ ...command, payload: toJson(command.payload), sequence: room.commandSequence, createdAt: new Date() })
+    }
+    tables().commands.set(id, log)
+
+    return { version: room.stateVersion, lastCommand: room.commandSequence }
+  }
+}
+
+// ============================================================================
+// Room Member Repository
+// ============================================================================
+
+export class MemoryRoomMemberRepository implements RoomMemberRepository {
+  private readonly table = new MemoryTable<RoomMemberData>('room member', () => tables().members)
+
+  async findById(id: string): Promise<RoomMemberData | null> {
+    return this.table.get(id)
+  }
+
+  async findMany(filter?: Partial<RoomMemberData>): Promise<RoomMemberData[]> {
+    return this.table.list(filter)
+  }
+
+  async create(data: NewRoomMemberData): Promise<RoomMemberData> {
+    if (!tables().rooms.has(data.roomId) || !tables().users.has(data.userId)) {
+      throw new Error(`Cannot add ${data.userId} to room ${data.roomId}: no such room or user`)
+    }
+    if (await this.findMember(data.roomId, data.userId)) {
+      throw new Error(`${data.userId} is already a member of room ${data.roomId}`)
+    }
+
+    return this.table.insert({
+      id: crypto.randomUUID(),
+      roomId: data.roomId,
+      userId: data.userId,
+      joinedAt: new Date(),
+      botDifficulty: data.botDifficulty ?? null
+    })
+  }
+
+  async update(id: string, data: Partial<RoomMemberData>): Promise<RoomMemberData> {
+    return this.table.patch(id, data)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return tables().members.delete(id)
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return this.table.has(id)
+  }
+
+  async findMember(roomId: string, userId: string): Promise<RoomMemberData | null> {
+    return this.table.list({ roomId, userId })[0] ?? null
+  }
+
+  async findByRoom(roomId: string): Promise<RoomMemberData[]> {
+    return this.table.list({ roomId }).sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime())
+  }
+}
+
+// ============================================================================
+// Room Spectator Repository
+// ============================================================================
+
+export class MemoryRoomSpectatorRepository implements RoomSpectatorRepository {
+  private readonly table = new MemoryTable<RoomSpectatorData>('room spectator', () => tables().spectators)
+
+  async findById(id: string): Promise<RoomSpectatorData | null> {
+    return this.table.get(id)
+  }
+
+  async findMany(filter?: Partial<RoomSpectatorData>): Promise<RoomSpectatorData[]> {
+    return this.table.list(filter)
+  }
+
+  async create(data: NewRoomSpectatorData): Promise<RoomSpectatorData> {
+    if (!tables().rooms.has(data.roomId) || !tables().users.has(data.userId)) {
+      throw new Error(`Cannot add ${data.userId} to room ${data.roomId}: no such room or user`)
+    }
+    if (await this.findSpectator(data.roomId, data.userId)) {
+      throw new Error(`${data.userId} is already spectating room ${data.roomId}`)
+    }
+
+    return this.table.insert({
+      id: crypto.randomUUID(),
+      roomId: data.roomId,
+      userId: data.userId,
+      joinedAt: new Date()
+    })
+  }
+
+  async update(id: string, data: Partial<RoomSpectatorData>): Promise<RoomSpectatorData> {
+    return this.table.patch(id, data)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return tables().spectators.delete(id)
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return this.table.has(id)
+  }
+
+  async findSpectator(roomId: string, userId: string): Promise<RoomSpectatorData | null> {
+    return this.table.list({ roomId, userId })[0] ?? null
+  }
+
+  async countByRoom(roomId: string): Promise<number> {
+    return this.table.list({ roomId }).length
+  }
+}
+
+// ============================================================================
+// User Repository
+// ============================================================================
+
+export class MemoryUserRepository implements UserRepository {
+  private readonly table = new MemoryTable<UserData>('user', () => tables().users)
+
+  async findById(id: string): Promise<UserData | null> {
+    return this.table.get(id)
+  }
+
+  async findMany(filter?: Partial<UserData>): Promise<UserData[]> {
+    return this.table.list(filter)
+  }
+
+  async create(data: NewUserData): Promise<UserData> {
+    if (await this.findByName(data.name)) {
+      throw new Error(`A user named ${data.name} already exists`)
+    }
+
+    return this.table.insert({
+      id: data.id ?? crypto.randomUUID(),
+      name: data.name,
+      isBot: data.isBot ?? false,
+      createdAt: new Date()
+    })
+  }
+
+  async update(id: string, data: Partial<UserData>): Promise<UserData> {
+    return this.table.patch(id, data)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { users, sessions, members, spectators, rooms } = tables()
+    if (!users.delete(id)) return false
+
+    for (const [sessionId, session] of sessions) {
+      if (session.userId === id) sessions.delete(sessionId)
+    }
+    for (const [memberId, member] of members) {
+      if (member.userId === id) members.delete(memberId)
+    }
+    for (const [spectatorId, spectator] of spectators) {
+      if (spectator.userId === id) spectators.delete(spectatorId)
+    }
+    for (const room of [...rooms.values()]) {
+      if (room.hostId === id) deleteRoom(room.id)
+    }
+    return true
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return this.table.has(id)
+  }
+
+  async findByName(name: string): Promise<UserData | null> {
+    return this.table.list({ name })[0] ?? null
+  }
+
+  async findOrCreate(data: NewUserData): Promise<UserData> {
+    const existing = data.id ? await this.findById(data.id) : await this.findByName(data.name)
+    return existing ?? this.create(data)
+  }
+
+  async getUserRooms(userId: string): Promise<RoomData[]> {
+    const { members, rooms } = tables()
+    const roomIds = new Set([...members.values()].filter(member => member.userId === userId).map(member => member.roomId))
+    return [...rooms.values()].filter(room => roomIds.has(room.id)).map(copy)
+  }
+}
+
+// ============================================================================
+// Session Repository
+// ============================================================================
+
+export class MemorySessionRepository implements SessionRepository {
+  private readonly table = new MemoryTable<SessionData>('session', () => tables().sessions)
+
+  async findById(id: string): Promise<SessionData | null> {
+    return this.table.get(id)
+  }
+
+  async findMany(filter?: Partial<SessionData>): Promise<SessionData[]> {
+    return this.table.list(filter)
+  }
+
+  async create(data: NewSessionData): Promise<SessionData> {
+    if (!tables().users.has(data.userId)) {
+      throw new Error(`No user with id ${data.userId}`)
+    }
+    if (this.table.list({ sessionId: data.sessionId }).length > 0) {
+      throw new Error(`Session ${data.sessionId} already exists`)
+    }
+
+    const now = new Date()
+    return this.table.insert({
+      id: crypto.randomUUID(),
+      userId: data.userId,
+      sessionId: data.sessionId,
+      createdAt: now,
+      lastSeen: data.lastSeen ?? now
+    })
+  }
+
+  async update(id: string, data: Partial<SessionData>): Promise<SessionData> {
+    return this.table.patch(id, data)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return tables().sessions.delete(id)
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return this.table.has(id)
+  }
+
+  async findBySessionId(sessionId: string): Promise<SessionWithUser | null> {
+    const session = this.table.list({ sessionId })[0]
+    return session ? withUser(session) : null
+  }
+
+  async findActiveForUser(userId: string, since: Date): Promise<SessionData[]> {
+    return this.table.list({ userId })
+      .filter(session => session.lastSeen > since)
+      .sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime())
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    const session = this.table.list({ sessionId })[0]
+    if (!session) {
+      throw new Error(`No session ${sessionId}`)
+    }
+    this.table.patch(session.id, { lastSeen: new Date() })
+  }
+
+  async deleteBySessionId(sessionId: string): Promise<boolean> {
+    const session = this.table.list({ sessionId })[0]
+    return session ? tables().sessions.delete(session.id) : false
+  }
+
+  async deleteStale(before: Date): Promise<number> {
+    const { sessions } = tables()
+    let removed = 0
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < before) {
+        sessions.delete(id)
+        removed++
+      }
+    }
+    return removed
+  }
+}
+
+// ============================================================================
+// Game Event Repository
+// ============================================================================
+
+export class MemoryGameEventRepository implements GameEventRepository {
+  async append(event: NewGameEvent): Promise<GameEventRecord> {
+    const room = tables().rooms.get(event.roomId)
+    if (!room) {
+      throw new Error(`No room with id ${event.roomId}`)
+    }
+
+    room.eventSequence += 1
+    const record: GameEventRecord = { ...copy(event), payload: toJson(event.payload), id: crypto.randomUUID(), sequence: room.eventSequence }
+    const log = tables().events.get(event.roomId) ?? []
+    log.push(record)
+    tables().events.set(event.roomId, log)
+    return copy(record)
+  }
+
+  async find(roomId: string, options: GameEventFindOptions): Promise<GameEventRecord[]> {
+    const events = (tables().events.get(roomId) ?? []).filter(event =>
+      (options.after === undefined || event.sequence > options.after) &&
+      (options.before === undefined || event.sequence < options.before) &&
+      (!options.since || event.createdAt > options.since)
+    )
+    const ordered = options.order === 'desc' ? events.reverse() : events
+    return ordered.slice(0, options.take).map(copy)
+  }
+
+  async prune(roomId: string, keep: number): Promise<number> {
+    const events = tables().events.get(roomId) ?? []
+    const removed = Math.max(events.length - keep, 0)
+    if (removed > 0) {
+      tables().events.set(roomId, events.slice(removed))
+    }
+    return removed
+  }
+}
+
+// ============================================================================
+// Game Command Repository
+// ============================================================================
+
+export class MemoryGameCommandRepository implements GameCommandRepository {
+  async findRange(roomId: string, fromSequence: number, toSequence: number): Promise<GameCommandRecord[]> {
+    return (tables().commands.get(roomId) ?? [])
+      .filter(command => command.sequence >= fromSequence && command.sequence <= toSequence)
+      .map(copy)
+  }
+
+  async findLatestOfType(roomId: string, type: string, atMost: number): Promise<number | null> {
+    const commands = (tables().commands.get(roomId) ?? [])
+      .filter(command => command.type === type && command.sequence <= atMost)
+    return commands.length > 0 ? commands[commands.length - 1].sequence : null
+  }
+
+  async findLatestSnapshot(roomId: string, atMost: number): Promise<GameSnapshotRecord | null> {
+    const snapshots = (tables().snapshots.get(roomId) ?? [])
+      .filter(snapshot => snapshot.sequence <= atMost)
+      .sort((a, b) => b.sequence - a.sequence)
+    return snapshots[0] ? copy(snapshots[0]) : null
+  }
+
+  async saveSnapshot(roomId: string, sequence: number, state: unknown): Promise<void> {
+    const snapshots = tables().snapshots.get(roomId) ?? []
+    if (snapshots.some(snapshot => snapshot.sequence === sequence)) return
+
+    snapshots.push({ sequence, state: toJson(state) })
+    tables().snapshots.set(roomId, snapshots)
+  }
+}
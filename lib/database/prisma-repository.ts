@@ -0,0 +1,487 @@
+/**
+ * Prisma Repositories
+ *
+ * The Postgres implementation of the repositories in `lib/database/repository.ts`,
+ * selected with `DATA_STORE=prisma` (the default). This is the only module of
+ * the app that talks to Prisma.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { ROOM_JSON_FIELDS } from "./room-columns"
+import type {
+  RoomRepository,
+  RoomMemberRepository,
+  RoomSpectatorRepository,
+  UserRepository,
+  SessionRepository,
+  GameEventRepository,
+  GameCommandRepository,
+  RoomData,
+  NewRoomData,
+  RoomWithMembers,
+  RoomListing,
+  GameStateWrite,
+  GameStateWriteResult,
+  RoomMemberData,
+  NewRoomMemberData,
+  RoomSpectatorData,
+  NewRoomSpectatorData,
+  UserData,
+  NewUserData,
+  SessionData,
+  SessionWithUser,
+  NewSessionData,
+  GameEventRecord,
+  NewGameEvent,
+  GameEventFindOptions,
+  GameCommandRecord,
+  GameSnapshotRecord
+} from "./repository"
+
+// ============================================================================
+// JSON Columns
+// ============================================================================
+
+// Prisma clears a JSON column with DbNull rather than a plain null
+function toRoomWriteData(data: Partial<RoomData>): Record<string, unknown> {
+  const fields = { ...data }
+  delete fields.id
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) =>
+    [key, value === null && ROOM_JSON_FIELDS.includes(key as keyof RoomData) ? Prisma.DbNull : value]
+  ))
+}
+
+// ============================================================================
+// Room Repository
+// ============================================================================
+
+export class PrismaRoomRepository implements RoomRepository {
+  async findById(id: string): Promise<RoomData | null> {
+    return await prisma.room.findUnique({ where: { id } }) as RoomData | null
+  }
+
+  async findMany(filter?: Partial<RoomData>): Promise<RoomData[]> {
+    return await prisma.room.findMany({ where: filter }) as RoomData[]
+  }
+
+  async create(data: NewRoomData): Promise<RoomData> {
+    return await prisma.room.create({ data: toRoomWriteData(data as Partial<RoomData>) }) as RoomData
+  }
+
+  async update(id: string, data: Partial<RoomData>): Promise<RoomData> {
+    return await prisma.room.update({ where: { id }, data: toRoomWriteData(data) }) as RoomData
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.room.delete({ where: { id } })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await prisma.room.count({ where: { id } })
+    return count > 0
+  }
+
+  async findWithMembers(id: string): Promise<RoomWithMembers | null> {
+    return await prisma.room.findUnique({
+      where: { id },
+      include: {
+        members: {
+          include: { user: true },
+          orderBy: { joinedAt: 'asc' }
+        }
+      }
+    }) as RoomWithMembers | null
+  }
+
+  async findActive(): Promise<RoomListing[]> {
+    return await prisma.room.findMany({
+      where: { isActive: true },
+      include: {
+        host: true,
+        _count: {
+          select: { members: true, spectators: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    }) as RoomListing[]
+  }
+
+  async saveGameState(id: string, write: GameStateWrite): Promise<GameStateWriteResult | null> {
+    const { fields, expectedVersion, commands } = write
+    const data = {
+      ...toRoomWriteData(fields as Partial<RoomData>),
+      stateVersion: { increment: 1 },
+      ...(commands.length > 0 && { commandSequence: { increment: commands.length } })
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      let version: number
+      let lastCommand: number
+      if (expectedVersion === undefined) {
+        const room = await tx.room.update({
+          where: { id },
+          data,
+          select: { stateVersion: true, commandSequence: true }
+        })
+        version = room.stateVersion
+        lastCommand = room.commandSequence
+      } else {
+        const result = await tx.room.updateMany({
+          where: { id, stateVersion: expectedVersion },
+          data
+        })
+        if (result.count === 0) return null
+
+        const room = await tx.room.findUnique({
+          where: { id },
+          select: { commandSequence: true }
+        })
+        version = expectedVersion + 1
+        lastCommand = room?.commandSequence ?? commands.length
+      }
+
+      if (commands.length === 0) {
+        return { version, lastCommand: 0 }
+      }
+
+      const firstCommand = lastCommand - commands.length + 1
+      await tx.gameCommand.createMany({
+        data: commands.map((command, index) => ({
+          roomId: id,
+          sequence: firstCommand + index,
+          type: command.type,
+          actorId: command.actorId,
+          payload: command.payload as object
+        }))
+      })
+      return { version, lastCommand }
+    })
+  }
+}
+
+// ============================================================================
+// Room Member Repository
+// ============================================================================
+
+export class PrismaRoomMemberRepository implements RoomMemberRepository {
+  async findById(id: string): Promise<RoomMemberData | null> {
+    return await prisma.roomMember.findUnique({ where: { id } }) as RoomMemberData | null
+  }
+
+  async findMany(filter?: Partial<RoomMemberData>): Promise<RoomMemberData[]> {
+    return await prisma.roomMember.findMany({ where: filter }) as RoomMemberData[]
+  }
+
+  async create(data: NewRoomMemberData): Promise<RoomMemberData> {
+    return await prisma.roomMember.create({ data }) as RoomMemberData
+  }
+
+  async update(id: string, data: Partial<RoomMemberData>): Promise<RoomMemberData> {
+    return await prisma.roomMember.update({ where: { id }, data }) as RoomMemberData
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.roomMember.delete({ where: { id } })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await prisma.roomMember.count({ where: { id } })
+    return count > 0
+  }
+
+  async findMember(roomId: string, userId: string): Promise<RoomMemberData | null> {
+    return await prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } }
+    }) as RoomMemberData | null
+  }
+
+  async findByRoom(roomId: string): Promise<RoomMemberData[]> {
+    return await prisma.roomMember.findMany({
+      where: { roomId },
+      orderBy: { joinedAt: 'asc' }
+    }) as RoomMemberData[]
+  }
+}
+
+// ============================================================================
+// Room Spectator Repository
+// ============================================================================
+
+export class PrismaRoomSpectatorRepository implements RoomSpectatorRepository {
+  async findById(id: string): Promise<RoomSpectatorData | null> {
+    return await prisma.roomSpectator.findUnique({ where: { id } }) as RoomSpectatorData | null
+  }
+
+  async findMany(filter?: Partial<RoomSpectatorData>): Promise<RoomSpectatorData[]> {
+    return await prisma.roomSpectator.findMany({ where: filter }) as RoomSpectatorData[]
+  }
+
+  async create(data: NewRoomSpectatorData): Promise<RoomSpectatorData> {
+    return await prisma.roomSpectator.create({ data }) as RoomSpectatorData
+  }
+
+  async update(id: string, data: Partial<RoomSpectatorData>): Promise<RoomSpectatorData> {
+    return await prisma.roomSpectator.update({ where: { id }, data }) as RoomSpectatorData
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.roomSpectator.delete({ where: { id } })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await prisma.roomSpectator.count({ where: { id } })
+    return count > 0
+  }
+
+  async findSpectator(roomId: string, userId: string): Promise<RoomSpectatorData | null> {
+    return await prisma.roomSpectator.findUnique({
+      where: { roomId_userId: { roomId, userId } }
+    }) as RoomSpectatorData | null
+  }
+
+  async countByRoom(roomId: string): Promise<number> {
+    return await prisma.roomSpectator.count({ where: { roomId } })
+  }
+}
+
+// ============================================================================
+// User Repository
+// ============================================================================
+
+export class PrismaUserRepository implements UserRepository {
+  async findById(id: string): Promise<UserData | null> {
+    return await prisma.user.findUnique({ where: { id } }) as UserData | null
+  }
+
+  async findMany(filter?: Partial<UserData>): Promise<UserData[]> {
+    return await prisma.user.findMany({ where: filter }) as UserData[]
+  }
+
+  async create(data: NewUserData): Promise<UserData> {
+    return await prisma.user.create({ data }) as UserData
+  }
+
+  async update(id: string, data: Partial<UserData>): Promise<UserData> {
+    return await prisma.user.update({ where: { id }, data }) as UserData
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.user.delete({ where: { id } })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await prisma.user.count({ where: { id } })
+    return count > 0
+  }
+
+  async findByName(name: string): Promise<UserData | null> {
+    return await prisma.user.findUnique({ where: { name } }) as UserData | null
+  }
+
+  async findOrCreate(data: NewUserData): Promise<UserData> {
+    return await prisma.user.upsert({
+      where: data.id ? { id: data.id } : { name: data.name },
+      update: {},
+      create: data
+    }) as UserData
+  }
+
+  async getUserRooms(userId: string): Promise<RoomData[]> {
+    const memberships = await prisma.roomMember.findMany({
+      where: { userId },
+      include: { room: true }
+    })
+
+    return memberships.map(m => m.room) as RoomData[]
+  }
+}
+
+// ============================================================================
+// Session Repository
+// ============================================================================
+
+export class PrismaSessionRepository implements SessionRepository {
+  async findById(id: string): Promise<SessionData | null> {
+    return await prisma.userSession.findUnique({ where: { id } }) as SessionData | null
+  }
+
+  async findMany(filter?: Partial<SessionData>): Promise<SessionData[]> {
+    return await prisma.userSession.findMany({ where: filter }) as SessionData[]
+  }
+
+  async create(data: NewSessionData): Promise<SessionData> {
+    return await prisma.userSession.create({ data }) as SessionData
+  }
+
+  async update(id: string, data: Partial<SessionData>): Promise<SessionData> {
+    return await prisma.userSession.update({ where: { id }, data }) as SessionData
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.userSession.delete({ where: { id } })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await prisma.userSession.count({ where: { id } })
+    return count > 0
+  }
+
+  async findBySessionId(sessionId: string): Promise<SessionWithUser | null> {
+    return await prisma.userSession.findUnique({
+      where: { sessionId },
+      include: { user: true }
+    }) as SessionWithUser | null
+  }
+
+  async findActiveForUser(userId: string, since: Date): Promise<SessionData[]> {
+    return await prisma.userSession.findMany({
+      where: { userId, lastSeen: { gt: since } },
+      orderBy: { lastSeen: 'desc' }
+    }) as SessionData[]
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    await prisma.userSession.update({
+      where: { sessionId },
+      data: { lastSeen: new Date() }
+    })
+  }
+
+  async deleteBySessionId(sessionId: string): Promise<boolean> {
+    const result = await prisma.userSession.deleteMany({ where: { sessionId } })
+    return result.count > 0
+  }
+
+  async deleteStale(before: Date): Promise<number> {
+    const result = await prisma.userSession.deleteMany({
+      where: { lastSeen: { lt: before } }
+    })
+    return result.count
+  }
+}
+
+// ============================================================================
+// Game Event Repository
+// ============================================================================
+
+export class PrismaGameEventRepository implements GameEventRepository {
+  async append(event: NewGameEvent): Promise<GameEventRecord> {
+    // The room counter bump and the insert share a transaction, so sequences
+    // are unique and gapless even with concurrent writers
+    return await prisma.$transaction(async (tx) => {
+      const room = await tx.room.update({
+        where: { id: event.roomId },
+        data: { eventSequence: { increment: 1 } },
+        select: { eventSequence: true }
+      })
+
+      return tx.gameEvent.create({
+        data: {
+          roomId: event.roomId,
+          sequence: room.eventSequence,
+          type: event.type,
+          actorId: event.actorId,
+          payload: (event.payload ?? undefined) as object | undefined,
+          createdAt: event.createdAt
+        }
+      })
+    }) as GameEventRecord
+  }
+
+  async find(roomId: string, options: GameEventFindOptions): Promise<GameEventRecord[]> {
+    const sequence: { gt?: number; lt?: number } = {}
+    if (options.after !== undefined) sequence.gt = options.after
+    if (options.before !== undefined) sequence.lt = options.before
+
+    return await prisma.gameEvent.findMany({
+      where: {
+        roomId,
+        ...(Object.keys(sequence).length > 0 && { sequence }),
+        ...(options.since && { createdAt: { gt: options.since } })
+      },
+      orderBy: { sequence: options.order },
+      take: options.take
+    }) as GameEventRecord[]
+  }
+
+  async prune(roomId: string, keep: number): Promise<number> {
+    const cutoff = await prisma.gameEvent.findFirst({
+      where: { roomId },
+      orderBy: { sequence: 'desc' },
+      skip: keep,
+      select: { sequence: true }
+    })
+
+    if (!cutoff) return 0
+
+    const result = await prisma.gameEvent.deleteMany({
+      where: { roomId, sequence: { lte: cutoff.sequence } }
+    })
+    return result.count
+  }
+}
+
+// ============================================================================
+// Game Command Repository
+// ============================================================================
+
+export class PrismaGameCommandRepository implements GameCommandRepository {
+  async findRange(roomId: string, fromSequence: number, toSequence: number): Promise<GameCommandRecord[]> {
+    return await prisma.gameCommand.findMany({
+      where: { roomId, sequence: { gte: fromSequence, lte: toSequence } },
+      orderBy: { sequence: 'asc' }
+    }) as GameCommandRecord[]
+  }
+
+  async findLatestOfType(roomId: string, type: string, atMost: number): Promise<number | null> {
+    const command = await prisma.gameCommand.findFirst({
+      where: { roomId, type, sequence: { lte: atMost } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true }
+    })
+    return command?.sequence ?? null
+  }
+
+  async findLatestSnapshot(roomId: string, atMost: number): Promise<GameSnapshotRecord | null> {
+    return await prisma.gameSnapshot.findFirst({
+      where: { roomId, sequence: { lte: atMost } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, state: true }
+    }) as GameSnapshotRecord | null
+  }
+
+  async saveSnapshot(roomId: string, sequence: number, state: unknown): Promise<void> {
+    await prisma.gameSnapshot.createMany({
+      data: [{ roomId, sequence, state: state as object }],
+      skipDuplicates: true
+    })
+  }
+}
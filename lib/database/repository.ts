@@ -1,292 +1,377 @@
 /**
  * Database Repository Pattern
- * 
- * This file implements the repository pattern for all database operations
- * providing a clean abstraction layer over Prisma with type safety.
- * 
+ *
+ * All game persistence goes through the repositories defined here, never
+ * through Prisma directly. `DATA_STORE` selects the implementation:
+ *
+ * - `prisma` (default): Postgres through Prisma (see lib/database/prisma-repository.ts)
+ * - `memory`: process-local tables (see lib/database/memory-repository.ts), so
+ *   the whole app runs and can be integration-tested with no database;
+ *   everything is gone when the process exits
+ *
+ * This module also maps a room row to and from the `GameState` the game code
+ * works with.
+ *
  * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
  */
 
-import { prisma } from "@/lib/prisma"
-import { GameState, Player } from "@/lib/game-types"
-import { validateGameState } from "@/lib/type-guards"
+import { GameState, GamePhase, Card, Team, Player, Bet, Bets, BetsNumericValue, CardColor, MatchResult, TrickRecord, DEFAULT_MATCH_TARGET } from "@/lib/game-types"
+import { toBetHistory, toMatchTarget, toRoundSeeds, toRuleSet } from "@/lib/game-logic"
+import { validateGameState, safeObjectCast, isObject, isArray, isBotDifficulty } from "@/lib/type-guards"
+import {
+  PrismaRoomRepository,
+  PrismaRoomMemberRepository,
+  PrismaRoomSpectatorRepository,
+  PrismaUserRepository,
+  PrismaSessionRepository,
+  PrismaGameEventRepository,
+  PrismaGameCommandRepository
+} from "./prisma-repository"
+import {
+  MemoryRoomRepository,
+  MemoryRoomMemberRepository,
+  MemoryRoomSpectatorRepository,
+  MemoryUserRepository,
+  MemorySessionRepository,
+  MemoryGameEventRepository,
+  MemoryGameCommandRepository
+} from "./memory-repository"
 
 // ============================================================================
 // Base Repository Interface
 // ============================================================================
 
-export interface BaseRepository<T, K = string> {
+export interface BaseRepository<T, K = string, C = Omit<T, 'id'>> {
   findById(id: K): Promise<T | null>
   findMany(filter?: Partial<T>): Promise<T[]>
-  create(data: Omit<T, 'id'>): Promise<T>
+  create(data: C): Promise<T>
   update(id: K, data: Partial<T>): Promise<T>
   delete(id: K): Promise<boolean>
   exists(id: K): Promise<boolean>
 }
 
 // ============================================================================
-// Room Repository
+// User Repository
 // ============================================================================
 
-export interface RoomData {
+export interface UserData {
   id: string
+  name: string
+  isBot: boolean
+  createdAt: Date
+}
+
+export interface NewUserData {
+  id?: string
+  name: string
+  isBot?: boolean
+}
+
+export interface UserRepository extends BaseRepository<UserData, string, NewUserData> {
+  findByName(name: string): Promise<UserData | null>
+  // The user with `data.id` (or, without an id, `data.name`), created if missing
+  findOrCreate(data: NewUserData): Promise<UserData>
+  getUserRooms(userId: string): Promise<RoomData[]>
+}
+
+// ============================================================================
+// Session Repository
+// ============================================================================
+
+export interface SessionData {
+  id: string
+  userId: string
+  sessionId: string
+  createdAt: Date
+  lastSeen: Date
+}
+
+export interface SessionWithUser extends SessionData {
+  user: UserData
+}
+
+export interface NewSessionData {
+  userId: string
+  sessionId: string
+  lastSeen?: Date
+}
+
+export interface SessionRepository extends BaseRepository<SessionData, string, NewSessionData> {
+  findBySessionId(sessionId: string): Promise<SessionWithUser | null>
+  // A user's sessions seen after `since`, most recent first
+  findActiveForUser(userId: string, since: Date): Promise<SessionData[]>
+  touch(sessionId: string): Promise<void>
+  deleteBySessionId(sessionId: string): Promise<boolean>
+  // Remove sessions last seen before `before`; returns how many were removed
+  deleteStale(before: Date): Promise<number>
+}
+
+// ============================================================================
+// Room Repository
+// ============================================================================
+
+// The columns a game state save writes
+export interface RoomGameFields {
   gamePhase: string | null
   currentRound: number | null
   currentTurn: string | null
   dealerUserId: string | null
   starterUserId: string | null
   trumpColor: string | null
-  playerHands: any
-  playedCards: any
-  playerBets: any
-  playerTeams: any
-  playerSeats: any
-  playerReady: any
-  wonTricks: any
-  gameScores: any
+  turnDeadline: Date | null
   highestBetUserId: string | null
   highestBetValue: number | null
+  highestBetType: string | null
   highestBetTrump: boolean | null
-  members: Array<{
-    userId: string
-    user: { name: string | null }
-  }>
-}
-
-export class RoomRepository implements BaseRepository<RoomData> {
-  async findById(id: string): Promise<RoomData | null> {
-    const room = await prisma.room.findUnique({
-      where: { id },
-      include: {
-        members: {
-          include: {
-            user: {
-              select: { name: true }
-            }
-          }
-        }
-      }
-    })
+  playerHands: unknown
+  playedCards: unknown
+  playerBets: unknown
+  playerTeams: unknown
+  playerSeats: unknown
+  playerReady: unknown
+  tricksWon: unknown
+  cardPoints: unknown
+  gameScores: unknown
+  roundSeeds: unknown
+  trickHistory: unknown
+  matchTargetType: string
+  matchTargetValue: number
+  matchResult: unknown
+}
 
-    return room as RoomData | null
-  }
+export interface RoomData extends RoomGameFields {
+  id: string
+  name: string
+  hostId: string
+  isActive: boolean
+  isSimulator: boolean
+  createdAt: Date
+  updatedAt: Date
+  stateVersion: number
+  eventSequence: number
+  commandSequence: number
+  roundHistory: unknown
+  rules: unknown
+}
 
-  async findMany(filter?: Partial<RoomData>): Promise<RoomData[]> {
-    const rooms = await prisma.room.findMany({
-      where: filter,
-      include: {
-        members: {
-          include: {
-            user: {
-              select: { name: true }
-            }
-          }
-        }
-      }
-    })
+export interface NewRoomData {
+  name: string
+  hostId: string
+  isActive?: boolean
+  isSimulator?: boolean
+  rules?: unknown
+}
 
-    return rooms as RoomData[]
-  }
+export interface RoomMemberWithUser extends RoomMemberData {
+  user: UserData
+}
 
-  async create(data: Omit<RoomData, 'id' | 'members'>): Promise<RoomData> {
-    const room = await prisma.room.create({
-      data,
-      include: {
-        members: {
-          include: {
-            user: {
-              select: { name: true }
-            }
-          }
-        }
-      }
-    })
+export interface RoomWithMembers extends RoomData {
+  members: RoomMemberWithUser[]
+}
 
-    return room as RoomData
-  }
+// A room as listed in the lobby
+export interface RoomListing extends RoomData {
+  host: UserData
+  _count: { members: number; spectators: number }
+}
 
-  async update(id: string, data: Partial<RoomData>): Promise<RoomData> {
-    const room = await prisma.room.update({
-      where: { id },
-      data,
-      include: {
-        members: {
-          include: {
-            user: {
-              select: { name: true }
-            }
-          }
-        }
-      }
-    })
+export interface GameStateWrite {
+  fields: RoomGameFields
+  expectedVersion?: number // compare-and-swap against `stateVersion` when given
+  commands: NewGameCommand[] // appended to the room's command log
+}
 
-    return room as RoomData
-  }
+export interface GameStateWriteResult {
+  version: number // the room's new `stateVersion`
+  lastCommand: number // sequence of the last command written (0 when none were)
+}
 
-  async delete(id: string): Promise<boolean> {
-    try {
-      await prisma.room.delete({ where: { id } })
-      return true
-    } catch {
-      return false
-    }
-  }
+export interface RoomRepository extends BaseRepository<RoomData, string, NewRoomData> {
+  findWithMembers(id: string): Promise<RoomWithMembers | null>
+  // Active rooms, newest first
+  findActive(): Promise<RoomListing[]>
+  /**
+   * Write a room's game state and append the commands that produced it in
+   * one atomic step, bumping `stateVersion`. Returns null when
+   * `expectedVersion` no longer matches because another save got there first.
+   */
+  saveGameState(id: string, write: GameStateWrite): Promise<GameStateWriteResult | null>
+}
 
-  async exists(id: string): Promise<boolean> {
-    const count = await prisma.room.count({ where: { id } })
-    return count > 0
-  }
+// ============================================================================
+// Room Member Repository
+// ============================================================================
 
-  // Room-specific methods
-  async getGameState(roomId: string): Promise<GameState | null> {
-    const roomData = await this.findById(roomId)
-    if (!roomData) return null
+export interface RoomMemberData {
+  id: string
+  roomId: string
+  userId: string
+  joinedAt: Date
+  botDifficulty: string | null
+}
 
-    // Convert room data to game state
-    const gameState = this.convertToGameState(roomData)
-    return validateGameState(gameState)
-  }
+export interface NewRoomMemberData {
+  roomId: string
+  userId: string
+  botDifficulty?: string | null
+}
 
-  async saveGameState(roomId: string, gameState: GameState): Promise<void> {
-    const roomData = this.convertFromGameState(gameState)
-    await this.update(roomId, roomData)
-  }
+export interface RoomMemberRepository extends BaseRepository<RoomMemberData, string, NewRoomMemberData> {
+  findMember(roomId: string, userId: string): Promise<RoomMemberData | null>
+  // Members of a room, in joining order
+  findByRoom(roomId: string): Promise<RoomMemberData[]>
+}
 
-  private convertToGameState(roomData: RoomData): GameState {
-    // Implementation would convert room data to game state
-    // This is a simplified version
-    return {
-      phase: roomData.gamePhase as any,
-      round: roomData.currentRound || 1,
-      currentTurn: roomData.currentTurn || '',
-      dealer: roomData.dealerUserId || '',
-      starter: roomData.starterUserId || '',
-      trump: roomData.trumpColor as any,
-      players: {},
-      bets: roomData.playerBets || {},
-      playedCards: roomData.playedCards || {},
-      playerHands: roomData.playerHands || {},
-      wonTricks: roomData.wonTricks || {},
-      scores: roomData.gameScores || {},
-      turnOrder: [],
-      highestBet: roomData.highestBetUserId ? {
-        playerId: roomData.highestBetUserId,
-        value: roomData.highestBetValue as any,
-        trump: roomData.highestBetTrump || false
-      } : undefined
-    }
-  }
+// ============================================================================
+// Room Spectator Repository
+// ============================================================================
 
-  private convertFromGameState(gameState: GameState): Partial<RoomData> {
-    return {
-      gamePhase: gameState.phase,
-      currentRound: gameState.round,
-      currentTurn: gameState.currentTurn,
-      dealerUserId: gameState.dealer,
-      starterUserId: gameState.starter,
-      trumpColor: gameState.trump,
-      playerHands: gameState.playerHands as any,
-      playedCards: gameState.playedCards as any,
-      playerBets: gameState.bets as any,
-      wonTricks: gameState.wonTricks as any,
-      gameScores: gameState.scores as any,
-      highestBetUserId: gameState.highestBet?.playerId,
-      highestBetValue: gameState.highestBet?.value as any,
-      highestBetTrump: gameState.highestBet?.trump
-    }
-  }
+// Spectators watch a room without taking one of its four seats
+
+export interface RoomSpectatorData {
+  id: string
+  roomId: string
+  userId: string
+  joinedAt: Date
+}
+
+export interface NewRoomSpectatorData {
+  roomId: string
+  userId: string
+}
+
+export interface RoomSpectatorRepository extends BaseRepository<RoomSpectatorData, string, NewRoomSpectatorData> {
+  findSpectator(roomId: string, userId: string): Promise<RoomSpectatorData | null>
+  countByRoom(roomId: string): Promise<number>
 }
 
 // ============================================================================
-// User Repository
+// Game Log Repositories
 // ============================================================================
 
-export interface UserData {
+// Event and command logs are append-only, so they are addressed by room and
+// sequence instead of going through the CRUD interface
+
+export interface GameEventRecord {
   id: string
-  name: string | null
-  email: string | null
+  roomId: string
+  sequence: number
+  type: string
+  actorId: string | null
+  payload: unknown
   createdAt: Date
-  updatedAt: Date
 }
 
-export class UserRepository implements BaseRepository<UserData> {
-  async findById(id: string): Promise<UserData | null> {
-    return await prisma.user.findUnique({ where: { id } }) as UserData | null
-  }
-
-  async findMany(filter?: Partial<UserData>): Promise<UserData[]> {
-    return await prisma.user.findMany({ where: filter }) as UserData[]
-  }
-
-  async create(data: Omit<UserData, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserData> {
-    return await prisma.user.create({ data }) as UserData
-  }
+export type NewGameEvent = Omit<GameEventRecord, 'id' | 'sequence'>
 
-  async update(id: string, data: Partial<UserData>): Promise<UserData> {
-    return await prisma.user.update({ where: { id }, data }) as UserData
-  }
+export interface GameEventFindOptions {
+  after?: number
+  before?: number
+  since?: Date
+  order: 'asc' | 'desc'
+  take: number
+}
 
-  async delete(id: string): Promise<boolean> {
-    try {
-      await prisma.user.delete({ where: { id } })
-      return true
-    } catch {
-      return false
-    }
-  }
+export interface GameEventRepository {
+  // Append with the room's next sequence number, allocated atomically from `eventSequence`
+  append(event: NewGameEvent): Promise<GameEventRecord>
+  find(roomId: string, options: GameEventFindOptions): Promise<GameEventRecord[]>
+  // Delete all but the newest `keep` events; returns how many were removed
+  prune(roomId: string, keep: number): Promise<number>
+}
 
-  async exists(id: string): Promise<boolean> {
-    const count = await prisma.user.count({ where: { id } })
-    return count > 0
-  }
+export interface GameCommandRecord {
+  sequence: number
+  type: string
+  actorId: string | null
+  payload: unknown
+  createdAt: Date
+}
 
-  // User-specific methods
-  async findByEmail(email: string): Promise<UserData | null> {
-    return await prisma.user.findUnique({ where: { email } }) as UserData | null
-  }
+export type NewGameCommand = Omit<GameCommandRecord, 'sequence' | 'createdAt'>
 
-  async getUserRooms(userId: string): Promise<RoomData[]> {
-    const memberships = await prisma.roomMember.findMany({
-      where: { userId },
-      include: {
-        room: {
-          include: {
-            members: {
-              include: {
-                user: {
-                  select: { name: true }
-                }
-              }
-            }
-          }
-        }
-      }
-    })
+export interface GameSnapshotRecord {
+  sequence: number
+  state: unknown
+}
 
-    return memberships.map(m => m.room) as RoomData[]
-  }
+export interface GameCommandRepository {
+  // Commands `fromSequence`..`toSequence` (inclusive), in order
+  findRange(roomId: string, fromSequence: number, toSequence: number): Promise<GameCommandRecord[]>
+  // Sequence of the latest command of `type` at or before `atMost`
+  findLatestOfType(roomId: string, type: string, atMost: number): Promise<number | null>
+  findLatestSnapshot(roomId: string, atMost: number): Promise<GameSnapshotRecord | null>
+  // Store a snapshot; one already stored at that sequence is kept
+  saveSnapshot(roomId: string, sequence: number, state: unknown): Promise<void>
 }
 
 // ============================================================================
 // Repository Factory
 // ============================================================================
 
-export class RepositoryFactory {
-  private static roomRepository: RoomRepository
-  private static userRepository: UserRepository
+export type DataStore = 'prisma' | 'memory'
+
+export interface Repositories {
+  rooms: RoomRepository
+  members: RoomMemberRepository
+  spectators: RoomSpectatorRepository
+  users: UserRepository
+  sessions: SessionRepository
+  events: GameEventRepository
+  commands: GameCommandRepository
+}
 
-  static getRoomRepository(): RoomRepository {
-    if (!this.roomRepository) {
-      this.roomRepository = new RoomRepository()
+/**
+ * Read the selected data store from the environment
+ */
+export function getDataStore(env: NodeJS.ProcessEnv = process.env): DataStore {
+  const store = env.DATA_STORE || 'prisma'
+  if (store !== 'prisma' && store !== 'memory') {
+    throw new Error(`Unknown DATA_STORE "${store}"`)
+  }
+  return store
+}
+
+/**
+ * Build the repositories of a data store
+ */
+export function createRepositories(store: DataStore): Repositories {
+  if (store === 'memory') {
+    return {
+      rooms: new MemoryRoomRepository(),
+      members: new MemoryRoomMemberRepository(),
+      spectators: new MemoryRoomSpectatorRepository(),
+      users: new MemoryUserRepository(),
+      sessions: new MemorySessionRepository(),
+      events: new MemoryGameEventRepository(),
+      commands: new MemoryGameCommandRepository()
     }
-    return this.roomRepository
   }
 
-  static getUserRepository(): UserRepository {
-    if (!this.userRepository) {
-      this.userRepository = new UserRepository()
+  return {
+    rooms: new PrismaRoomRepository(),
+    members: new PrismaRoomMemberRepository(),
+    spectators: new PrismaRoomSpectatorRepository(),
+    users: new PrismaUserRepository(),
+    sessions: new PrismaSessionRepository(),
+    events: new PrismaGameEventRepository(),
+    commands: new PrismaGameCommandRepository()
+  }
+}
+
+export class RepositoryFactory {
+  private static repositories: Repositories
+
+  static getRepositories(): Repositories {
+    if (!this.repositories) {
+      const store = getDataStore()
+      this.repositories = createRepositories(store)
+      if (store !== 'prisma') {
+        console.log(`🗄️ Using the ${store} data store`)
+      }
     }
-    return this.userRepository
+    return this.repositories
   }
 }
 
@@ -294,5 +379,154 @@ export class RepositoryFactory {
 // Global Repository Instances
 // ============================================================================
 
-export const roomRepository = RepositoryFactory.getRoomRepository()
-export const userRepository = RepositoryFactory.getUserRepository()
+const repositories = RepositoryFactory.getRepositories()
+
+export const roomRepository = repositories.rooms
+export const roomMemberRepository = repositories.members
+export const roomSpectatorRepository = repositories.spectators
+export const userRepository = repositories.users
+export const sessionRepository = repositories.sessions
+export const gameEventRepository = repositories.events
+export const gameCommandRepository = repositories.commands
+
+// ============================================================================
+// Game State Mapping
+// ============================================================================
+
+// Safely cast JSON to the expected type, falling back when the shape is wrong
+function safeJsonCast<T>(value: unknown, fallback: T): T {
+  return safeObjectCast(value, (v): v is T => {
+    // Basic validation - check if it's an object for object types
+    if (typeof fallback === 'object' && fallback !== null) {
+      return isObject(v) || isArray(v)
+    }
+    return typeof v === typeof fallback
+  }, fallback)
+}
+
+/**
+ * Build the game state stored in a room, or null when it does not validate
+ */
+export function roomToGameState(room: RoomWithMembers): GameState | null {
+  // Build players from room members and stored data
+  const players: Record<string, Player> = {}
+  const playerTeams = safeJsonCast<Record<string, Team>>(room.playerTeams, {})
+  const playerSeats = safeJsonCast<Record<string, number>>(room.playerSeats, {})
+  const playerReady = safeJsonCast<Record<string, boolean>>(room.playerReady, {})
+
+  room.members.forEach(member => {
+    players[member.userId] = {
+      id: member.userId,
+      name: member.user.name,
+      team: playerTeams[member.userId],
+      seatPosition: playerSeats[member.userId],
+      isReady: playerReady[member.userId] || false,
+      isBot: member.user.isBot || undefined,
+      botDifficulty: isBotDifficulty(member.botDifficulty) ? member.botDifficulty : undefined
+    }
+  })
+
+  // Build turn order from seat positions
+  const turnOrder = Object.values(players)
+    .filter(p => p.seatPosition !== undefined)
+    .sort((a, b) => (a.seatPosition || 0) - (b.seatPosition || 0))
+    .map(p => p.id)
+
+  const bets = toBetHistory(room.playerBets, turnOrder)
+
+  // Build highest bet if exists
+  let highestBet: Bet | undefined = undefined
+  if (room.highestBetUserId && room.highestBetValue !== null) {
+    // Take the time from the bet itself, so every read of the room agrees on it
+    const placed = bets.find(bet => bet.playerId === room.highestBetUserId && bet.value === room.highestBetValue)
+    highestBet = {
+      playerId: room.highestBetUserId,
+      // Rooms saved before highestBetType existed fall back to the numeric value
+      betValue: (room.highestBetType as Bets)
+        || Object.values(Bets).find(bet => BetsNumericValue[bet] === room.highestBetValue)
+        || Bets.SEVEN,
+      value: room.highestBetValue,
+      trump: room.highestBetTrump || false,
+      timestamp: placed?.timestamp ?? room.updatedAt
+    }
+  }
+
+  const gameState = {
+    phase: (room.gamePhase as GamePhase) || GamePhase.TEAM_SELECTION,
+    round: room.currentRound || 1,
+    currentTurn: room.currentTurn || '',
+    dealer: room.dealerUserId || '',
+    starter: room.starterUserId || '',
+    trump: room.trumpColor as CardColor | undefined,
+    turnDeadline: room.turnDeadline ? new Date(room.turnDeadline).getTime() : undefined,
+    highestBet,
+    players,
+    bets,
+    playedCards: safeJsonCast<Record<string, Card>>(room.playedCards, {}),
+    playerHands: safeJsonCast<Record<string, Card[]>>(room.playerHands, {}),
+    wonTricks: safeJsonCast<Record<string, number>>(room.tricksWon, {}),
+    // Rooms from before card points were tracked kept them in tricksWon
+    cardPoints: safeJsonCast<Record<string, number>>(room.cardPoints ?? room.tricksWon, {}),
+    scores: safeJsonCast<Record<string, number>>(room.gameScores, {}),
+    turnOrder,
+    roundSeeds: toRoundSeeds(room.roundSeeds),
+    trickHistory: safeJsonCast<Record<string, TrickRecord[]>>(room.trickHistory, {}),
+    matchTarget: toMatchTarget(room.matchTargetType, room.matchTargetValue),
+    rules: toRuleSet(room.rules),
+    matchResult: (room.matchResult as MatchResult | null) ?? undefined,
+    version: room.stateVersion ?? 0,
+    commandSequence: room.commandSequence ?? 0
+  }
+
+  return validateGameState(gameState)
+}
+
+/**
+ * The room columns that store a game state
+ */
+export function gameStateToRoomFields(gameState: GameState): RoomGameFields {
+  // Extract team assignments
+  const playerTeams: Record<string, string> = {}
+  const playerSeats: Record<string, number> = {}
+  const playerReady: Record<string, boolean> = {}
+
+  Object.values(gameState.players).forEach((player: Player) => {
+    if (player.team) playerTeams[player.id] = player.team
+    if (player.seatPosition !== undefined) playerSeats[player.id] = player.seatPosition
+    playerReady[player.id] = player.isReady
+  })
+
+  const matchTarget = gameState.matchTarget ?? DEFAULT_MATCH_TARGET
+
+  return {
+    gamePhase: gameState.phase,
+    currentRound: gameState.round,
+    currentTurn: gameState.currentTurn || null,
+    dealerUserId: gameState.dealer || null,
+    starterUserId: gameState.starter || null,
+    trumpColor: gameState.trump || null,
+    turnDeadline: gameState.turnDeadline ? new Date(gameState.turnDeadline) : null,
+
+    // JSON fields
+    playerHands: gameState.playerHands,
+    playedCards: gameState.playedCards,
+    playerBets: gameState.bets,
+    playerTeams,
+    playerSeats,
+    playerReady,
+    tricksWon: gameState.wonTricks,
+    cardPoints: gameState.cardPoints,
+    gameScores: gameState.scores,
+    roundSeeds: gameState.roundSeeds || {},
+    trickHistory: gameState.trickHistory || {},
+    matchTargetType: matchTarget.type,
+    matchTargetValue: matchTarget.value,
+    matchResult: gameState.matchResult ?? null,
+
+    // Highest bet
+    highestBetUserId: gameState.highestBet?.playerId || null,
+    highestBetValue: gameState.highestBet?.value ?? null,
+    highestBetType: gameState.highestBet?.betValue ?? null,
+    highestBetTrump: gameState.highestBet?.trump ?? null
+  }
+}
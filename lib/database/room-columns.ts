@@ -0,0 +1,16 @@
+/**
+ * Room Columns
+ *
+ * Column metadata of the `Room` table shared by the repository implementations.
+ * Kept apart from `lib/database/repository.ts` so the implementations do not
+ * import the module that instantiates them.
+ */
+
+import type { RoomData } from "./repository"
+
+// Columns stored as JSON
+export const ROOM_JSON_FIELDS: (keyof RoomData)[] = [
+  'playerHands', 'playedCards', 'playerBets', 'playerTeams', 'playerSeats', 'playerReady',
+  'tricksWon', 'cardPoints', 'gameScores', 'roundHistory', 'roundSeeds', 'trickHistory',
+  'matchResult', 'rules'
+]
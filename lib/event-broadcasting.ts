@@ -7,7 +7,7 @@
  * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
  */
 
-import { GamePhase, Team, Bets } from "./game-types"
+import { GamePhase, GameState, Team, Bet, Bets, RoundTally } from "./game-types"
 import { broadcastGameEvent, createGameEvent } from "./events"
 
 // ============================================================================
@@ -70,14 +70,16 @@ export async function broadcastBetChange(
   roomId: string,
   userId: string,
   playerName: string,
-  bets: Record<string, any>,
+  bets: Bet[],
   currentTurn: string,
-  phase: GamePhase
+  phase: GamePhase,
+  turnDeadline?: number
 ): Promise<boolean> {
   const event = createGameEvent('BETS_CHANGED', roomId, {
     bets,
     currentTurn,
     phase,
+    turnDeadline,
     playerName,
     playerId: userId
   }, userId)
@@ -85,6 +87,28 @@ export async function broadcastBetChange(
   return await broadcastGameEvent(event)
 }
 
+/**
+ * Broadcast a throw-in: everyone passed and the next dealer deals again
+ */
+export async function broadcastRoundRedealt(
+  roomId: string,
+  userId: string,
+  gameState: GameState,
+  previousDealer: string
+): Promise<boolean> {
+  const event = createGameEvent('ROUND_REDEALT', roomId, {
+    phase: gameState.phase,
+    round: gameState.round,
+    dealer: gameState.dealer,
+    previousDealer,
+    currentTurn: gameState.currentTurn,
+    bets: gameState.bets,
+    turnDeadline: gameState.turnDeadline
+  }, userId)
+
+  return await broadcastGameEvent(event)
+}
+
 /**
  * Broadcast betting completion
  */
@@ -142,6 +166,7 @@ export async function broadcastTrickChange(
   currentTurn: string,
   phase: GamePhase,
   wonTricks: Record<string, number>,
+  cardPoints: Record<string, number>,
   winner: string,
   winnerName: string
 ): Promise<boolean> {
@@ -150,6 +175,7 @@ export async function broadcastTrickChange(
     currentTurn,
     phase,
     wonTricks,
+    cardPoints,
     winner,
     winnerName
   }, userId)
@@ -170,10 +196,11 @@ export async function broadcastRoundChange(
   phase: GamePhase,
   round: number,
   scores: Record<string, number>,
-  bets: Record<string, any>,
+  bets: Bet[],
   currentTurn: string,
   roundScores?: any,
-  completedRound?: number
+  completedRound?: number,
+  roundTallies?: Record<Team, RoundTally>
 ): Promise<boolean> {
   const event = createGameEvent('ROUND_CHANGED', roomId, {
     phase,
@@ -182,7 +209,8 @@ export async function broadcastRoundChange(
     bets,
     currentTurn,
     roundScores,
-    completedRound
+    completedRound,
+    roundTallies
   }, userId)
 
   return await broadcastGameEvent(event)
@@ -8,7 +8,7 @@
  */
 
 import { GameEvent } from "./events"
-import { GamePhase } from "./game-types"
+import { GamePhase, GameState, Card } from "./game-types"
 
 // ============================================================================
 // Event Filter Types
@@ -33,10 +33,88 @@ export interface RoutingRule {
   name: string
   condition: (event: GameEvent, context: FilterContext) => boolean
   action: 'allow' | 'deny' | 'modify' | 'redirect'
-  modifier?: (event: GameEvent) => GameEvent
+  modifier?: (event: GameEvent, context: FilterContext) => GameEvent
   redirectTo?: string[]
 }
 
+// ============================================================================
+// Hand Privacy
+// ============================================================================
+
+/**
+ * Reduce all hands to what a single viewer may see: their own hand in full,
+ * every other hand as a card count. Viewers without a seat see counts only.
+ */
+export function redactPlayerHands(
+  playerHands: Record<string, Card[]>,
+  viewerId?: string
+): { playerHands: Record<string, Card[]>; handCounts: Record<string, number> } {
+  const visibleHands: Record<string, Card[]> = {}
+  const handCounts: Record<string, number> = {}
+
+  for (const [playerId, hand] of Object.entries(playerHands)) {
+    handCounts[playerId] = hand.length
+    if (viewerId && playerId === viewerId) {
+      visibleHands[playerId] = hand
+    }
+  }
+
+  return { playerHands: visibleHands, handCounts }
+}
+
+/**
+ * Project a full game state into the view of a single player
+ */
+export function projectGameStateForViewer(gameState: GameState, viewerId?: string): GameState {
+  const { playerHands, handCounts } = redactPlayerHands(gameState.playerHands, viewerId)
+  return { ...gameState, playerHands, handCounts }
+}
+
+/**
+ * Redact hand data from an event for a single viewer.
+ * Handles both nested (`event.data.playerHands`) and flattened payloads.
+ */
+export function redactEventForViewer(event: GameEvent, viewerId?: string): GameEvent {
+  const raw = event as unknown as Record<string, unknown>
+  let redacted = raw
+
+  if (isHandMap(raw.playerHands)) {
+    redacted = { ...redacted, ...redactPlayerHands(raw.playerHands, viewerId) }
+  }
+
+  const data = raw.data as Record<string, unknown> | undefined
+  if (data && isHandMap(data.playerHands)) {
+    redacted = { ...redacted, data: { ...data, ...redactPlayerHands(data.playerHands, viewerId) } }
+  }
+
+  return redacted as unknown as GameEvent
+}
+
+/**
+ * Check whether an event still exposes a hand that is not the viewer's own
+ */
+export function exposesForeignHands(event: GameEvent, viewerId?: string): boolean {
+  const raw = event as unknown as Record<string, unknown>
+  const data = raw.data as Record<string, unknown> | undefined
+  const handMaps = [raw.playerHands, data?.playerHands].filter(isHandMap)
+
+  return handMaps.some(hands => Object.keys(hands).some(playerId => playerId !== viewerId))
+}
+
+/**
+ * Phase an event reports the game to be in, if it carries one
+ * (nested in `event.data` or flattened onto the event)
+ */
+export function getEventPhase(event: GameEvent): GamePhase | undefined {
+  const raw = event as unknown as Record<string, unknown>
+  const data = raw.data as Record<string, unknown> | undefined
+  return (raw.phase ?? data?.phase) as GamePhase | undefined
+}
+
+function isHandMap(value: unknown): value is Record<string, Card[]> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
 // ============================================================================
 // Built-in Event Filters
 // ============================================================================
@@ -46,10 +124,11 @@ export interface RoutingRule {
  */
 export const roomMembershipFilter: EventFilter = {
   name: 'roomMembership',
-  description: 'Only allow events for rooms the user is a member of',
+  description: 'Only allow events for the room the user is a member or spectator of',
   filter: (event: GameEvent, context: FilterContext) => {
     if (!context.roomId || !event.roomId) return true
-    return context.roomId === event.roomId && context.isPlayerInRoom === true
+    // Non-members only ever watch as spectators
+    return context.roomId === event.roomId && (context.isPlayerInRoom === true || context.userRole === 'spectator')
   }
 }
 
@@ -62,13 +141,8 @@ export const spectatorFilter: EventFilter = {
   filter: (event: GameEvent, context: FilterContext) => {
     if (context.userRole !== 'spectator') return true
     
-    // Spectators cannot see player hands or private betting info
-    const restrictedEvents = ['CARDS_CHANGED']
-    if (restrictedEvents.includes(event.type)) {
-      return false
-    }
-    
-    return true
+    // Spectators never see a hand; events are redacted to card counts by privateEventRouting first
+    return !exposesForeignHands(event, undefined)
   }
 }
 
@@ -81,16 +155,26 @@ export const gamePhaseFilter: EventFilter = {
   filter: (event: GameEvent, context: FilterContext) => {
     if (!context.gamePhase) return true
     
+    // Events that report a phase change or refresh the state are always relevant
+    if (getEventPhase(event) !== undefined) return true
+
     const phaseEventMap: Record<GamePhase, string[]> = {
-      [GamePhase.TEAMS]: ['TEAM_SELECTED', 'TEAMS_CHANGED', 'BETTING_PHASE_STARTED'],
-      [GamePhase.BETS]: ['BET_PLACED', 'BETS_CHANGED', 'BETTING_COMPLETE'],
-      [GamePhase.CARDS]: ['CARDS_CHANGED', 'TRICK_CHANGED', 'TRICK_COMPLETE'],
-      [GamePhase.TRICK_SCORING]: ['TRICK_CHANGED', 'ROUND_CHANGED'],
-      [GamePhase.ROUND_SCORING]: ['ROUND_CHANGED', 'ROUND_COMPLETE']
+      [GamePhase.WAITING]: ['TEAM_SELECTED', 'TEAMS_CHANGED'],
+      [GamePhase.TEAM_SELECTION]: ['TEAM_SELECTED', 'TEAMS_CHANGED', 'BETTING_PHASE_STARTED'],
+      // A round's closing events arrive after ROUND_CHANGED has moved the game on to betting
+      [GamePhase.BETS]: ['BET_PLACED', 'BETS_CHANGED', 'BETTING_COMPLETE', 'ROUND_REDEALT', 'ROUND_COMPLETE', 'ROUND_SCORING_COMPLETE'],
+      [GamePhase.CARDS]: ['CARDS_CHANGED', 'TRICK_CHANGED', 'TRICK_COMPLETE', 'ROUND_CHANGED', 'ROUND_COMPLETE', 'ROUND_SCORING_COMPLETE'],
+      [GamePhase.TRICK_SCORING]: ['TRICK_CHANGED', 'TRICK_COMPLETE', 'ROUND_CHANGED', 'ROUND_COMPLETE', 'ROUND_SCORING_COMPLETE'],
+      [GamePhase.ROUND_END]: ['TRICK_COMPLETE', 'ROUND_CHANGED', 'ROUND_COMPLETE', 'ROUND_SCORING_COMPLETE'],
+      [GamePhase.GAME_END]: ['TRICK_COMPLETE', 'ROUND_CHANGED', 'ROUND_COMPLETE', 'ROUND_SCORING_COMPLETE', 'GAME_ENDED']
     }
     
     const allowedEvents = phaseEventMap[context.gamePhase] || []
-    const systemEvents = ['CONNECTED', 'HEARTBEAT', 'GAME_STATE_UPDATED', 'GAME_RESET']
+    const systemEvents = [
+      'CONNECTED', 'HEARTBEAT', 'RESYNC', 'ROOM_UPDATED', 'GAME_STATE_UPDATED', 'GAME_RESET',
+      'PLAYER_JOINED', 'PLAYER_LEFT', 'PLAYER_READY_CHANGED', 'SPECTATORS_CHANGED',
+      'CHAT_MESSAGE', 'EMOTE', 'TYPING'
+    ]
     
     return allowedEvents.includes(event.type) || systemEvents.includes(event.type)
   }
@@ -108,12 +192,8 @@ export const permissionFilter: EventFilter = {
     
     // Players can see most events
     if (context.userRole === 'player') {
-      // Hide other players' private data
-      if (event.type === 'CARDS_CHANGED' && event.data?.playerHands) {
-        // Only show own hand
-        return event.userId === context.userId
-      }
-      return true
+      // Never deliver another player's hand
+      return !exposesForeignHands(event, context.userId)
     }
     
     // Spectators have limited access
@@ -126,25 +206,17 @@ export const permissionFilter: EventFilter = {
 // ============================================================================
 
 /**
- * Route private events only to relevant players
+ * Redact private hand data down to the receiving user's own hand
  */
 export const privateEventRouting: RoutingRule = {
   name: 'privateEvents',
-  condition: (event: GameEvent) => {
-    return ['CARDS_CHANGED'].includes(event.type) && event.data?.playerHands
+  condition: (event: GameEvent, context: FilterContext) => {
+    return exposesForeignHands(event, context.userId)
   },
   action: 'modify',
-  modifier: (event: GameEvent) => {
-    // Remove sensitive data for broadcast, keep only public info
-    if (event.data?.playerHands) {
-      const modifiedEvent = { ...event }
-      modifiedEvent.data = {
-        ...event.data,
-        playerHands: undefined // Remove private hand data
-      }
-      return modifiedEvent
-    }
-    return event
+  modifier: (event: GameEvent, context: FilterContext) => {
+    // Keep the viewer's own hand, reduce everyone else's to card counts
+    return redactEventForViewer(event, context.userId)
   }
 }
 
@@ -165,7 +237,7 @@ export const teamEventRouting: RoutingRule = {
 export const systemEventRouting: RoutingRule = {
   name: 'systemEvents',
   condition: (event: GameEvent) => {
-    return ['CONNECTED', 'HEARTBEAT', 'GAME_RESET'].includes(event.type)
+    return ['CONNECTED', 'HEARTBEAT', 'RESYNC', 'GAME_RESET'].includes(event.type)
   },
   action: 'allow'
 }
@@ -231,7 +303,7 @@ export class EventFilterEngine {
           
           case 'modify':
             if (rule.modifier) {
-              modifiedEvent = rule.modifier(modifiedEvent)
+              modifiedEvent = rule.modifier(modifiedEvent, context)
             }
             break
           
@@ -0,0 +1,440 @@
+/**
+ * Cross-Instance Event Transports
+ *
+ * Transports for `EventStore` that fan events out to every server instance,
+ * so players connected to different instances see each other's moves.
+ * `EVENT_TRANSPORT` selects the transport at startup (see `instrumentation.ts`):
+ *
+ * - `memory` (default): in-process only, for single-instance deployments
+ * - `postgres`: Postgres `LISTEN/NOTIFY` on `EVENT_TRANSPORT_URL` (defaults to `DIRECT_URL`,
+ *   then `DATABASE_URL`; LISTEN needs a session, so not a transaction-mode pooler)
+ * - any name registered with `registerPubSubAdapter`, e.g. a Redis adapter
+ *
+ * Server-only: this module opens database connections.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { Client } from "pg"
+import { eventStore, EventStore, InProcessEventTransport, type EventTransport, type GameEvent } from "./events"
+import { readGameEvents, toSseEvent } from "./game-event-log"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Minimal publish/subscribe surface a broker has to offer to carry game events.
+ * Messages from one publisher must reach subscribers in the order `publish` was called.
+ */
+export interface PubSubAdapter {
+  readonly name: string
+  subscribe(channel: string, onMessage: (message: string) => void): Promise<void>
+  publish(channel: string, message: string): Promise<void>
+  close(): Promise<void>
+}
+
+export type PubSubAdapterFactory = (config: EventTransportConfig) => PubSubAdapter
+
+export interface EventTransportConfig {
+  transport: string
+  url?: string
+  channel: string
+}
+
+export interface PubSubTransportOptions {
+  channel?: string
+  instanceId?: string
+  maxMessageBytes?: number // larger events are sent as a reference into the event log
+  loadEvent?: (roomId: string, sequence: number) => Promise<GameEvent | null>
+  gapTimeoutMs?: number // how long events wait for a missing earlier sequence before the gap is filled from the log
+}
+
+// What goes over the wire: either the event itself or a pointer to it in the event log
+interface TransportEnvelope {
+  origin: string
+  event?: GameEvent
+  ref?: { roomId: string; sequence: number }
+}
+
+// Delivery position of one room: events ahead of `next` wait in `pending` until the gap closes
+interface RoomSequence {
+  next: number
+  pending: Map<number, GameEvent>
+  gapTimer: ReturnType<typeof setTimeout> | null
+}
+
+export const DEFAULT_EVENT_CHANNEL = "game_events"
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+export const POSTGRES_MAX_PAYLOAD_BYTES = 7900
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 30000
+
+const DEFAULT_GAP_TIMEOUT_MS = 1000
+// Longer gaps are not loaded event by event; listeners get a RESYNC instead
+const MAX_GAP_FILL_EVENTS = 50
+
+// ============================================================================
+// Pub/Sub Transport
+// ============================================================================
+
+/**
+ * Event transport over any pub/sub broker. Events are delivered to the local
+ * instance straight away; messages from the broker that this instance sent
+ * itself are skipped, so every listener sees each event exactly once.
+ *
+ * Events of a room are delivered in sequence order, whichever instance emitted
+ * them: broker messages are handled one at a time, and an event that arrives
+ * ahead of a missing sequence is held back until the gap closes. A gap still
+ * open after `gapTimeoutMs` is filled from the event log, or replaced by a
+ * RESYNC when the log cannot fill it.
+ */
+export class PubSubEventTransport implements EventTransport {
+  readonly name: string
+  private readonly channel: string
+  private readonly instanceId: string
+  private readonly maxMessageBytes: number
+  private readonly loadEvent?: (roomId: string, sequence: number) => Promise<GameEvent | null>
+  private readonly gapTimeoutMs: number
+  private readonly rooms: Map<string, RoomSequence> = new Map()
+  private receiving: Promise<void> = Promise.resolve()
+  private deliver: ((event: GameEvent) => void) | null = null
+
+  constructor(private readonly adapter: PubSubAdapter, options: PubSubTransportOptions = {}) {
+    this.name = adapter.name
+    this.channel = options.channel ?? DEFAULT_EVENT_CHANNEL
+    this.instanceId = options.instanceId ?? `inst_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+    this.maxMessageBytes = options.maxMessageBytes ?? Infinity
+    this.loadEvent = options.loadEvent
+    this.gapTimeoutMs = options.gapTimeoutMs ?? DEFAULT_GAP_TIMEOUT_MS
+  }
+
+  async start(deliver: (event: GameEvent) => void): Promise<void> {
+    this.deliver = deliver
+    await this.adapter.subscribe(this.channel, message => {
+      this.enqueue(() => this.receive(message))
+    })
+  }
+
+  // Nothing is awaited before `adapter.publish`, so un-awaited emits reach the broker in emit order
+  async publish(event: GameEvent): Promise<void> {
+    this.deliverInOrder(event)
+
+    let message = JSON.stringify({ origin: this.instanceId, event } satisfies TransportEnvelope)
+    if (Buffer.byteLength(message) > this.maxMessageBytes) {
+      const sequence = (event as { sequence?: number }).sequence
+      if (sequence === undefined || !this.loadEvent) {
+        console.error(`❌ ${event.type} for room ${event.roomId} is too large for ${this.name} and has no stored copy; other instances will miss it`)
+        return
+      }
+      message = JSON.stringify({ origin: this.instanceId, ref: { roomId: event.roomId, sequence } } satisfies TransportEnvelope)
+    }
+
+    await this.adapter.publish(this.channel, message)
+  }
+
+  async close(): Promise<void> {
+    this.deliver = null
+    for (const room of this.rooms.values()) {
+      if (room.gapTimer) clearTimeout(room.gapTimer)
+    }
+    this.rooms.clear()
+    await this.adapter.close()
+  }
+
+  // Handle broker messages one at a time, so a message waiting on the event log is not overtaken
+  private enqueue(task: () => Promise<void>): void {
+    this.receiving = this.receiving.then(task)
+  }
+
+  private async receive(message: string): Promise<void> {
+    try {
+      const envelope = JSON.parse(message) as TransportEnvelope
+      if (envelope.origin === this.instanceId) return
+
+      let event = envelope.event ?? null
+      if (!event && envelope.ref && this.loadEvent) {
+        event = await this.loadEvent(envelope.ref.roomId, envelope.ref.sequence)
+      }
+
+      if (event) {
+        this.deliverInOrder(event)
+      }
+    } catch (error) {
+      console.error(`Failed to handle ${this.name} event message:`, error)
+    }
+  }
+
+  // Events without a sequence were never stored and go straight through.
+  // A room's position starts at the first event this instance sees for it.
+  private deliverInOrder(event: GameEvent): void {
+    const sequence = (event as { sequence?: number }).sequence
+    if (sequence === undefined) {
+      this.deliver?.(event)
+      return
+    }
+
+    let room = this.rooms.get(event.roomId)
+    if (!room) {
+      room = { next: sequence, pending: new Map(), gapTimer: null }
+      this.rooms.set(event.roomId, room)
+    }
+
+    // Already delivered, or covered by a RESYNC
+    if (sequence < room.next || room.pending.has(sequence)) return
+
+    room.pending.set(sequence, event)
+    this.drain(event.roomId, room)
+  }
+
+  private drain(roomId: string, room: RoomSequence): void {
+    while (room.pending.has(room.next)) {
+      const event = room.pending.get(room.next)!
+      room.pending.delete(room.next)
+      room.next++
+      this.deliver?.(event)
+    }
+
+    if (room.pending.size === 0) {
+      if (room.gapTimer) clearTimeout(room.gapTimer)
+      room.gapTimer = null
+    } else if (!room.gapTimer) {
+      room.gapTimer = setTimeout(() => {
+        room.gapTimer = null
+        this.enqueue(() => this.fillGap(roomId, room))
+      }, this.gapTimeoutMs)
+    }
+  }
+
+  private async fillGap(roomId: string, room: RoomSequence): Promise<void> {
+    if (room.pending.size === 0 || this.rooms.get(roomId) !== room) return
+
+    const start = room.next
+    const end = Math.min(...room.pending.keys())
+    let missing: GameEvent[] | null = null
+
+    if (end - start <= MAX_GAP_FILL_EVENTS && this.loadEvent) {
+      const loaded = await Promise.all(
+        Array.from({ length: end - start }, (_, i) => this.loadEvent!(roomId, start + i).catch(() => null))
+      )
+      if (loaded.every(event => event !== null)) {
+        missing = loaded as GameEvent[]
+      }
+    }
+
+    // Local emits may have closed part of the gap while the log was read
+    if (room.next !== start) {
+      this.drain(roomId, room)
+      return
+    }
+
+    if (missing) {
+      missing.forEach((event, i) => room.pending.set(start + i, event))
+    } else {
+      console.warn(`⚠️ Events ${start}-${end - 1} of room ${roomId} never arrived over ${this.name}; sending RESYNC`)
+      room.next = end - 1
+      room.pending.set(end - 1, { type: "RESYNC", roomId, sequence: end - 1, reason: "transport_gap" })
+    }
+    this.drain(roomId, room)
+  }
+}
+
+// ============================================================================
+// Postgres LISTEN/NOTIFY
+// ============================================================================
+
+/**
+ * Pub/sub over Postgres `LISTEN/NOTIFY`. One dedicated connection listens and
+ * reconnects with backoff when it drops. Notifications go out one at a time over
+ * a second dedicated connection, so they are sent in the order they were published.
+ */
+export class PostgresPubSubAdapter implements PubSubAdapter {
+  readonly name = "postgres"
+  private listener: Client | null = null
+  private publisher: Client | null = null
+  private publishing: Promise<void> = Promise.resolve()
+  private readonly handlers: Map<string, (message: string) => void> = new Map()
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private reconnectAttempts = 0
+  private closed = false
+
+  constructor(private readonly connectionString: string) {}
+
+  async subscribe(channel: string, onMessage: (message: string) => void): Promise<void> {
+    this.handlers.set(channel, onMessage)
+    if (this.listener) {
+      await this.listener.query(`LISTEN ${this.listener.escapeIdentifier(channel)}`)
+    } else if (!this.reconnectTimer) {
+      await this.connectListener()
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    const sent = this.publishing.then(async () => {
+      const publisher = await this.connectPublisher()
+      await publisher.query("SELECT pg_notify($1, $2)", [channel, message])
+    })
+    this.publishing = sent.catch(() => {})
+    await sent
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    const listener = this.listener
+    this.listener = null
+    await this.publishing
+    const publisher = this.publisher
+    this.publisher = null
+    await Promise.allSettled([listener?.end(), publisher?.end()])
+  }
+
+  // The publisher connects on first use and again after it drops
+  private async connectPublisher(): Promise<Client> {
+    if (this.publisher) return this.publisher
+    if (this.closed) throw new Error("Postgres event publisher is closed")
+
+    const client = new Client({ connectionString: this.connectionString })
+    const drop = () => {
+      if (this.publisher === client) this.publisher = null
+      client.removeAllListeners()
+      client.end().catch(() => {})
+    }
+    client.on("error", error => {
+      console.error("Postgres event publisher error:", error)
+      drop()
+    })
+    client.on("end", drop)
+
+    try {
+      await client.connect()
+    } catch (error) {
+      drop()
+      throw error
+    }
+    this.publisher = client
+    return client
+  }
+
+  private async connectListener(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString })
+    client.on("notification", notification => {
+      const handler = this.handlers.get(notification.channel)
+      if (handler && notification.payload !== undefined) {
+        handler(notification.payload)
+      }
+    })
+    client.on("error", error => {
+      console.error("Postgres event listener error:", error)
+      this.scheduleReconnect(client)
+    })
+    client.on("end", () => this.scheduleReconnect(client))
+
+    try {
+      await client.connect()
+      for (const channel of this.handlers.keys()) {
+        await client.query(`LISTEN ${client.escapeIdentifier(channel)}`)
+      }
+    } catch (error) {
+      client.removeAllListeners()
+      client.end().catch(() => {})
+      throw error
+    }
+    this.listener = client
+    this.reconnectAttempts = 0
+  }
+
+  // Events published while the listener is down never reach this instance's listeners
+  private scheduleReconnect(client: Client): void {
+    if (this.closed || this.listener !== client) return
+    this.listener = null
+    client.removeAllListeners()
+    client.end().catch(() => {})
+    this.retryConnect()
+  }
+
+  private retryConnect(): void {
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS)
+    this.reconnectAttempts++
+    console.warn(`⚠️ Postgres event listener disconnected, reconnecting in ${delay}ms`)
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (this.closed) return
+      this.connectListener().catch(error => {
+        console.error("Postgres event listener reconnect failed:", error)
+        if (!this.closed) this.retryConnect()
+      })
+    }, delay)
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const adapterFactories: Map<string, PubSubAdapterFactory> = new Map([
+  ["postgres", (config: EventTransportConfig) => {
+    if (!config.url) {
+      throw new Error("EVENT_TRANSPORT=postgres needs EVENT_TRANSPORT_URL or DATABASE_URL")
+    }
+    return new PostgresPubSubAdapter(config.url)
+  }]
+])
+
+/**
+ * Make a pub/sub broker selectable as `EVENT_TRANSPORT=<name>`
+ */
+export function registerPubSubAdapter(name: string, factory: PubSubAdapterFactory): void {
+  adapterFactories.set(name, factory)
+}
+
+/**
+ * Read the transport configuration from the environment
+ */
+export function getEventTransportConfig(env: NodeJS.ProcessEnv = process.env): EventTransportConfig {
+  return {
+    transport: env.EVENT_TRANSPORT || "memory",
+    url: env.EVENT_TRANSPORT_URL || env.DIRECT_URL || env.DATABASE_URL,
+    channel: env.EVENT_TRANSPORT_CHANNEL || DEFAULT_EVENT_CHANNEL
+  }
+}
+
+/**
+ * Build the transport a configuration asks for
+ */
+export function createEventTransport(config: EventTransportConfig): EventTransport {
+  if (config.transport === "memory") {
+    return new InProcessEventTransport()
+  }
+
+  const factory = adapterFactories.get(config.transport)
+  if (!factory) {
+    throw new Error(`Unknown EVENT_TRANSPORT "${config.transport}"`)
+  }
+
+  return new PubSubEventTransport(factory(config), {
+    channel: config.channel,
+    maxMessageBytes: config.transport === "postgres" ? POSTGRES_MAX_PAYLOAD_BYTES : undefined,
+    loadEvent: loadStoredEvent
+  })
+}
+
+/**
+ * Point an EventStore (the global one by default) at the configured transport
+ */
+export async function configureEventStore(store: EventStore = eventStore, config = getEventTransportConfig()): Promise<void> {
+  if (store.getTransportName() !== "in-process" || config.transport === "memory") return
+
+  await store.setTransport(createEventTransport(config))
+  console.log(`📡 EventStore using ${config.transport} transport on channel ${config.channel}`)
+}
+
+// Fetch an event that was too large to send over the broker from the room's event log
+async function loadStoredEvent(roomId: string, sequence: number): Promise<GameEvent | null> {
+  const page = await readGameEvents(roomId, { after: sequence - 1, limit: 1 })
+  const stored = page.events[0]
+  return stored?.sequence === sequence ? (toSseEvent(stored) as unknown as GameEvent) : null
+}
@@ -19,7 +19,8 @@ import {
   BetsChangedData,
   CardsChangedData,
   TrickChangedData,
-  RoundChangedData
+  RoundChangedData,
+  EVENT_TYPES
 } from "./events"
 import { 
   isBaseEventData, 
@@ -28,7 +29,9 @@ import {
   isCardEventData, 
   isRoundEventData,
   isString,
+  isBoolean,
   isObject,
+  isNumber,
   isGamePhase
 } from "./type-guards"
 
@@ -48,6 +51,32 @@ export interface EventValidationResult extends ValidationResult {
   userId?: string
 }
 
+// ============================================================================
+// Client Events
+// ============================================================================
+
+/**
+ * Event types players may send themselves; everything else is server-originated
+ */
+export const CLIENT_EVENT_TYPES = [
+  EVENT_TYPES.CHAT_MESSAGE,
+  EVENT_TYPES.EMOTE,
+  EVENT_TYPES.TYPING
+] as const
+
+export type ClientEventType = typeof CLIENT_EVENT_TYPES[number]
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500
+
+export const ALLOWED_EMOTES = ['👍', '👎', '😂', '😮', '😢', '😡', '🎉', '🤔'] as const
+
+/**
+ * Check whether a client may send events of this type
+ */
+export function isClientEventType(type: unknown): type is ClientEventType {
+  return CLIENT_EVENT_TYPES.includes(type as ClientEventType)
+}
+
 // ============================================================================
 // Base Event Validators
 // ============================================================================
@@ -163,8 +192,8 @@ function validateBetsChangedData(data: any): ValidationResult {
   }
 
   // Optional validation - don't fail if fields are missing
-  if (data.bets && !isObject(data.bets)) {
-    warnings.push("Bets should be an object")
+  if (data.bets && !Array.isArray(data.bets)) {
+    warnings.push("Bets should be an array")
   }
 
   if (data.currentTurn && !isString(data.currentTurn)) {
@@ -175,6 +204,10 @@ function validateBetsChangedData(data: any): ValidationResult {
     warnings.push("Phase should be a valid GamePhase")
   }
 
+  if (data.turnDeadline !== undefined && !isNumber(data.turnDeadline)) {
+    warnings.push("Turn deadline should be a number")
+  }
+
   return {
     isValid: true, // Always return valid for now
     errors,
@@ -217,6 +250,10 @@ function validateCardsChangedData(data: any): ValidationResult {
     warnings.push("Player hands should be an object")
   }
 
+  if (data.turnDeadline !== undefined && !isNumber(data.turnDeadline)) {
+    warnings.push("Turn deadline should be a number")
+  }
+
   return {
     isValid: true, // Always return valid for now
     errors,
@@ -259,6 +296,14 @@ function validateTrickChangedData(data: any): ValidationResult {
     warnings.push("Won tricks should be an object")
   }
 
+  if (data.cardPoints && !isObject(data.cardPoints)) {
+    warnings.push("Card points should be an object")
+  }
+
+  if (data.turnDeadline !== undefined && !isNumber(data.turnDeadline)) {
+    warnings.push("Turn deadline should be a number")
+  }
+
   return {
     isValid: true, // Always return valid for now
     errors,
@@ -297,8 +342,16 @@ function validateRoundChangedData(data: any): ValidationResult {
     warnings.push("Scores should be an object")
   }
 
-  if (data.bets && !isObject(data.bets)) {
-    warnings.push("Bets should be an object")
+  if (data.bets && !Array.isArray(data.bets)) {
+    warnings.push("Bets should be an array")
+  }
+
+  if (data.roundTallies && !isObject(data.roundTallies)) {
+    warnings.push("Round tallies should be an object")
+  }
+
+  if (data.turnDeadline !== undefined && !isNumber(data.turnDeadline)) {
+    warnings.push("Turn deadline should be a number")
   }
 
   if (data.currentTurn && !isString(data.currentTurn)) {
@@ -312,6 +365,63 @@ function validateRoundChangedData(data: any): ValidationResult {
   }
 }
 
+/**
+ * Validate SpectatorsChangedData
+ */
+function validateSpectatorsChangedData(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!isObject(data) || !isNumber(data.spectatorCount) || data.spectatorCount < 0) {
+    errors.push("spectatorCount must be a non-negative number")
+  }
+  if (!isObject(data) || !isBoolean(data.joined)) {
+    errors.push("joined must be a boolean")
+  }
+
+  return { isValid: errors.length === 0, errors, warnings: [] }
+}
+
+/**
+ * Validate ChatEventData
+ */
+function validateChatEventData(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!isObject(data) || !isString(data.message) || data.message.trim().length === 0) {
+    errors.push("Chat message must be a non-empty string")
+  } else if (data.message.length > MAX_CHAT_MESSAGE_LENGTH) {
+    errors.push(`Chat message must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters`)
+  }
+
+  return { isValid: errors.length === 0, errors, warnings: [] }
+}
+
+/**
+ * Validate EmoteEventData
+ */
+function validateEmoteEventData(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!isObject(data) || !(ALLOWED_EMOTES as readonly string[]).includes(data.emote)) {
+    errors.push(`Emote must be one of ${ALLOWED_EMOTES.join(' ')}`)
+  }
+
+  return { isValid: errors.length === 0, errors, warnings: [] }
+}
+
+/**
+ * Validate TypingEventData
+ */
+function validateTypingEventData(data: unknown): ValidationResult {
+  const errors: string[] = []
+
+  if (!isObject(data) || !isBoolean(data.isTyping)) {
+    errors.push("isTyping must be a boolean")
+  }
+
+  return { isValid: errors.length === 0, errors, warnings: [] }
+}
+
 // ============================================================================
 // Main Event Validation Function
 // ============================================================================
@@ -366,6 +476,7 @@ export function validateGameEvent(event: any): EventValidationResult {
     case 'BET_PLACED':
     case 'BETTING_COMPLETE':
     case 'BETTING_PHASE_STARTED':
+    case 'ROUND_REDEALT':
       dataValidation = validateEventData(event.data, isBettingEventData, event.type)
       break
     
@@ -375,9 +486,26 @@ export function validateGameEvent(event: any): EventValidationResult {
     
     case 'ROUND_COMPLETE':
     case 'ROUND_SCORING_COMPLETE':
+    case 'GAME_ENDED':
       dataValidation = validateEventData(event.data, isObject, event.type)
       break
     
+    case 'SPECTATORS_CHANGED':
+      dataValidation = validateSpectatorsChangedData(event.data)
+      break
+
+    case 'CHAT_MESSAGE':
+      dataValidation = validateChatEventData(event.data)
+      break
+
+    case 'EMOTE':
+      dataValidation = validateEmoteEventData(event.data)
+      break
+
+    case 'TYPING':
+      dataValidation = validateTypingEventData(event.data)
+      break
+
     case 'CONNECTED':
     case 'HEARTBEAT':
       // System events don't require data validation
@@ -412,11 +540,12 @@ export function validateAndSanitizeEvent(event: any): {
   }
 
   // Create sanitized event with only valid fields
+  const data = sanitizeEventData(event.type, event.data)
   const sanitizedEvent: GameEvent = {
     type: event.type,
     roomId: event.roomId,
     ...(event.userId && { userId: event.userId }),
-    ...(event.data && { data: event.data })
+    ...(data && { data })
   } as GameEvent
 
   return {
@@ -426,6 +555,24 @@ export function validateAndSanitizeEvent(event: any): {
   }
 }
 
+/**
+ * Keep only the known fields of client event data, so clients cannot smuggle
+ * extra fields (e.g. `phase`) onto the flattened SSE event
+ */
+function sanitizeEventData(type: string, data: unknown): unknown {
+  const fields = data as Record<string, unknown>
+  switch (type) {
+    case 'CHAT_MESSAGE':
+      return { message: String(fields.message).trim() }
+    case 'EMOTE':
+      return { emote: fields.emote }
+    case 'TYPING':
+      return { isTyping: fields.isTyping }
+    default:
+      return data
+  }
+}
+
 /**
  * Log validation results for debugging
  */
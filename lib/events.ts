@@ -8,7 +8,7 @@
  * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
  */
 
-import { GamePhase, Team, Bets } from "./game-types"
+import { GamePhase, Team, Bet, Bets, MatchResult, MatchTarget, RoundTally } from "./game-types"
 
 // ============================================================================
 // Base Event Data Interfaces
@@ -47,6 +47,8 @@ export interface BettingEventData extends BaseEventData {
   allBetsComplete?: boolean
   turnOrder?: string[]
   currentTurn?: string
+  turnDeadline?: number       // When the next player runs out of time (epoch ms), if turns are timed
+  timedOut?: boolean          // The bet was made for a player whose turn ran out
 }
 
 /**
@@ -58,6 +60,8 @@ export interface CardEventData extends BaseEventData {
   winner?: string
   winnerName?: string
   remainingCards?: number
+  turnDeadline?: number       // When the next player runs out of time (epoch ms), if turns are timed
+  timedOut?: boolean          // The card was played for a player whose turn ran out
 }
 
 /**
@@ -75,6 +79,16 @@ export interface RoundEventData extends BaseEventData {
   }
 }
 
+/**
+ * Match end event data
+ */
+export interface MatchEndEventData extends BaseEventData {
+  phase: GamePhase
+  matchResult: MatchResult
+  matchTarget?: MatchTarget
+  scores: Record<string, number>
+}
+
 /**
  * General game state event data
  */
@@ -86,6 +100,35 @@ export interface GameStateEventData extends BaseEventData {
   message?: string
 }
 
+/**
+ * Spectators changed event data
+ */
+export interface SpectatorsChangedData extends BaseEventData {
+  spectatorCount: number      // Spectators watching the room now
+  joined: boolean             // Whether the change was someone starting (or stopping) to watch
+}
+
+/**
+ * Chat message sent by a player
+ */
+export interface ChatEventData extends BaseEventData {
+  message: string
+}
+
+/**
+ * Emote sent by a player
+ */
+export interface EmoteEventData extends BaseEventData {
+  emote: string
+}
+
+/**
+ * Typing indicator sent by a player
+ */
+export interface TypingEventData extends BaseEventData {
+  isTyping: boolean
+}
+
 // ============================================================================
 // Granular Update Event Data (for atomic state changes)
 // ============================================================================
@@ -102,11 +145,23 @@ export interface TeamsChangedData extends TeamEventData {
  * Bets changed event - updates only betting-related fields
  */
 export interface BetsChangedData extends BettingEventData {
-  bets: Record<string, any>     // Updated bets
+  bets: Bet[]                   // The auction so far, in bet order
   currentTurn: string           // Next player's turn
   phase: GamePhase              // Current phase
 }
 
+/**
+ * Round redealt event - everyone passed and the hands were thrown in
+ */
+export interface RoundRedealtData extends BettingEventData {
+  phase: GamePhase                    // Still BETS
+  round: number                       // Same round, bid again
+  dealer: string                      // The next dealer
+  previousDealer: string              // The dealer whose hands were thrown in
+  currentTurn: string                 // First bidder of the new auction
+  bets: Bet[]                         // Cleared auction (empty list)
+}
+
 /**
  * Cards changed event - updates only card-related fields
  */
@@ -124,7 +179,8 @@ export interface TrickChangedData extends CardEventData {
   playedCards: Record<string, any>    // Cleared played cards (empty object)
   currentTurn: string                 // Winner starts next trick
   phase: GamePhase                    // Current phase (might change to TRICK_SCORING)
-  wonTricks: Record<string, number>   // Updated trick scores
+  wonTricks: Record<string, number>   // Updated tricks taken
+  cardPoints: Record<string, number>  // Updated card points taken
 }
 
 /**
@@ -134,8 +190,11 @@ export interface RoundChangedData extends RoundEventData {
   phase: GamePhase                    // New phase (usually BETS)
   round: number                       // New round number
   scores: Record<string, number>      // Updated total scores
-  bets: Record<string, any>          // Cleared bets (empty object)
+  bets: Bet[]                         // Cleared auction (empty list)
   currentTurn: string                 // New turn order
+  roundScores?: { teamAScore: number; teamBScore: number; bettingTeamWon: boolean } // Scores from the completed round
+  roundTallies?: Record<Team, RoundTally> // Tricks and card points each team took in the completed round
+  turnDeadline?: number               // When the first bidder of the new round runs out of time
 }
 
 // ============================================================================
@@ -150,12 +209,14 @@ export type GameEvent =
   // System Events
   | { type: "CONNECTED"; roomId?: string }
   | { type: "HEARTBEAT"; roomId?: string }
+  | { type: "RESYNC"; roomId: string; sequence: number; reason: string } // client missed too much to replay; refetch state
   | { type: "ROOM_UPDATED"; roomId: string; data: GameStateEventData }
 
   // Player Events
   | { type: "PLAYER_JOINED"; roomId: string; userId?: string; data: BaseEventData }
   | { type: "PLAYER_LEFT"; roomId: string; userId?: string; data: BaseEventData }
   | { type: "PLAYER_READY_CHANGED"; roomId: string; userId?: string; data: BaseEventData & { ready: boolean; allReady: boolean } }
+  | { type: "SPECTATORS_CHANGED"; roomId: string; userId?: string; data: SpectatorsChangedData }
 
   // Team Events (Granular)
   | { type: "TEAMS_CHANGED"; roomId: string; userId?: string; data: TeamsChangedData }
@@ -166,6 +227,7 @@ export type GameEvent =
   | { type: "BETS_CHANGED"; roomId: string; userId?: string; data: BetsChangedData }
   | { type: "BET_PLACED"; roomId: string; userId?: string; data: BettingEventData }
   | { type: "BETTING_COMPLETE"; roomId: string; userId?: string; data: BettingEventData }
+  | { type: "ROUND_REDEALT"; roomId: string; userId?: string; data: RoundRedealtData }
 
   // Card Events (Granular)
   | { type: "CARDS_CHANGED"; roomId: string; userId?: string; data: CardsChangedData }
@@ -176,22 +238,30 @@ export type GameEvent =
   | { type: "ROUND_CHANGED"; roomId: string; userId?: string; data: RoundChangedData }
   | { type: "ROUND_COMPLETE"; roomId: string; userId?: string; data: RoundEventData }
   | { type: "ROUND_SCORING_COMPLETE"; roomId: string; userId?: string; data: RoundEventData }
+  | { type: "GAME_ENDED"; roomId: string; userId?: string; data: MatchEndEventData }
 
   // Game State Events
   | { type: "GAME_STATE_UPDATED"; roomId: string; data: GameStateEventData }
   | { type: "GAME_RESET"; roomId: string; data: GameStateEventData }
 
+  // Client Events (sent by players through POST /api/game-events/[roomId])
+  | { type: "CHAT_MESSAGE"; roomId: string; userId?: string; data: ChatEventData }
+  | { type: "EMOTE"; roomId: string; userId?: string; data: EmoteEventData }
+  | { type: "TYPING"; roomId: string; userId?: string; data: TypingEventData }
+
 // Event type constants for consistency
 export const EVENT_TYPES = {
   // System
   CONNECTED: "CONNECTED" as const,
   HEARTBEAT: "HEARTBEAT" as const,
+  RESYNC: "RESYNC" as const,
   ROOM_UPDATED: "ROOM_UPDATED" as const,
 
   // Players
   PLAYER_JOINED: "PLAYER_JOINED" as const,
   PLAYER_LEFT: "PLAYER_LEFT" as const,
   PLAYER_READY_CHANGED: "PLAYER_READY_CHANGED" as const,
+  SPECTATORS_CHANGED: "SPECTATORS_CHANGED" as const,
 
   // Teams
   TEAM_SELECTED: "TEAM_SELECTED" as const,
@@ -202,6 +272,7 @@ export const EVENT_TYPES = {
   BET_PLACED: "BET_PLACED" as const,
   BETS_CHANGED: "BETS_CHANGED" as const,
   BETTING_COMPLETE: "BETTING_COMPLETE" as const,
+  ROUND_REDEALT: "ROUND_REDEALT" as const,
 
   // Cards
   CARDS_CHANGED: "CARDS_CHANGED" as const,
@@ -212,10 +283,16 @@ export const EVENT_TYPES = {
   ROUND_COMPLETE: "ROUND_COMPLETE" as const,
   ROUND_CHANGED: "ROUND_CHANGED" as const,
   ROUND_SCORING_COMPLETE: "ROUND_SCORING_COMPLETE" as const,
+  GAME_ENDED: "GAME_ENDED" as const,
 
   // Game State
   GAME_STATE_UPDATED: "GAME_STATE_UPDATED" as const,
   GAME_RESET: "GAME_RESET" as const,
+
+  // Client
+  CHAT_MESSAGE: "CHAT_MESSAGE" as const,
+  EMOTE: "EMOTE" as const,
+  TYPING: "TYPING" as const,
 } as const
 
 export type EventType = typeof EVENT_TYPES[keyof typeof EVENT_TYPES]
@@ -265,6 +342,30 @@ export interface IEventStore {
   logAllListeners(): void
 }
 
+/**
+ * Carries emitted events to every EventStore instance subscribed to a room.
+ * The in-process transport only reaches the current server process;
+ * cross-instance transports live in `lib/event-transports.ts`.
+ */
+export interface EventTransport {
+  readonly name: string
+
+  /**
+   * Start receiving events; `deliver` hands each one to this instance's listeners
+   */
+  start(deliver: (event: GameEvent) => void): Promise<void>
+
+  /**
+   * Send an event to every instance (including this one)
+   */
+  publish(event: GameEvent): Promise<void>
+
+  /**
+   * Stop receiving events and release connections
+   */
+  close(): Promise<void>
+}
+
 // ============================================================================
 // Game Action Result Types
 // ============================================================================
@@ -336,11 +437,34 @@ export type ExtractEventType<T extends GameEvent['type']> = Extract<GameEvent, {
 export type EventDataType<T extends GameEvent['type']> =
   ExtractEventType<T> extends { data: infer D } ? D : never
 
+/**
+ * Delivers events straight to the listeners of the current process
+ */
+export class InProcessEventTransport implements EventTransport {
+  readonly name = "in-process"
+  private deliver: ((event: GameEvent) => void) | null = null
+
+  async start(deliver: (event: GameEvent) => void): Promise<void> {
+    this.deliver = deliver
+  }
+
+  async publish(event: GameEvent): Promise<void> {
+    this.deliver?.(event)
+  }
+
+  async close(): Promise<void> {
+    this.deliver = null
+  }
+}
+
 /**
  * Global EventStore singleton for managing SSE connections and broadcasting events
- * Uses globalThis to ensure the same instance across all server contexts
+ * Uses globalThis to ensure the same instance across all server contexts.
+ * Emitted events go through the store's transport, which fans them out to the
+ * listeners of every instance.
  */
-class EventStore implements IEventStore {
+export class EventStore implements IEventStore {
+  private transport: EventTransport
   private listeners: Map<string, Set<(event: GameEvent) => void>> = new Map()
   private connectionRegistry: Map<string, Set<string>> = new Map()
   private connectionHealth: Map<string, {
@@ -351,8 +475,33 @@ class EventStore implements IEventStore {
     isHealthy: boolean
     errorCount: number
   }> = new Map()
-  constructor() {
-    // EventStore ready
+  constructor(transport: EventTransport = new InProcessEventTransport()) {
+    this.transport = transport
+    void this.transport.start(event => this.deliver(event))
+  }
+
+  /**
+   * Name of the transport events are currently fanned out through
+   */
+  getTransportName(): string {
+    return this.transport.name
+  }
+
+  /**
+   * Switch to another transport, e.g. at server startup. Listeners are kept.
+   */
+  async setTransport(transport: EventTransport): Promise<void> {
+    const previous = this.transport
+    await transport.start(event => this.deliver(event))
+    this.transport = transport
+    await previous.close()
+  }
+
+  /**
+   * Stop the transport (used by scripts so the process can exit)
+   */
+  async close(): Promise<void> {
+    await this.transport.close()
   }
 
   registerConnection(roomId: string, connectionId: string): void {
@@ -412,6 +561,15 @@ class EventStore implements IEventStore {
   }
 
   emit(event: GameEvent): void {
+    this.transport.publish(event).catch(error => {
+      console.error(`Failed to publish event via ${this.transport.name} transport:`, error)
+    })
+  }
+
+  /**
+   * Hand an event received from the transport to this instance's listeners
+   */
+  private deliver(event: GameEvent): void {
     const roomListeners = this.listeners.get(event.roomId)
 
     if (roomListeners && roomListeners.size > 0) {
@@ -435,6 +593,7 @@ class EventStore implements IEventStore {
 
   logAllListeners(): void {
     console.log('📊 SSE Status:')
+    console.log(`  Transport: ${this.transport.name}`)
     console.log(`  Rooms with listeners: ${this.listeners.size}`)
     console.log(`  Rooms with connections: ${this.connectionRegistry.size}`)
     console.log(`  Tracked connections: ${this.connectionHealth.size}`)
@@ -7,10 +7,13 @@
  * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
  */
 
-import { GameState, GamePhase } from "./game-types"
+import { GameState, GamePhase, Team, Bets, BetsNumericValue } from "./game-types"
 import { GameActionResult, ExtendedGameActionResult } from "./events"
 import { validateGameState } from "./type-guards"
 import { broadcastGameEvent } from "./events"
+import { withStateRetry, isStateConflict, STATE_CONFLICT_MESSAGE } from "./optimistic-concurrency"
+import { GameCommand, GameCommandBatch, startCommandLog, toReducerState, settleBetting } from "./game-reducer"
+import { canSelectTeam, canPlaceBet, generateDealSeed, getTurnDeadline } from "./game-logic"
 
 // ============================================================================
 // Action Context and Configuration
@@ -67,26 +70,41 @@ export abstract class BaseGameAction<TInput = any, TOutput = any> {
         return this.createErrorResult('Input validation failed', inputValidation.errors, context)
       }
 
-      // 2. Get current game state
-      const gameState = await this.getGameState(context.roomId)
-      if (!gameState) {
-        return this.createErrorResult('Game state not found', [], context)
-      }
+      // 2-5. Read, validate, apply and save; re-run from a fresh read when the
+      // save loses a compare-and-swap race against another move
+      const outcome = await withStateRetry(async () => {
+        // 2. Get current game state
+        const gameState = await this.getGameState(context.roomId)
+        if (!gameState) {
+          return { error: this.createErrorResult('Game state not found', [], context) }
+        }
 
-      // 3. Validate game state
-      const stateValidation = await this.validateGameState(gameState, context)
-      if (!stateValidation.isValid) {
-        return this.createErrorResult('Game state validation failed', stateValidation.errors, context)
-      }
+        // 3. Validate game state
+        const stateValidation = await this.validateGameState(gameState, context)
+        if (!stateValidation.isValid) {
+          return { error: this.createErrorResult('Game state validation failed', stateValidation.errors, context) }
+        }
 
-      // 4. Execute the action logic
-      const actionResult = await this.executeAction(input, gameState, context)
-      if (!actionResult.success) {
-        return this.createErrorResult(actionResult.error || 'Action execution failed', [], context)
-      }
+        // Rooms without a command log yet start theirs from the state as read
+        const baseState = gameState.commandSequence ? null : toReducerState(gameState)
 
-      // 5. Save the new game state
-      await this.saveGameState(context.roomId, actionResult.gameState!)
+        // 4. Execute the action logic
+        const actionResult = await this.executeAction(input, gameState, context)
+        if (!actionResult.success) {
+          return { error: this.createErrorResult(actionResult.error || 'Action execution failed', [], context) }
+        }
+
+        // 5. Save the new game state
+        const commands = startCommandLog(baseState, actionResult.commands || [])
+        const newGameState = { ...actionResult.gameState!, turnDeadline: getTurnDeadline(gameState, actionResult.gameState!) }
+        const version = await this.saveGameState(context.roomId, newGameState, commands)
+        return { actionResult: { ...actionResult, gameState: { ...newGameState, version } } }
+      })
+
+      if (outcome.error) {
+        return outcome.error
+      }
+      const actionResult = outcome.actionResult!
 
       // 6. Broadcast events
       if (!context.skipBroadcast) {
@@ -97,6 +115,9 @@ export abstract class BaseGameAction<TInput = any, TOutput = any> {
       return this.createSuccessResult(actionResult.gameState!, context, actionResult.data)
 
     } catch (error) {
+      if (isStateConflict(error)) {
+        return this.createErrorResult(STATE_CONFLICT_MESSAGE, [], context)
+      }
       console.error(`Error executing ${this.config.name}:`, error)
       return this.createErrorResult('Internal server error', [], context)
     }
@@ -109,7 +130,7 @@ export abstract class BaseGameAction<TInput = any, TOutput = any> {
     input: TInput, 
     gameState: GameState, 
     context: ActionContext
-  ): Promise<GameActionResult & { data?: TOutput }>
+  ): Promise<GameActionResult & { data?: TOutput; commands?: GameCommand[] }>
 
   protected abstract broadcastEvents(
     gameState: GameState, 
@@ -152,14 +173,17 @@ export abstract class BaseGameAction<TInput = any, TOutput = any> {
   protected async getGameState(roomId: string): Promise<GameState | null> {
     // This would be implemented to get game state from database
     // For now, we'll import the function
-    const { getRoomGameState } = await import('../app/actions/game-actions')
+    const { getRoomGameState } = await import('./room-game-state')
     return await getRoomGameState(roomId)
   }
 
-  protected async saveGameState(roomId: string, gameState: GameState): Promise<void> {
+  /**
+   * Compare-and-swap save; throws StateConflictError if the state moved on since it was read
+   */
+  protected async saveGameState(roomId: string, gameState: GameState, commands: GameCommand[] = []): Promise<number> {
     // This would be implemented to save game state to database
-    const { saveRoomGameState } = await import('../app/actions/game-actions')
-    await saveRoomGameState(roomId, gameState)
+    const { saveRoomGameState } = await import('./room-game-state')
+    return await saveRoomGameState(roomId, gameState, commands)
   }
 
   /**
@@ -213,7 +237,7 @@ export class TeamSelectionAction extends BaseGameAction<{ team: string }, { team
       requiredPhase: GamePhase.TEAM_SELECTION,
       validateInput: (input) => {
         const errors: string[] = []
-        if (!input.team || !['A', 'B'].includes(input.team)) {
+        if (!input.team || !Object.values(Team).includes(input.team as Team)) {
           errors.push('Invalid team selection')
         }
         return { isValid: errors.length === 0, errors }
@@ -222,13 +246,18 @@ export class TeamSelectionAction extends BaseGameAction<{ team: string }, { team
   }
 
   protected async executeAction(input: { team: string }, gameState: GameState, context: ActionContext) {
-    // Import the actual team selection logic
-    const { selectTeam } = await import('../lib/game-logic')
-    const newGameState = selectTeam(gameState, context.userId, input.team as any)
+    if (!canSelectTeam(gameState, context.userId, input.team as Team)) {
+      return { success: false, error: 'Cannot select this team' }
+    }
+
+    // Apply the team selection through the command reducer so it is logged
+    const batch = new GameCommandBatch(gameState)
+    batch.apply({ type: 'TEAM_SELECTED', playerId: context.userId, team: input.team as Team })
     
     return {
       success: true,
-      gameState: newGameState,
+      gameState: batch.state,
+      commands: batch.commands,
       data: { teamChanged: true }
     }
   }
@@ -254,7 +283,7 @@ export class TeamSelectionAction extends BaseGameAction<{ team: string }, { team
 /**
  * Bet placement action
  */
-export class BetPlacementAction extends BaseGameAction<{ betValue: string; trump: boolean }, { betPlaced: boolean }> {
+export class BetPlacementAction extends BaseGameAction<{ betValue: string; trump: boolean }, { betPlaced: boolean; previousDealer?: string }> {
   constructor() {
     super({
       name: 'BET_PLACEMENT',
@@ -263,8 +292,7 @@ export class BetPlacementAction extends BaseGameAction<{ betValue: string; trump
       requiresPlayerTurn: true,
       validateInput: (input) => {
         const errors: string[] = []
-        const validBets = ['6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A']
-        if (!validBets.includes(input.betValue)) {
+        if (!Object.values(Bets).includes(input.betValue as Bets)) {
           errors.push('Invalid bet value')
         }
         if (typeof input.trump !== 'boolean') {
@@ -276,19 +304,32 @@ export class BetPlacementAction extends BaseGameAction<{ betValue: string; trump
   }
 
   protected async executeAction(input: { betValue: string; trump: boolean }, gameState: GameState, context: ActionContext) {
-    const { placeBet } = await import('../lib/game-logic')
-    const newGameState = placeBet(gameState, context.userId, input.betValue as any, input.trump)
-    
+    const betValue = input.betValue as Bets
+    if (!canPlaceBet(gameState, context.userId, { betValue, value: BetsNumericValue[betValue], trump: input.trump })) {
+      return { success: false, error: 'Cannot place this bet' }
+    }
+
+    const batch = new GameCommandBatch(gameState)
+    batch.apply({ type: 'BET_PLACED', playerId: context.userId, betValue, trump: input.trump, timestamp: Date.now() })
+    settleBetting(batch, generateDealSeed())
+    const redealt = batch.commands.some(command => command.type === 'ROUND_REDEALT')
+
     return {
       success: true,
-      gameState: newGameState,
-      data: { betPlaced: true }
+      gameState: batch.state,
+      commands: batch.commands,
+      data: { betPlaced: true, previousDealer: redealt ? gameState.dealer : undefined }
     }
   }
 
-  protected async broadcastEvents(gameState: GameState, context: ActionContext) {
-    const { broadcastBetChange } = await import('./event-broadcasting')
+  protected async broadcastEvents(gameState: GameState, context: ActionContext, data?: { betPlaced: boolean; previousDealer?: string }) {
+    const { broadcastBetChange, broadcastRoundRedealt } = await import('./event-broadcasting')
     const player = gameState.players[context.userId]
+
+    // Everyone passed and the hands were thrown in
+    if (data?.previousDealer) {
+      return await broadcastRoundRedealt(context.roomId, context.userId, gameState, data.previousDealer)
+    }
     
     return await broadcastBetChange(
       context.roomId,
@@ -296,7 +337,8 @@ export class BetPlacementAction extends BaseGameAction<{ betValue: string; trump
       player?.name || 'Unknown',
       gameState.bets,
       gameState.currentTurn,
-      gameState.phase
+      gameState.phase,
+      gameState.turnDeadline
     )
   }
 }
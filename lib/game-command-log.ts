@@ -0,0 +1,133 @@
+/**
+ * Game Command Log
+ *
+ * The command log and state snapshots behind the reducer in `lib/game-reducer.ts`,
+ * stored through `GameCommandRepository` (the `GameCommand` and `GameSnapshot`
+ * tables with Prisma).
+ * Commands are numbered per room from `Room.commandSequence`; a room's state at
+ * any sequence is its latest snapshot or `GAME_INITIALIZED` command at or
+ * before that sequence, with the commands after it replayed on top.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { roomRepository, gameCommandRepository, type NewGameCommand } from "@/lib/database/repository"
+import { GameState } from "./game-types"
+import { GameCommand, getCommandActor, replayGameCommands, toReducerState } from "./game-reducer"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredGameCommand {
+  sequence: number
+  command: GameCommand
+  actorId?: string
+  createdAt: Date
+}
+
+export interface RebuiltGameState {
+  success: boolean
+  gameState?: GameState
+  sequence?: number
+  error?: string
+}
+
+// Take a snapshot every this many commands
+export const SNAPSHOT_INTERVAL = 50
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+/**
+ * Shape commands for the log. They are written by `RoomRepository.saveGameState`,
+ * together with the state they produced.
+ */
+export function toCommandRecords(commands: GameCommand[]): NewGameCommand[] {
+  return commands.map(command => ({
+    type: command.type,
+    actorId: getCommandActor(command) ?? null,
+    payload: command
+  }))
+}
+
+/**
+ * Store a snapshot when the commands `fromSequence`..`toSequence` crossed a
+ * snapshot boundary. Snapshots are rebuilt from the log, never copied from
+ * the live row, so they are exactly what a replay would produce.
+ */
+export async function writeSnapshotIfDue(roomId: string, fromSequence: number, toSequence: number): Promise<void> {
+  if (Math.floor(toSequence / SNAPSHOT_INTERVAL) === Math.floor((fromSequence - 1) / SNAPSHOT_INTERVAL)) {
+    return
+  }
+
+  try {
+    const rebuilt = await rebuildGameState(roomId, toSequence)
+    if (!rebuilt.success) {
+      console.warn(`⚠️ Skipping snapshot for room ${roomId} at ${toSequence}: ${rebuilt.error}`)
+      return
+    }
+
+    await gameCommandRepository.saveSnapshot(roomId, toSequence, rebuilt.gameState)
+    console.log(`📸 Snapshot for room ${roomId} at command ${toSequence}`)
+  } catch (error) {
+    console.error("Failed to write game snapshot:", error)
+  }
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+/**
+ * Rebuild a room's state as it was right after command `atSequence`
+ * (defaults to the latest command)
+ */
+export async function rebuildGameState(roomId: string, atSequence?: number): Promise<RebuiltGameState> {
+  const room = await roomRepository.findById(roomId)
+  if (!room) {
+    return { success: false, error: "Room not found" }
+  }
+
+  const target = atSequence ?? room.commandSequence
+  if (target < 1 || target > room.commandSequence) {
+    return { success: false, error: `No command ${target} in this room` }
+  }
+
+  // Start from whichever is later: the latest snapshot or the latest re-initialization
+  const [snapshot, initialization] = await Promise.all([
+    gameCommandRepository.findLatestSnapshot(roomId, target),
+    gameCommandRepository.findLatestOfType(roomId, 'GAME_INITIALIZED', target)
+  ])
+
+  let baseState: GameState | null = null
+  let fromSequence: number
+  if (snapshot && (initialization === null || snapshot.sequence >= initialization)) {
+    baseState = snapshot.state as GameState
+    fromSequence = snapshot.sequence + 1
+  } else if (initialization !== null) {
+    fromSequence = initialization
+  } else {
+    return { success: false, error: "Command log has no starting state" }
+  }
+
+  const commands = await readGameCommands(roomId, fromSequence, target)
+  const gameState = replayGameCommands(baseState, commands.map(c => c.command))
+
+  return { success: true, gameState: toReducerState(gameState), sequence: target }
+}
+
+/**
+ * Commands `fromSequence`..`toSequence` (inclusive), in order
+ */
+export async function readGameCommands(roomId: string, fromSequence: number, toSequence: number): Promise<StoredGameCommand[]> {
+  const records = await gameCommandRepository.findRange(roomId, fromSequence, toSequence)
+
+  return records.map(record => ({
+    sequence: record.sequence,
+    command: record.payload as GameCommand,
+    actorId: record.actorId ?? undefined,
+    createdAt: record.createdAt
+  }))
+}
@@ -0,0 +1,156 @@
+/**
+ * Game Event Log
+ *
+ * Append-only, per-room log of every broadcast game event, stored through
+ * `GameEventRepository` (the `GameEvent` table with Prisma). Each event gets
+ * a gapless sequence number within its room (allocated from
+ * `Room.eventSequence`), which doubles as the cursor for paginated reads.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { roomRepository, gameEventRepository, type GameEventRecord } from "@/lib/database/repository"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredGameEvent {
+  id: string
+  roomId: string
+  sequence: number
+  type: string
+  userId?: string
+  data?: Record<string, unknown>
+  timestamp: Date
+}
+
+export interface GameEventPage {
+  events: StoredGameEvent[]
+  nextCursor?: number // pass back as `after` / `before` to fetch the next page
+  hasMore: boolean
+}
+
+export interface GameEventQuery {
+  after?: number // only events with a higher sequence (forward paging)
+  before?: number // only events with a lower sequence (backward paging)
+  since?: Date // only events created after this time
+  limit?: number
+  order?: 'asc' | 'desc'
+}
+
+export const DEFAULT_EVENT_PAGE_SIZE = 50
+export const MAX_EVENT_PAGE_SIZE = 500
+// Pruning always keeps at least this many events, so reconnecting clients can still replay
+export const MIN_KEPT_EVENTS = 100
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+/**
+ * Append an event to a room's log and return it with its sequence number.
+ * The repository bumps the room counter and inserts in one atomic step, so
+ * sequences are unique and gapless even with concurrent writers.
+ */
+export async function appendGameEvent(event: {
+  roomId: string
+  type: string
+  userId?: string
+  data?: Record<string, unknown>
+  timestamp?: Date
+}): Promise<StoredGameEvent> {
+  const record = await gameEventRepository.append({
+    roomId: event.roomId,
+    type: event.type,
+    actorId: event.userId ?? null,
+    payload: event.data ?? null,
+    createdAt: event.timestamp ?? new Date()
+  })
+
+  return toStoredGameEvent(record)
+}
+
+/**
+ * Delete all but the newest `keep` events of a room (never fewer than
+ * `MIN_KEPT_EVENTS`). Returns how many were removed. Server-only maintenance:
+ * not exposed as an action.
+ */
+export async function pruneGameEvents(roomId: string, keep: number = MIN_KEPT_EVENTS): Promise<number> {
+  return gameEventRepository.prune(roomId, Math.max(Math.floor(keep) || 0, MIN_KEPT_EVENTS))
+}
+
+// ============================================================================
+// Reads
+// ============================================================================
+
+/**
+ * Read one page of a room's events. Ascending pages are cursored with `after`,
+ * descending (newest first) pages with `before`.
+ */
+export async function readGameEvents(roomId: string, query: GameEventQuery = {}): Promise<GameEventPage> {
+  const order = query.order ?? 'asc'
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_EVENT_PAGE_SIZE, 1), MAX_EVENT_PAGE_SIZE)
+
+  // Fetch one extra row to know whether another page exists
+  const records = await gameEventRepository.find(roomId, {
+    after: query.after,
+    before: query.before,
+    since: query.since,
+    order,
+    take: limit + 1
+  })
+
+  const hasMore = records.length > limit
+  const events = records.slice(0, limit).map(toStoredGameEvent)
+
+  return {
+    events,
+    nextCursor: hasMore ? events[events.length - 1].sequence : undefined,
+    hasMore
+  }
+}
+
+/**
+ * Highest sequence number handed out for a room (0 when it has no events)
+ */
+export async function getLatestEventSequence(roomId: string): Promise<number> {
+  const room = await roomRepository.findById(roomId)
+  return room?.eventSequence ?? 0
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Shape an event the way it goes out over SSE: data fields flattened onto the
+ * event, the actor as `playerId`, and the log position as `sequence`
+ */
+export function toSseEvent(event: {
+  type: string
+  roomId: string
+  userId?: string
+  data?: Record<string, unknown>
+  sequence?: number
+}): Record<string, unknown> {
+  return {
+    type: event.type,
+    roomId: event.roomId,
+    ...(event.userId && { playerId: event.userId }),
+    ...(event.data && event.data),
+    ...(event.sequence !== undefined && { sequence: event.sequence })
+  }
+}
+
+function toStoredGameEvent(record: GameEventRecord): StoredGameEvent {
+  return {
+    id: record.id,
+    roomId: record.roomId,
+    sequence: record.sequence,
+    type: record.type,
+    userId: record.actorId ?? undefined,
+    data: (record.payload as Record<string, unknown> | null) ?? undefined,
+    timestamp: record.createdAt
+  }
+}
@@ -7,12 +7,23 @@ import {
   GameState,
   Bets,
   BetsNumericValue,
+  MatchTarget,
+  MatchTargetType,
+  MatchResult,
+  TeamStanding,
+  TrickRecord,
+  RoundTally,
+  TimeoutMove,
+  DEFAULT_MATCH_TARGET,
+  MATCH_TARGET_LIMITS,
+  RuleSet,
+  DEFAULT_RULE_SET,
+  RULE_SET_LIMITS,
+  ALL_PASS_RULES,
   CARDS_PER_PLAYER,
   MAX_PLAYERS,
   CARD_VALUES,
   CARD_COLORS,
-  BONHOMME_ROUGE_POINTS,
-  BONHOMME_BRUN_POINTS,
   BASE_TRICK_POINTS
 } from './game-types'
 
@@ -100,6 +111,11 @@ export function generateTurnOrder(gameState: GameState): string[] {
 }
 
 // Betting logic
+//
+// Bidding is an auction: it goes round the table until every player but the
+// highest bidder has passed, and a player who passes is out for the rest of
+// the auction. `gameState.bets` is the auction in the order the bets were made.
+
 export function canPlaceBet(
   gameState: GameState,
   playerId: string,
@@ -115,8 +131,8 @@ export function canPlaceBet(
     return false
   }
 
-  // Player must not have already bet
-  if (gameState.bets[playerId]) {
+  // Players who passed stay out, and nobody bids once the auction is over
+  if (hasPassed(gameState, playerId) || isBiddingOver(gameState)) {
     return false
   }
 
@@ -125,56 +141,46 @@ export function canPlaceBet(
     return false
   }
 
-  // Get all existing bets (excluding nulls)
-  const existingBets = Object.values(gameState.bets).filter((b): b is Bet => b !== null && b !== undefined)
-  const highestBet = existingBets.length > 0 ? getHighestBet(existingBets) : null
+  const rules = getRuleSet(gameState)
 
   // Skip bet validation
   if (bet.betValue === Bets.SKIP) {
-    return validateSkipBet(existingBets, gameState.turnOrder || [], playerId, gameState.bets)
+    return validateSkipBet(gameState, playerId, rules.allPassRule === 'force-last-bidder')
   }
 
   // Regular bet validation
-  return validateRegularBet(bet, highestBet)
+  return validateRegularBet(bet, getHighestBet(gameState.bets), rules.minimumBet)
 }
 
 /**
  * Validates if a skip bet is allowed
  */
-function validateSkipBet(
-  existingBets: Bet[],
-  turnPlayerIds: string[],
-  playerId: string,
-  playerBets: Record<string, Bet>
-): boolean {
-  // Check if this is the last player to bet
-  const betsPlaced = Object.keys(playerBets).filter(id => playerBets[id] !== null).length
-  const isLastToBet = betsPlaced === turnPlayerIds.length - 1
-
-  // Last player can't skip if everyone else has skipped (someone must bet)
-  if (isLastToBet) {
-    const hasRealBet = existingBets.some(bet => bet.betValue !== Bets.SKIP)
-    if (!hasRealBet) {
-      return false // Last player must bet if no one else has
+function validateSkipBet(gameState: GameState, playerId: string, forceLastBidder: boolean): boolean {
+  // The last player to speak can't pass if everyone else has passed without a
+  // bid (someone must bet), unless the house lets the whole table pass
+  if (forceLastBidder && !hasRealBet(gameState.bets)) {
+    const othersPassed = gameState.turnOrder.every(id => id === playerId || hasPassed(gameState, id))
+    if (othersPassed) {
+      return false
     }
   }
 
-  // All other players (including first player) can always skip
+  // Everybody else can always pass
   return true
 }
 
 /**
  * Validates if a regular (non-skip) bet is allowed
  */
-function validateRegularBet(bet: Omit<Bet, 'playerId' | 'timestamp'>, highestBet: Bet | null): boolean {
-  // If no existing bets, any bet 7+ is valid (minimum bet is 7)
+function validateRegularBet(bet: Omit<Bet, 'playerId' | 'timestamp'>, highestBet: Bet | null, minimumBet: number): boolean {
+  // If no existing bets, any bet of at least the minimum is valid
   if (!highestBet) {
-    return bet.value >= 7
+    return bet.value >= minimumBet
   }
 
   // Skip bets don't count as "real" bets for comparison
   if (highestBet.betValue === Bets.SKIP) {
-    return bet.value >= 7
+    return bet.value >= minimumBet
   }
 
   // Must bet higher than current highest
@@ -201,13 +207,13 @@ export function getAllBets(): Omit<Bet, 'playerId' | 'timestamp'>[] {
   }))
 }
 
-export function placeBet(gameState: GameState, playerId: string, betValue: Bets, trump: boolean): GameState {
+export function placeBet(gameState: GameState, playerId: string, betValue: Bets, trump: boolean, timestamp: Date = new Date()): GameState {
   const bet: Bet = {
     playerId,
     betValue,
     value: BetsNumericValue[betValue],
     trump,
-    timestamp: new Date()
+    timestamp
   }
   
   if (!canPlaceBet(gameState, playerId, bet)) {
@@ -216,16 +222,11 @@ export function placeBet(gameState: GameState, playerId: string, betValue: Bets,
   
   const newGameState = {
     ...gameState,
-    bets: {
-      ...gameState.bets,
-      [playerId]: bet
-    }
+    bets: [...gameState.bets, bet]
   }
   
-  // Move to next player
-  const currentIndex = gameState.turnOrder.indexOf(playerId)
-  const nextIndex = (currentIndex + 1) % gameState.turnOrder.length
-  newGameState.currentTurn = gameState.turnOrder[nextIndex]
+  // Move to the next player still in the auction
+  newGameState.currentTurn = getNextBidder(newGameState, playerId)
   
   return newGameState
 }
@@ -236,59 +237,153 @@ export function placeBet(gameState: GameState, playerId: string, betValue: Bets,
 export function getHighestBet(bets: Bet[]): Bet | null {
   if (bets.length === 0) return null
 
-  console.log('🔍 DEBUGGING getHighestBet: Input bets:', bets.map(bet => ({
-    playerId: bet.playerId,
-    value: bet.value,
-    trump: bet.trump,
-    betValue: bet.betValue
-  })))
-
-  const result = bets.reduce((highest, current) => {
-    console.log('🔍 Comparing:', {
-      current: { playerId: current.playerId, value: current.value, trump: current.trump },
-      highest: { playerId: highest.playerId, value: highest.value, trump: highest.trump }
-    })
-
+  return bets.reduce((highest, current) => {
     // Compare values first - higher value always wins
-    if (current.value > highest.value) {
-      console.log('🔍 Current wins: higher value')
-      return current
-    }
-    if (current.value < highest.value) {
-      console.log('🔍 Highest wins: higher value')
-      return highest
-    }
+    if (current.value > highest.value) return current
+    if (current.value < highest.value) return highest
 
     // If values are equal, no-trump beats trump (7 no-trump > 7 trump)
-    if (current.value === highest.value) {
-      if (!current.trump && highest.trump) {
-        console.log('🔍 Current wins: no-trump beats trump at same value')
-        return current
-      }
-      if (current.trump && !highest.trump) {
-        console.log('🔍 Highest wins: no-trump beats trump at same value')
-        return highest
-      }
-    }
+    if (!current.trump && highest.trump) return current
 
-    // If we get here, they're equal in all aspects
-    console.log('🔍 Highest wins: equal bets, keeping first one')
+    // Otherwise the earlier bet keeps the lead
     return highest
   })
+}
+
+/**
+ * Each player's latest bet in the auction (players who have not spoken are absent)
+ */
+export function getLatestBets(bets: Bet[]): Record<string, Bet> {
+  return bets.reduce<Record<string, Bet>>((latest, bet) => ({ ...latest, [bet.playerId]: bet }), {})
+}
+
+/**
+ * Whether a player has passed, and so is out of the auction
+ */
+export function hasPassed(gameState: GameState, playerId: string): boolean {
+  return gameState.bets.some(bet => bet.playerId === playerId && bet.betValue === Bets.SKIP)
+}
+
+function hasRealBet(bets: Bet[]): boolean {
+  return bets.some(bet => bet.betValue !== Bets.SKIP)
+}
+
+/**
+ * Next player after `playerId`, in seat order, who is still in the auction
+ */
+export function getNextBidder(gameState: GameState, playerId: string): string {
+  const { turnOrder } = gameState
+  const start = turnOrder.indexOf(playerId)
+  for (let step = 1; step <= turnOrder.length; step++) {
+    const candidate = turnOrder[(start + step) % turnOrder.length]
+    if (!hasPassed(gameState, candidate)) return candidate
+  }
+  return turnOrder[(start + 1) % turnOrder.length]
+}
+
+/**
+ * Whether the auction is over: everyone but the highest bidder has passed, or
+ * the whole table passed without a bid
+ */
+export function isBiddingOver(gameState: GameState): boolean {
+  const highestBet = getHighestBet(gameState.bets)
+  const contender = highestBet && highestBet.betValue !== Bets.SKIP ? highestBet.playerId : null
+  return gameState.turnOrder.length > 0 &&
+    gameState.turnOrder.every(id => id === contender || hasPassed(gameState, id))
+}
+
+/**
+ * Whether the whole table passed without a bid (only possible when the house
+ * rules do not force the last bidder)
+ */
+export function haveAllPassed(gameState: GameState): boolean {
+  return isBiddingOver(gameState) && !hasRealBet(gameState.bets)
+}
+
+/**
+ * The contract a finished auction settles on: the highest bid or, when
+ * everyone passed and the house forces the dealer, the dealer at the opening
+ * minimum with trump. Null when the hands are to be thrown in instead.
+ */
+export function getContract(gameState: GameState): Bet | null {
+  if (hasRealBet(gameState.bets)) {
+    return getHighestBet(gameState.bets)
+  }
+
+  const rules = getRuleSet(gameState)
+  const forcedBet = Object.values(Bets).find(bet => BetsNumericValue[bet] === rules.minimumBet)
+  if (rules.allPassRule !== 'force-dealer' || !forcedBet) {
+    return null
+  }
+
+  return {
+    playerId: gameState.dealer,
+    betValue: forcedBet,
+    value: rules.minimumBet,
+    trump: true,
+    timestamp: gameState.bets[gameState.bets.length - 1]?.timestamp ?? new Date(0) // as the last pass, so replays match
+  }
+}
 
-  console.log('🔍 DEBUGGING getHighestBet: Winner:', {
-    playerId: result.playerId,
-    value: result.value,
-    trump: result.trump,
-    betValue: result.betValue
+/**
+ * Bet history as stored on a room. Rooms from before the auction stored one
+ * bet per player, keyed by player id; those become a history in bet order.
+ */
+export function toBetHistory(stored: unknown, turnOrder: string[] = []): Bet[] {
+  if (Array.isArray(stored)) return stored as Bet[]
+  if (!stored || typeof stored !== 'object') return []
+
+  const seatOf = (bet: Bet) => turnOrder.indexOf(bet.playerId)
+  return Object.values(stored as Record<string, Bet>).sort((a, b) => {
+    const byTime = new Date(a.timestamp ?? 0).getTime() - new Date(b.timestamp ?? 0).getTime()
+    return byTime || seatOf(a) - seatOf(b)
   })
+}
+
+/**
+ * Deal seeds as stored on a room. Rooms from before thrown-in deals were kept
+ * stored one seed per round; those become rounds with a single deal.
+ */
+export function toRoundSeeds(stored: unknown): Record<string, number[]> {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {}
+
+  return Object.fromEntries(Object.entries(stored as Record<string, unknown>).map(([round, seeds]) => [
+    round,
+    Array.isArray(seeds) ? seeds.filter((seed): seed is number => typeof seed === 'number')
+      : typeof seeds === 'number' ? [seeds] : []
+  ]))
+}
 
-  return result
+/**
+ * Seeds of every deal of a round in order: more than one when the hands were thrown in
+ */
+export function getDealSeeds(gameState: GameState, round: number): number[] {
+  return toRoundSeeds(gameState.roundSeeds)[round] ?? []
 }
 
-export function areAllBetsPlaced(gameState: GameState): boolean {
-  const playerIds = gameState.turnOrder
-  return playerIds.every(id => gameState.bets[id] !== undefined)
+// Seeded randomness
+export type RandomSource = () => number
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32) from a 32-bit seed.
+ * Returns floats in [0, 1) like Math.random.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Generates a fresh 32-bit seed for a new deal
+ */
+export function generateDealSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
 }
 
 // Card dealing logic
@@ -312,21 +407,25 @@ export function createDeck(): Card[] {
   return deck
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], random: RandomSource = Math.random): Card[] {
   const shuffled = [...deck]
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
   }
   return shuffled
 }
 
-export function dealCards(gameState: GameState): GameState {
-  const deck = shuffleDeck(createDeck())
+/**
+ * Deals a full set of hands for the given seat order from a seed.
+ * The same seed and turn order always produce the same hands.
+ */
+export function dealHands(turnOrder: string[], seed: number): Record<string, Card[]> {
+  const deck = shuffleDeck(createDeck(), createSeededRandom(seed))
   const playerHands: Record<string, Card[]> = {}
 
   // Deal cards to each player
-  gameState.turnOrder.forEach((playerId, playerIndex) => {
+  turnOrder.forEach((playerId, playerIndex) => {
     playerHands[playerId] = []
     for (let cardIndex = 0; cardIndex < CARDS_PER_PLAYER; cardIndex++) {
       const deckIndex = playerIndex * CARDS_PER_PLAYER + cardIndex
@@ -335,71 +434,91 @@ export function dealCards(gameState: GameState): GameState {
     }
   })
 
+  return playerHands
+}
+
+/**
+ * Whether every seated player holds a full hand for the round
+ */
+export function areHandsDealt(gameState: GameState): boolean {
+  return gameState.turnOrder.length > 0 &&
+    gameState.turnOrder.every(id => (gameState.playerHands[id]?.length ?? 0) === CARDS_PER_PLAYER)
+}
+
+export function dealCards(gameState: GameState, seed: number = generateDealSeed()): GameState {
   return {
     ...gameState,
-    playerHands,
+    playerHands: dealHands(gameState.turnOrder, seed),
     playedCards: {},
-    wonTricks: gameState.turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {})
+    wonTricks: gameState.turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    cardPoints: gameState.turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    roundSeeds: {
+      ...toRoundSeeds(gameState.roundSeeds),
+      [gameState.round]: [...getDealSeeds(gameState, gameState.round), seed]
+    }
   }
 }
 
+/**
+ * Re-deals a past (or the current) round exactly as it was originally dealt,
+ * using the seeds recorded for that round. `deal` picks one of the round's
+ * deals when hands were thrown in (default: the one that was played).
+ * Returns null if no seed was recorded for it.
+ */
+export function redealRound(gameState: GameState, round: number, deal?: number): Record<string, Card[]> | null {
+  const seeds = getDealSeeds(gameState, round)
+  const seed = seeds[deal ?? seeds.length - 1]
+  if (seed === undefined) return null
+
+  return dealHands(gameState.turnOrder, seed)
+}
+
 // Card playing logic
 export function canPlayCard(gameState: GameState, playerId: string, card: Card): boolean {
-  console.log(`🃏 canPlayCard - Player: ${playerId}, Card: ${card.color}-${card.value} (${card.id})`)
-
   if (gameState.phase !== GamePhase.CARDS) {
-    console.log(`❌ Not in CARDS phase (current: ${gameState.phase})`)
     return false
   }
 
   if (gameState.currentTurn !== playerId) {
-    console.log(`❌ Not player's turn (current: ${gameState.currentTurn})`)
     return false
   }
 
   const playerHand = gameState.playerHands[playerId] || []
-  console.log(`🎯 Player hand: ${playerHand.map(c => `${c.color}-${c.value}`).join(', ')}`)
-
-  const hasCard = playerHand.some(c => c.id === card.id)
-  if (!hasCard) {
-    console.log(`❌ Card not in player's hand`)
+  if (!playerHand.some(c => c.id === card.id)) {
     return false
   }
 
   const playedCards = Object.values(gameState.playedCards).sort((a, b) => a.playOrder - b.playOrder)
   const firstCard = playedCards[0]
-  console.log(`🎴 Played cards this trick (in order): ${playedCards.map(c => `${c.color}-${c.value} (${c.playOrder})`).join(', ')}`)
 
   // If this is the first card of the trick, any card can be played
   if (!firstCard) {
-    console.log(`✅ First card of trick - any card allowed`)
     return true
   }
 
-  // Must follow suit if possible, but trump cards can always be played
-  const firstColor = firstCard.color
-  const trump = gameState.trump
-  console.log(`🎨 First card color (must follow): ${firstColor}`)
-  console.log(`👑 Trump color: ${trump}`)
-
-  const cardsOfFirstColor = playerHand.filter(c => c.color === firstColor)
-  const hasColorInHand = cardsOfFirstColor.length > 0
-  console.log(`🎯 Cards of ${firstColor} in hand: ${cardsOfFirstColor.map(c => `${c.color}-${c.value}`).join(', ')}`)
-  console.log(`🔍 Has ${firstColor} in hand: ${hasColorInHand}`)
-  console.log(`🎴 Trying to play: ${card.color}-${card.value}`)
-
-  // Check if the card being played is trump
-  const isPlayingTrump = trump && card.color === trump
-  console.log(`👑 Playing trump card: ${isPlayingTrump}`)
-
   // Can play if:
   // 1. Same color as first card (following suit)
   // 2. Don't have any cards of the first color (can't follow suit)
   // 3. Playing a trump card (trump can always be played)
-  const canPlay = card.color === firstColor || !hasColorInHand || isPlayingTrump
-  console.log(`✅ Can play card: ${canPlay} (same color: ${card.color === firstColor}, no color in hand: ${!hasColorInHand}, trump: ${isPlayingTrump})`)
+  const hasColorInHand = playerHand.some(c => c.color === firstCard.color)
+  const isPlayingTrump = !!gameState.trump && card.color === gameState.trump
+
+  if (!(card.color === firstCard.color || !hasColorInHand || isPlayingTrump)) {
+    return false
+  }
+
+  // House rule: a trump onto a trick that is already trumped must beat the
+  // highest trump on it, if the player holds one that can
+  if (isPlayingTrump && getRuleSet(gameState).mustOvertrump) {
+    const trumpsOnTrick = playedCards.filter(c => c.color === gameState.trump)
+    if (trumpsOnTrick.length > 0) {
+      const highestTrump = Math.max(...trumpsOnTrick.map(c => c.value))
+      const canOvertrump = playerHand.some(c => c.color === gameState.trump && c.value > highestTrump)
+      return !canOvertrump || card.value > highestTrump
+    }
+  }
 
-  return canPlay
+  return true
 }
 
 export function playCard(gameState: GameState, playerId: string, card: Card): GameState {
@@ -469,18 +588,23 @@ export function getWinningCard(cards: Card[], trump?: CardColor): Card | null {
   }, cards[0])
 }
 
-export function calculateTrickPoints(cards: Card[]): number {
+export function calculateTrickPoints(cards: Card[], rules: RuleSet = DEFAULT_RULE_SET): number {
   let points = BASE_TRICK_POINTS
 
-  const hasBonhommeRouge = cards.some(c => c.color === CardColor.RED && c.value === 0)
-  const hasBonhommeBrun = cards.some(c => c.color === CardColor.BROWN && c.value === 0)
-
-  if (hasBonhommeRouge) points += BONHOMME_ROUGE_POINTS
-  if (hasBonhommeBrun) points += BONHOMME_BRUN_POINTS
+  if (cards.some(isBonhommeRouge)) points += rules.bonhommeRougePoints
+  if (cards.some(isBonhommeBrun)) points += rules.bonhommeBrunPoints
 
   return points
 }
 
+export function isBonhommeRouge(card: Card): boolean {
+  return card.color === CardColor.RED && card.value === 0
+}
+
+export function isBonhommeBrun(card: Card): boolean {
+  return card.color === CardColor.BROWN && card.value === 0
+}
+
 export function isTrickComplete(gameState: GameState): boolean {
   const playedCards = Object.values(gameState.playedCards)
   return playedCards.length === gameState.turnOrder.length
@@ -507,13 +631,33 @@ export function processTrickWin(gameState: GameState): GameState {
   }
 
   const winningPlayerId = winningCard.playerId
-  const points = calculateTrickPoints(playedCards)
+  const points = calculateTrickPoints(playedCards, getRuleSet(gameState))
+
+  // Keep the trick for review once the table is cleared
+  const roundTricks = getTricksForRound(gameState, gameState.round)
+  const trick: TrickRecord = {
+    trickNumber: roundTricks.length + 1,
+    cards: playedCards,
+    winningCard,
+    winningPlayerId,
+    points,
+    capturedBonhommeRouge: playedCards.some(isBonhommeRouge),
+    capturedBonhommeBrun: playedCards.some(isBonhommeBrun)
+  }
 
   const newGameState = {
     ...gameState,
     wonTricks: {
       ...gameState.wonTricks,
-      [winningPlayerId]: (gameState.wonTricks[winningPlayerId] || 0) + points
+      [winningPlayerId]: (gameState.wonTricks[winningPlayerId] || 0) + 1
+    },
+    cardPoints: {
+      ...gameState.cardPoints,
+      [winningPlayerId]: (gameState.cardPoints?.[winningPlayerId] || 0) + points
+    },
+    trickHistory: {
+      ...gameState.trickHistory,
+      [gameState.round]: [...roundTricks, trick]
     },
     playedCards: {}, // Clear played cards
     currentTurn: winningPlayerId, // Winner starts next trick
@@ -528,7 +672,44 @@ export function processTrickWin(gameState: GameState): GameState {
   return newGameState
 }
 
+/**
+ * Tricks played so far in a round, in play order (empty for rounds played
+ * before tricks were recorded)
+ */
+export function getTricksForRound(gameState: GameState, round: number): TrickRecord[] {
+  return gameState.trickHistory?.[round] ?? []
+}
+
 // Round scoring logic
+//
+// A round is scored on card points, not on the number of tricks: every trick
+// is worth BASE_TRICK_POINTS plus the bonhommes it captured, so a bet of up to
+// 12 can be made with 8 tricks. Tricks are counted alongside for display.
+
+/**
+ * Tricks and card points each team has taken this round
+ */
+export function getTeamTallies(gameState: GameState): Record<Team, RoundTally> {
+  const tallies: Record<Team, RoundTally> = {
+    [Team.A]: { tricks: 0, cardPoints: 0 },
+    [Team.B]: { tricks: 0, cardPoints: 0 }
+  }
+
+  Object.values(gameState.players).forEach(player => {
+    if (!player.team) return
+    tallies[player.team].tricks += gameState.wonTricks[player.id] || 0
+    tallies[player.team].cardPoints += gameState.cardPoints?.[player.id] || 0
+  })
+
+  return tallies
+}
+
+/**
+ * Round scores for both teams. The betting team makes its contract with at
+ * least the bet value in card points and scores the card points above it;
+ * otherwise it loses its card points. Either way the bet multiplier applies.
+ * The defending team always scores its own card points.
+ */
 export function calculateRoundScores(gameState: GameState): { teamAScore: number; teamBScore: number; bettingTeamWon: boolean } {
   if (!gameState.highestBet) {
     throw new Error('No highest bet found')
@@ -542,32 +723,19 @@ export function calculateRoundScores(gameState: GameState): { teamAScore: number
     throw new Error('Betting player has no team')
   }
 
-  // Get all players in each team
-  const teamAPlayers = Object.values(gameState.players).filter(p => p.team === Team.A)
-  const teamBPlayers = Object.values(gameState.players).filter(p => p.team === Team.B)
-
-  // Calculate total tricks won by each team
-  const teamATricks = teamAPlayers.reduce((sum, player) => sum + (gameState.wonTricks[player.id] || 0), 0)
-  const teamBTricks = teamBPlayers.reduce((sum, player) => sum + (gameState.wonTricks[player.id] || 0), 0)
+  const tallies = getTeamTallies(gameState)
+  const bettingTeamPoints = tallies[bettingPlayerTeam].cardPoints
+  const defendingTeamPoints = tallies[bettingPlayerTeam === Team.A ? Team.B : Team.A].cardPoints
 
-  const bettingTeamTricks = bettingPlayerTeam === Team.A ? teamATricks : teamBTricks
-  const defendingTeamTricks = bettingPlayerTeam === Team.A ? teamBTricks : teamATricks
+  const bettingTeamWon = bettingTeamPoints >= highestBet.value
 
-  const bettingTeamWon = bettingTeamTricks >= highestBet.value
+  const rules = getRuleSet(gameState)
+  const multiplier = highestBet.trump ? rules.trumpBetMultiplier : rules.noTrumpBetMultiplier
 
-  let bettingTeamScore = 0
-  let defendingTeamScore = 0
-
-  if (bettingTeamWon) {
-    // Betting team made their bet
-    const extraTricks = bettingTeamTricks - highestBet.value
-    bettingTeamScore = extraTricks * (highestBet.trump ? 1 : 2)
-    defendingTeamScore = defendingTeamTricks
-  } else {
-    // Betting team failed their bet
-    bettingTeamScore = -bettingTeamTricks * (highestBet.trump ? 1 : 2)
-    defendingTeamScore = defendingTeamTricks
-  }
+  const bettingTeamScore = bettingTeamWon
+    ? (bettingTeamPoints - highestBet.value) * multiplier // Betting team made their bet
+    : -bettingTeamPoints * multiplier // Betting team failed their bet
+  const defendingTeamScore = defendingTeamPoints
 
   return {
     teamAScore: bettingPlayerTeam === Team.A ? bettingTeamScore : defendingTeamScore,
@@ -576,7 +744,7 @@ export function calculateRoundScores(gameState: GameState): { teamAScore: number
   }
 }
 
-export function processRoundEnd(gameState: GameState): GameState {
+export function processRoundEnd(gameState: GameState, seed: number = generateDealSeed()): GameState {
   const { teamAScore, teamBScore } = calculateRoundScores(gameState)
 
   // Update scores
@@ -589,30 +757,377 @@ export function processRoundEnd(gameState: GameState): GameState {
     }
   })
 
+  const clearedRound = {
+    playedCards: {},
+    wonTricks: gameState.turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    cardPoints: gameState.turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    bets: [],
+    highestBet: undefined,
+    trump: undefined
+  }
+
+  // The round just scored may have decided the match
+  const scoredState = { ...gameState, scores: newScores }
+  const winningTeam = getMatchWinner(scoredState, gameState.round)
+  if (winningTeam) {
+    return {
+      ...scoredState,
+      ...clearedRound,
+      phase: GamePhase.GAME_END,
+      playerHands: {},
+      currentTurn: '',
+      matchResult: getFinalStandings(scoredState, winningTeam, gameState.round)
+    }
+  }
+
   // Reset for next round
   const newGameState = {
-    ...gameState,
-    scores: newScores,
+    ...scoredState,
+    ...clearedRound,
     round: gameState.round + 1,
     phase: GamePhase.BETS,
-    playedCards: {},
-    wonTricks: gameState.turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
-    bets: {},
+    playerHands: {}
+  }
+
+  // Deal the new round now, or once the bidding is over
+  const gameStateWithCards = getRuleSet(gameState).dealBeforeBetting ? dealCards(newGameState, seed) : newGameState
+
+  return rotateDealer(gameStateWithCards)
+}
+
+/**
+ * Throw the hands in after an auction where everyone passed: the deal passes
+ * to the next seat and the same round is bid again on fresh hands
+ */
+export function throwInRound(gameState: GameState, seed: number = generateDealSeed()): GameState {
+  const thrownIn: GameState = {
+    ...gameState,
+    bets: [],
     highestBet: undefined,
-    trump: undefined
+    playerHands: {}
   }
 
-  // Deal new cards
-  const gameStateWithCards = dealCards(newGameState)
+  return rotateDealer(getRuleSet(gameState).dealBeforeBetting ? dealCards(thrownIn, seed) : thrownIn)
+}
 
-  // Set new dealer and starter (rotate)
+// The deal moves one seat on, and the seat after the new dealer starts
+function rotateDealer(gameState: GameState): GameState {
   const currentDealerIndex = gameState.turnOrder.indexOf(gameState.dealer)
   const newDealerIndex = (currentDealerIndex + 1) % gameState.turnOrder.length
   const newStarterIndex = (newDealerIndex + 1) % gameState.turnOrder.length
+  const starter = gameState.turnOrder[newStarterIndex]
+
+  return {
+    ...gameState,
+    dealer: gameState.turnOrder[newDealerIndex],
+    starter,
+    currentTurn: starter
+  }
+}
+
+// House rules
+
+/**
+ * Rules in force for a game (the defaults for games created before house rules)
+ */
+export function getRuleSet(gameState: GameState): RuleSet {
+  return gameState.rules ?? DEFAULT_RULE_SET
+}
+
+/**
+ * Check every house rule has the right type and is within its limits
+ */
+export function isValidRuleSet(rules: RuleSet): boolean {
+  const inRange = (value: number, limits: { min: number; max: number }) =>
+    Number.isInteger(value) && value >= limits.min && value <= limits.max
+
+  return !!rules &&
+    inRange(rules.bonhommeRougePoints, RULE_SET_LIMITS.bonhommePoints) &&
+    inRange(rules.bonhommeBrunPoints, RULE_SET_LIMITS.bonhommePoints) &&
+    inRange(rules.minimumBet, RULE_SET_LIMITS.minimumBet) &&
+    inRange(rules.trumpBetMultiplier, RULE_SET_LIMITS.betMultiplier) &&
+    inRange(rules.noTrumpBetMultiplier, RULE_SET_LIMITS.betMultiplier) &&
+    typeof rules.mustOvertrump === 'boolean' &&
+    ALL_PASS_RULES.includes(rules.allPassRule) &&
+    typeof rules.dealBeforeBetting === 'boolean' &&
+    inRange(rules.turnTimeLimit, RULE_SET_LIMITS.turnTimeLimit)
+}
+
+/**
+ * Rule set as stored on a room: stored rules over the defaults, or the
+ * defaults alone when nothing (or something invalid) is stored. Rooms from
+ * before `allPassRule` stored a `forceLastBidder` flag; letting the whole
+ * table pass now throws the hands in.
+ */
+export function toRuleSet(stored: unknown): RuleSet {
+  if (!stored || typeof stored !== 'object') return { ...DEFAULT_RULE_SET }
+  const { forceLastBidder, ...storedRules } = stored as Partial<RuleSet> & { forceLastBidder?: boolean }
+  const rules: RuleSet = { ...DEFAULT_RULE_SET, ...storedRules }
+  if (storedRules.allPassRule === undefined && forceLastBidder === false) {
+    rules.allPassRule = 'redeal'
+  }
+  return isValidRuleSet(rules) ? rules : { ...DEFAULT_RULE_SET }
+}
+
+// Turn timers
+//
+// When the house rules set a turn time limit, the player to move has until
+// `gameState.turnDeadline` to bet or play. The server sets the deadline each
+// time the turn passes; once it has gone by, the safe move below is made for
+// the player so an absent player can't hold up the table.
+
+/**
+ * Whether the game is waiting on a timed move: a bet or a card, with a limit set
+ */
+export function isTurnTimed(gameState: GameState): boolean {
+  return (gameState.phase === GamePhase.BETS || gameState.phase === GamePhase.CARDS) &&
+    !!gameState.currentTurn &&
+    getRuleSet(gameState).turnTimeLimit > 0
+}
+
+// Changes whenever a move is made, even when the same player is to move again
+// (a trick winner leading the next trick)
+function getTurnKey(gameState: GameState): string {
+  return [
+    gameState.phase,
+    gameState.round,
+    gameState.currentTurn,
+    gameState.bets.length,
+    Object.keys(gameState.playedCards).length,
+    getTricksForRound(gameState, gameState.round).length
+  ].join(':')
+}
+
+/**
+ * Deadline for the move `next` is waiting on: a fresh one when the turn has
+ * passed since `previous`, the running one otherwise, none for untimed turns
+ */
+export function getTurnDeadline(previous: GameState, next: GameState, now: number = Date.now()): number | undefined {
+  if (!isTurnTimed(next)) return undefined
+
+  if (previous.turnDeadline && isTurnTimed(previous) && getTurnKey(previous) === getTurnKey(next)) {
+    return previous.turnDeadline
+  }
+  return now + getRuleSet(next).turnTimeLimit * 1000
+}
+
+export function isTurnExpired(gameState: GameState, now: number = Date.now()): boolean {
+  return isTurnTimed(gameState) && !!gameState.turnDeadline && now >= gameState.turnDeadline
+}
+
+/**
+ * The move made for a player who ran out of time: pass when allowed,
+ * otherwise the lowest legal bet; in play, the lowest legal card
+ */
+export function getTimeoutMove(gameState: GameState): TimeoutMove | null {
+  const playerId = gameState.currentTurn
+
+  if (gameState.phase === GamePhase.BETS) {
+    // Trump bets rank below no-trump bets of the same value
+    const bets = getAllBets().flatMap(bet =>
+      bet.betValue === Bets.SKIP ? [bet] : [{ ...bet, trump: true }, bet]
+    )
+    const bet = bets.find(candidate => canPlaceBet(gameState, playerId, candidate))
+    return bet ? { type: 'bet', betValue: bet.betValue, trump: bet.trump } : null
+  }
+
+  if (gameState.phase === GamePhase.CARDS) {
+    const card = (gameState.playerHands[playerId] || [])
+      .filter(candidate => canPlayCard(gameState, playerId, candidate))
+      .reduce<Card | null>((lowest, candidate) => !lowest || candidate.value < lowest.value ? candidate : lowest, null)
+    return card ? { type: 'card', cardId: card.id } : null
+  }
+
+  return null
+}
+
+// Match end logic
+
+/**
+ * Check a match target is a known type within its limits
+ */
+export function isValidMatchTarget(target: MatchTarget): boolean {
+  const limits = MATCH_TARGET_LIMITS[target?.type]
+  return !!limits && Number.isInteger(target.value) && target.value >= limits.min && target.value <= limits.max
+}
+
+/**
+ * Match target as stored on a room, falling back to the default
+ */
+export function toMatchTarget(type?: string | null, value?: number | null): MatchTarget {
+  const target = { type: type as MatchTargetType, value: value ?? DEFAULT_MATCH_TARGET.value }
+  return isValidMatchTarget(target) ? target : { ...DEFAULT_MATCH_TARGET }
+}
+
+/**
+ * Running score of each team (every member of a team carries the team's score)
+ */
+export function getTeamScores(gameState: GameState): Record<Team, number> {
+  const teamScore = (team: Team) => {
+    const members = Object.values(gameState.players).filter(p => p.team === team)
+    return members.length > 0 ? Math.max(...members.map(p => gameState.scores[p.id] || 0)) : 0
+  }
+  return { [Team.A]: teamScore(Team.A), [Team.B]: teamScore(Team.B) }
+}
+
+/**
+ * Team that has won the match after `roundsPlayed` rounds, or null while it goes on.
+ * A tie at the target is never a win: play continues until one team leads.
+ */
+export function getMatchWinner(gameState: GameState, roundsPlayed: number): Team | null {
+  const target = gameState.matchTarget ?? DEFAULT_MATCH_TARGET
+  const scores = getTeamScores(gameState)
+  if (scores[Team.A] === scores[Team.B]) return null
+
+  const reached = target.type === 'rounds'
+    ? roundsPlayed >= target.value
+    : Math.max(scores[Team.A], scores[Team.B]) >= target.value
+
+  if (!reached) return null
+  return scores[Team.A] > scores[Team.B] ? Team.A : Team.B
+}
+
+/**
+ * Final standings for a finished match, winner first
+ */
+export function getFinalStandings(gameState: GameState, winningTeam: Team, roundsPlayed: number): MatchResult {
+  const scores = getTeamScores(gameState)
+  const standing = (team: Team): TeamStanding => ({
+    team,
+    score: scores[team],
+    players: gameState.turnOrder
+      .map(id => gameState.players[id])
+      .filter(p => p?.team === team)
+      .map(p => ({ id: p.id, name: p.name }))
+  })
+  const losingTeam = winningTeam === Team.A ? Team.B : Team.A
+
+  return { winningTeam, roundsPlayed, standings: [standing(winningTeam), standing(losingTeam)] }
+}
+
+/**
+ * Start a new match with the same teams and seats. The deal moves on one seat
+ * from the last match's dealer; betting starts right away.
+ */
+export function restartMatch(gameState: GameState): GameState {
+  const turnOrder = gameState.turnOrder
+  const dealerIndex = (turnOrder.indexOf(gameState.dealer) + 1) % turnOrder.length
+  const starter = turnOrder[(dealerIndex + 1) % turnOrder.length]
+
+  return {
+    ...gameState,
+    phase: GamePhase.BETS,
+    round: 1,
+    dealer: turnOrder[dealerIndex],
+    starter,
+    currentTurn: starter,
+    trump: undefined,
+    highestBet: undefined,
+    bets: [],
+    playedCards: {},
+    playerHands: {},
+    wonTricks: turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    cardPoints: turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    scores: turnOrder.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
+    roundSeeds: {},
+    trickHistory: {},
+    matchResult: undefined
+  }
+}
+
+// Rule invariants
 
-  gameStateWithCards.dealer = gameState.turnOrder[newDealerIndex]
-  gameStateWithCards.starter = gameState.turnOrder[newStarterIndex]
-  gameStateWithCards.currentTurn = gameStateWithCards.starter
+/**
+ * Trick points handed out over one full round: every trick is worth the base
+ * points, and both bonhommes are always played
+ */
+export function getRoundTrickPoints(rules: RuleSet = DEFAULT_RULE_SET): number {
+  return CARDS_PER_PLAYER * BASE_TRICK_POINTS + rules.bonhommeRougePoints + rules.bonhommeBrunPoints
+}
+
+/**
+ * Check the invariants every state reachable through the rules must satisfy.
+ * Returns one message per broken invariant (empty when the state is sound).
+ */
+export function getRuleViolations(gameState: GameState): string[] {
+  const violations: string[] = []
+  const { turnOrder, playerHands, playedCards } = gameState
+
+  // Every card in play comes from the deck and is in exactly one place
+  const deckIds = new Set(createDeck().map(c => c.id))
+  const seen = new Set<string>()
+  const cardsInPlay = [...Object.values(playerHands).flat(), ...Object.values(playedCards)]
+  for (const card of cardsInPlay) {
+    if (!deckIds.has(card.id)) violations.push(`Card ${card.id} is not part of the deck`)
+    if (seen.has(card.id)) violations.push(`Card ${card.id} is in play more than once`)
+    seen.add(card.id)
+  }
+
+  for (const [playerId, hand] of Object.entries(playerHands)) {
+    if (hand.some(c => c.playerId !== playerId)) {
+      violations.push(`${playerId} holds a card dealt to another player`)
+    }
+  }
+
+  // The auction: passed players stay out, and every bid beats the one before it
+  const passed = new Set<string>()
+  let lastBid: Bet | null = null
+  for (const bet of gameState.bets) {
+    if (passed.has(bet.playerId)) violations.push(`${bet.playerId} bet after passing`)
+    if (bet.betValue === Bets.SKIP) {
+      passed.add(bet.playerId)
+      continue
+    }
+    if (lastBid && getHighestBet([lastBid, bet]) !== bet) {
+      violations.push(`${bet.playerId} bid ${bet.value}${bet.trump ? ' trump' : ''} without beating ${lastBid.value}${lastBid.trump ? ' trump' : ''}`)
+    }
+    lastBid = bet
+  }
+
+  if (gameState.phase === GamePhase.CARDS || gameState.phase === GamePhase.TRICK_SCORING) {
+    // One card per player per trick: hands only differ by the card each player put on the trick
+    const trickStartSizes = turnOrder.map(id => (playerHands[id]?.length ?? 0) + (playedCards[id] ? 1 : 0))
+    if (new Set(trickStartSizes).size > 1) {
+      violations.push(`Hands are out of step: ${trickStartSizes.join(', ')} cards at the start of the trick`)
+    }
+
+    for (const [playerId, card] of Object.entries(playedCards)) {
+      if (!turnOrder.includes(playerId)) violations.push(`${playerId} played to the trick but is not seated`)
+      if (card.playerId !== playerId) violations.push(`${playerId} played ${card.id}, which was dealt to ${card.playerId}`)
+    }
+
+    const playOrders = Object.values(playedCards).map(c => c.playOrder).sort((a, b) => a - b)
+    if (!playOrders.every((order, index) => order === index + 1)) {
+      violations.push(`Trick play order is ${playOrders.join(', ')}, expected 1..${playOrders.length}`)
+    }
+  }
+
+  if (gameState.phase === GamePhase.TRICK_SCORING) {
+    if (Object.values(playerHands).some(hand => hand.length > 0)) {
+      violations.push('Round is being scored while cards are still in hand')
+    }
+
+    const tricksTaken = Object.values(gameState.wonTricks).reduce((sum, tricks) => sum + tricks, 0)
+    if (turnOrder.length === MAX_PLAYERS && tricksTaken !== CARDS_PER_PLAYER) {
+      violations.push(`${tricksTaken} tricks were taken, expected ${CARDS_PER_PLAYER}`)
+    }
+
+    const pointsWon = Object.values(gameState.cardPoints ?? {}).reduce((sum, points) => sum + points, 0)
+    const roundPoints = getRoundTrickPoints(getRuleSet(gameState))
+    if (turnOrder.length === MAX_PLAYERS && pointsWon !== roundPoints) {
+      violations.push(`Tricks are worth ${pointsWon} points in total, expected ${roundPoints}`)
+    }
+  }
+
+  // Team mates always share one score
+  for (const team of [Team.A, Team.B]) {
+    const teamScores = Object.values(gameState.players)
+      .filter(p => p.team === team)
+      .map(p => gameState.scores[p.id] || 0)
+    if (new Set(teamScores).size > 1) {
+      violations.push(`Team ${team} members have different scores: ${teamScores.join(', ')}`)
+    }
+  }
 
-  return gameStateWithCards
+  return violations
 }
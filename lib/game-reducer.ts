@@ -0,0 +1,324 @@
+/**
+ * Game Command Reducer
+ *
+ * Every accepted game action is recorded as a command. Commands carry every
+ * random choice (deal seeds, dealer) and every ordering decision (seating)
+ * that the action made, so `applyGameCommand` is a pure function: replaying a
+ * room's command log from its last `GAME_INITIALIZED` command or snapshot
+ * always rebuilds exactly the same state.
+ *
+ * Actions build their new state by applying commands through this reducer,
+ * which keeps the live state and the replayed state in lock-step.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { GameState, GamePhase, Team, Bets, Player, MatchTarget } from "./game-types"
+import {
+  selectTeam,
+  placeBet,
+  getContract,
+  isBiddingOver,
+  areHandsDealt,
+  getRuleSet,
+  dealCards,
+  playCard,
+  processTrickWin,
+  processRoundEnd,
+  throwInRound,
+  restartMatch
+} from "./game-logic"
+
+// ============================================================================
+// Command Types
+// ============================================================================
+
+export type GameCommand =
+  | { type: 'GAME_INITIALIZED'; state: GameState }
+  | { type: 'PLAYERS_SYNCED'; members: Array<{ id: string; name: string }> }
+  | { type: 'TEAM_SELECTED'; playerId: string; team: Team }
+  | { type: 'SEATS_ASSIGNED'; seats: string[]; dealerIndex: number }
+  | { type: 'TEAMS_AUTO_ASSIGNED'; playerIds: string[]; startBetting: boolean }
+  | { type: 'PLAYER_READY_SET'; playerId: string; ready: boolean }
+  | { type: 'BET_PLACED'; playerId: string; betValue: Bets; trump: boolean; timestamp?: number } // ms since epoch; absent in older logs
+  | { type: 'ROUND_DEALT'; seed: number }
+  | { type: 'ROUND_REDEALT'; seed: number }
+  | { type: 'BIDDING_CLOSED' }
+  | { type: 'CARDS_DEALT'; seed: number }
+  | { type: 'CARD_PLAYED'; playerId: string; cardId: string }
+  | { type: 'TRICK_RESOLVED' }
+  | { type: 'ROUND_SCORED'; seed: number }
+  | { type: 'MATCH_TARGET_SET'; target: MatchTarget }
+  | { type: 'MATCH_RESTARTED' }
+
+export type GameCommandType = GameCommand['type']
+
+/**
+ * Player id a command was issued for, if any (stored as the command's actor)
+ */
+export function getCommandActor(command: GameCommand): string | undefined {
+  return 'playerId' in command ? command.playerId : undefined
+}
+
+// ============================================================================
+// Reducer
+// ============================================================================
+
+/**
+ * Apply one command. Pure: never reads the clock or Math.random.
+ * `state` may only be null for `GAME_INITIALIZED`.
+ */
+export function applyGameCommand(state: GameState | null, command: GameCommand): GameState {
+  if (command.type === 'GAME_INITIALIZED') {
+    return toReducerState(command.state)
+  }
+
+  if (!state) {
+    throw new Error(`Cannot apply ${command.type} before GAME_INITIALIZED`)
+  }
+
+  switch (command.type) {
+    case 'PLAYERS_SYNCED':
+      return syncPlayers(state, command.members)
+
+    case 'TEAM_SELECTED':
+      return selectTeam(state, command.playerId, command.team)
+
+    case 'SEATS_ASSIGNED': {
+      // Seats follow the recorded order: A1, B2, A3, B4
+      const players = { ...state.players }
+      command.seats.forEach((playerId, seatPosition) => {
+        players[playerId] = { ...players[playerId], seatPosition }
+      })
+      const dealer = command.seats[command.dealerIndex]
+      const starter = command.seats[(command.dealerIndex + 1) % command.seats.length]
+      return {
+        ...state,
+        players,
+        turnOrder: [...command.seats],
+        dealer,
+        starter,
+        currentTurn: starter,
+        phase: GamePhase.BETS
+      }
+    }
+
+    case 'TEAMS_AUTO_ASSIGNED': {
+      const players = { ...state.players }
+      command.playerIds.forEach((playerId, index) => {
+        players[playerId] = {
+          ...players[playerId],
+          team: index % 2 === 0 ? Team.A : Team.B,
+          seatPosition: index
+        }
+      })
+      const next = { ...state, players, turnOrder: [...command.playerIds] }
+      if (command.startBetting) {
+        next.phase = GamePhase.BETS
+        next.currentTurn = command.playerIds[0] // First player starts betting
+      }
+      return next
+    }
+
+    case 'PLAYER_READY_SET':
+      return {
+        ...state,
+        players: {
+          ...state.players,
+          [command.playerId]: { ...state.players[command.playerId], isReady: command.ready }
+        }
+      }
+
+    case 'BET_PLACED':
+      // Bets logged before they carried their time replay at the epoch
+      return placeBet(state, command.playerId, command.betValue, command.trump, new Date(command.timestamp ?? 0))
+
+    case 'ROUND_DEALT':
+      // Hands for the coming bidding; the phase does not change
+      return dealCards(state, command.seed)
+
+    case 'ROUND_REDEALT':
+      // Everyone passed: the hands are thrown in and the next dealer deals again
+      return throwInRound(state, command.seed)
+
+    case 'BIDDING_CLOSED':
+      // Hands were dealt when the bidding opened
+      return { ...closeBidding(state), phase: GamePhase.CARDS }
+
+    case 'CARDS_DEALT':
+      // Bidding on unseen hands: deal as the bidding closes
+      return { ...dealCards(closeBidding(state), command.seed), phase: GamePhase.CARDS }
+
+    case 'CARD_PLAYED': {
+      const card = (state.playerHands[command.playerId] || []).find(c => c.id === command.cardId)
+      if (!card) {
+        throw new Error(`Card ${command.cardId} is not in ${command.playerId}'s hand`)
+      }
+      return playCard(state, command.playerId, card)
+    }
+
+    case 'TRICK_RESOLVED':
+      return processTrickWin(state)
+
+    case 'ROUND_SCORED':
+      return processRoundEnd(state, command.seed)
+
+    case 'MATCH_TARGET_SET':
+      return { ...state, matchTarget: { ...command.target } }
+
+    case 'MATCH_RESTARTED':
+      return restartMatch(state)
+  }
+}
+
+/**
+ * Apply a sequence of commands in order
+ */
+export function replayGameCommands(state: GameState | null, commands: GameCommand[]): GameState | null {
+  return commands.reduce<GameState | null>(applyGameCommand, state)
+}
+
+/**
+ * Strip the fields that describe how a state was read rather than the game itself
+ */
+export function toReducerState(state: GameState): GameState {
+  const copy: GameState = JSON.parse(JSON.stringify(state))
+  delete copy.version
+  delete copy.commandSequence
+  delete copy.handCounts
+  delete copy.turnDeadline
+  return copy
+}
+
+// ============================================================================
+// Command Batches
+// ============================================================================
+
+/**
+ * Applies commands to a working state while recording them, so an action can
+ * branch on intermediate states and then save the state with its commands.
+ */
+export class GameCommandBatch {
+  readonly commands: GameCommand[] = []
+  state: GameState
+
+  constructor(state: GameState) {
+    this.state = state
+  }
+
+  apply(command: GameCommand): GameState {
+    this.state = applyGameCommand(this.state, command)
+    this.commands.push(command)
+    return this.state
+  }
+}
+
+/**
+ * Deal the hands as the bidding opens, when the house rules have players bid
+ * on cards they can see. Call after any command that starts a betting phase.
+ */
+export function dealForBidding(batch: GameCommandBatch, seed: number): void {
+  const state = batch.state
+  if (state.phase === GamePhase.BETS && getRuleSet(state).dealBeforeBetting && !areHandsDealt(state)) {
+    batch.apply({ type: 'ROUND_DEALT', seed })
+  }
+}
+
+/**
+ * Close the bidding once the auction is over: start playing (dealing first
+ * if the hands are not out yet), or, when everyone passed and the house
+ * rules throw the hands in, redeal for the next dealer
+ */
+export function settleBetting(batch: GameCommandBatch, seed: number): void {
+  if (!isBiddingOver(batch.state)) return
+
+  if (!getContract(batch.state)) {
+    batch.apply({ type: 'ROUND_REDEALT', seed })
+  } else if (areHandsDealt(batch.state)) {
+    batch.apply({ type: 'BIDDING_CLOSED' })
+  } else {
+    batch.apply({ type: 'CARDS_DEALT', seed })
+  }
+}
+
+/**
+ * Start a room's command log from the state as it was read, for rooms that
+ * were played before commands were recorded. `baseState` is the read state
+ * (via toReducerState) when the room has no commands yet, otherwise null.
+ */
+export function startCommandLog(baseState: GameState | null, commands: GameCommand[]): GameCommand[] {
+  if (!baseState || commands.length === 0 || commands[0].type === 'GAME_INITIALIZED') {
+    return commands
+  }
+  return [{ type: 'GAME_INITIALIZED', state: baseState }, ...commands]
+}
+
+/**
+ * Seat order for two full teams: A1, B2, A3, B4
+ */
+export function getBalancedSeating(state: GameState): string[] {
+  const teamAPlayers = Object.values(state.players).filter(p => p.team === Team.A)
+  const teamBPlayers = Object.values(state.players).filter(p => p.team === Team.B)
+  return [teamAPlayers[0].id, teamBPlayers[0].id, teamAPlayers[1].id, teamBPlayers[1].id]
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// The auction's contract becomes the highest bet and its bidder leads
+function closeBidding(state: GameState): GameState {
+  const highestBet = getContract(state)
+  if (!highestBet) return state
+
+  return {
+    ...state,
+    highestBet,
+    currentTurn: highestBet.playerId, // Highest better starts
+    starter: highestBet.playerId
+  }
+}
+
+function syncPlayers(state: GameState, members: Array<{ id: string; name: string }>): GameState {
+  const memberIds = members.map(m => m.id)
+  const players: Record<string, Player> = { ...state.players }
+  let bets = state.bets
+  let turnOrder = state.turnOrder
+  let currentTurn = state.currentTurn
+  let phase = state.phase
+
+  // Add new players
+  members.forEach(member => {
+    if (!players[member.id]) {
+      players[member.id] = {
+        id: member.id,
+        name: member.name,
+        team: undefined,
+        seatPosition: undefined,
+        isReady: false
+      }
+    }
+  })
+
+  // Remove players who left (only if game hasn't started)
+  if (phase === GamePhase.TEAM_SELECTION) {
+    Object.keys(players).forEach(playerId => {
+      if (!memberIds.includes(playerId)) {
+        delete players[playerId]
+      }
+    })
+    bets = bets.filter(bet => memberIds.includes(bet.playerId))
+
+    turnOrder = [...memberIds]
+    if (!memberIds.includes(currentTurn)) {
+      currentTurn = memberIds[0] || ""
+    }
+  }
+
+  // Move from WAITING to TEAM_SELECTION once 4 players are in
+  if (Object.keys(players).length === 4 && phase === GamePhase.WAITING) {
+    phase = GamePhase.TEAM_SELECTION
+  }
+
+  return { ...state, players, bets, turnOrder, currentTurn, phase }
+}
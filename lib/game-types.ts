@@ -65,6 +65,50 @@ export interface Player {
   team?: Team
   seatPosition?: number // 0-3 for 4 players
   isReady: boolean
+  isBot?: boolean // server-side bot, moved by the bot runner
+  botDifficulty?: BotDifficulty // bots played by the search AI; plain heuristic bots have none
+}
+
+// How hard a search AI bot plays: the more simulations, the stronger
+export type BotDifficulty = 'easy' | 'medium' | 'hard'
+
+// How a match is won: first team to `value` points, or the leader after `value` rounds
+export type MatchTargetType = 'points' | 'rounds'
+
+export interface MatchTarget {
+  type: MatchTargetType
+  value: number
+}
+
+export interface TeamStanding {
+  team: Team
+  score: number
+  players: Array<{ id: string; name: string }>
+}
+
+export interface MatchResult {
+  winningTeam: Team
+  roundsPlayed: number
+  standings: TeamStanding[] // winner first
+}
+
+// What happens when every player passes in the auction:
+// - force-dealer: the dealer is handed the contract at the opening minimum
+// - force-last-bidder: the last player to speak may not pass, so it never happens
+// - redeal: the hands are thrown in, the deal passes to the next seat and the bidding starts over
+export type AllPassRule = 'force-dealer' | 'force-last-bidder' | 'redeal'
+
+// House rules a room is created with; fixed for the room's lifetime
+export interface RuleSet {
+  bonhommeRougePoints: number // extra trick points for capturing the red 0
+  bonhommeBrunPoints: number // extra trick points for capturing the brown 0
+  minimumBet: number // lowest bet value that opens the bidding
+  mustOvertrump: boolean // a trump played onto a trumped trick must beat it when possible
+  allPassRule: AllPassRule // how an auction where everyone passes is settled
+  dealBeforeBetting: boolean // hands are dealt when the bidding opens, so players bid on cards they can see
+  trumpBetMultiplier: number // round score multiplier for a trump bet
+  noTrumpBetMultiplier: number // round score multiplier for a no-trump bet
+  turnTimeLimit: number // seconds a player has to bet or play before a safe move is made for them, 0 for no limit
 }
 
 export interface GameState {
@@ -76,12 +120,22 @@ export interface GameState {
   trump?: CardColor
   highestBet?: Bet
   players: Record<string, Player>
-  bets: Record<string, Bet>
+  bets: Bet[] // the auction, in the order the bets were made
   playedCards: Record<string, Card>
   playerHands: Record<string, Card[]>
-  wonTricks: Record<string, number>
+  handCounts?: Record<string, number> // set on per-viewer projections, where other players' hands are omitted
+  wonTricks: Record<string, number> // tricks taken this round, per player
+  cardPoints: Record<string, number> // card points taken this round (trick points plus bonhommes), per player
   scores: Record<string, number>
   turnOrder: string[] // ordered player IDs
+  roundSeeds?: Record<string, number[]> // round number -> seeds of that round's deals in order; the last one was played
+  trickHistory?: Record<string, TrickRecord[]> // round number -> tricks played that round, in order
+  matchTarget?: MatchTarget // defaults to DEFAULT_MATCH_TARGET
+  matchResult?: MatchResult // set once the match is over (GAME_END)
+  rules?: RuleSet // house rules, defaults to DEFAULT_RULE_SET
+  turnDeadline?: number // epoch ms the player to move must act by, when the house rules time turns
+  version?: number // Room.stateVersion this state was read at (for compare-and-swap saves)
+  commandSequence?: number // Room.commandSequence this state was read at (last command applied)
 }
 
 export interface TrickResult {
@@ -91,6 +145,36 @@ export interface TrickResult {
   cards: Card[]
 }
 
+// A trick as it was played, kept for review after the table is cleared
+export interface TrickRecord extends TrickResult {
+  trickNumber: number // 1-based within the round
+  capturedBonhommeRouge: boolean
+  capturedBonhommeBrun: boolean
+}
+
+// What a team has taken over a round
+export interface RoundTally {
+  tricks: number
+  cardPoints: number
+}
+
+// The safe move made for a player whose turn timed out
+export type TimeoutMove =
+  | { type: 'bet'; betValue: Bets; trump: boolean }
+  | { type: 'card'; cardId: string }
+
+// A move chosen by a bot: the same bets and cards, plus picking a team
+export type BotMove = TimeoutMove | { type: 'team'; team: Team }
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard']
+
+// Simulations a search AI bot runs per decision, by difficulty
+export const BOT_SIMULATION_BUDGETS: Record<BotDifficulty, number> = {
+  easy: 40,
+  medium: 200,
+  hard: 800
+}
+
 export interface RoundResult {
   bettingTeamWon: boolean
   teamAScore: number
@@ -108,3 +192,36 @@ export const CARD_COLORS = [CardColor.RED, CardColor.BLUE, CardColor.GREEN, Card
 export const BONHOMME_ROUGE_POINTS = 5 // Red 0
 export const BONHOMME_BRUN_POINTS = -3 // Brown 0
 export const BASE_TRICK_POINTS = 1
+
+// Match length
+export const DEFAULT_MATCH_TARGET: MatchTarget = { type: 'points', value: 52 }
+export const MATCH_TARGET_LIMITS: Record<MatchTargetType, { min: number; max: number }> = {
+  points: { min: 1, max: 500 },
+  rounds: { min: 1, max: 50 }
+}
+
+// House rules
+export const DEFAULT_RULE_SET: RuleSet = {
+  bonhommeRougePoints: BONHOMME_ROUGE_POINTS,
+  bonhommeBrunPoints: BONHOMME_BRUN_POINTS,
+  minimumBet: BetsNumericValue[Bets.SEVEN],
+  mustOvertrump: false,
+  allPassRule: 'force-last-bidder',
+  dealBeforeBetting: true,
+  trumpBetMultiplier: 1,
+  noTrumpBetMultiplier: 2,
+  turnTimeLimit: 0
+}
+export const ALL_PASS_RULES: AllPassRule[] = ['force-dealer', 'force-last-bidder', 'redeal']
+export const ALL_PASS_RULE_LABELS: Record<AllPassRule, string> = {
+  'force-dealer': 'Dealer takes the contract',
+  'force-last-bidder': 'Last bidder must bid',
+  'redeal': 'Throw in and redeal'
+}
+export const RULE_SET_LIMITS = {
+  bonhommePoints: { min: -20, max: 20 },
+  minimumBet: { min: BetsNumericValue[Bets.SEVEN], max: BetsNumericValue[Bets.TWELVE] },
+  betMultiplier: { min: 1, max: 5 },
+  turnTimeLimit: { min: 0, max: 600 }
+}
+export const TURN_TIME_LIMIT_OPTIONS = [0, 30, 60, 90, 120, 300] // seconds, offered when creating a room
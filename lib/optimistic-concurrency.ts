@@ -0,0 +1,124 @@
+/**
+ * Optimistic Concurrency for Room Game State
+ *
+ * Every save of a room's game state is a compare-and-swap against
+ * `Room.stateVersion`. A save based on a stale read fails with a
+ * `StateConflictError` instead of overwriting the newer state, and the
+ * helpers below re-run the whole read-validate-write cycle so concurrent
+ * bets or card plays are applied one after the other, never lost.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { GameState } from "./game-types"
+import { GameCommand, startCommandLog, toReducerState } from "./game-reducer"
+import { getTurnDeadline } from "./game-logic"
+
+// ============================================================================
+// Conflict Error
+// ============================================================================
+
+/**
+ * Thrown by saveRoomGameState when the stored version moved on since the read
+ */
+export class StateConflictError extends Error {
+  readonly roomId: string
+  readonly expectedVersion?: number
+
+  constructor(roomId: string, expectedVersion?: number) {
+    super(`Game state for room ${roomId} changed since version ${expectedVersion}`)
+    this.name = 'StateConflictError'
+    this.roomId = roomId
+    this.expectedVersion = expectedVersion
+  }
+}
+
+export function isStateConflict(error: unknown): error is StateConflictError {
+  return error instanceof StateConflictError
+}
+
+// ============================================================================
+// Retry Helpers
+// ============================================================================
+
+export const MAX_STATE_ATTEMPTS = 5
+
+export const STATE_CONFLICT_MESSAGE = "The game changed while your move was being applied. Please try again."
+
+/**
+ * Run an operation, re-running it from scratch whenever it hits a state conflict
+ */
+export async function withStateRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  maxAttempts: number = MAX_STATE_ATTEMPTS
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error) {
+      if (!isStateConflict(error) || attempt >= maxAttempts) {
+        throw error
+      }
+      console.log(`🔁 State conflict in room ${error.roomId}, retrying (attempt ${attempt + 1}/${maxAttempts})`)
+      // Small jittered backoff so competing writers don't collide again
+      await new Promise(resolve => setTimeout(resolve, Math.random() * 20 * attempt))
+    }
+  }
+}
+
+export interface GameStateMutation<T = undefined> {
+  success: boolean
+  error?: string
+  code?: string // API error code for route handlers (NOT_FOUND, INVALID_TURN, CONFLICT, ...)
+  gameState?: GameState
+  data?: T
+  commands?: GameCommand[] // commands that produced `gameState`, recorded with the save
+  conflict?: boolean // true when every attempt lost the race to another writer
+}
+
+/**
+ * Read the room's game state, apply `mutate`, and save it with compare-and-swap.
+ *
+ * `mutate` must be a function of the state it is given: it is re-run against a
+ * fresh read on every conflict, so validation (turn, phase, ...) is re-checked
+ * against the state the move is actually applied to. Return `success: false`
+ * to abort without saving, and the `commands` applied to reach the new state
+ * so they are recorded in the room's command log. The turn deadline is kept
+ * up to date here, so every move restarts the next player's clock.
+ */
+export async function mutateRoomGameState<T = undefined>(
+  roomId: string,
+  mutate: (gameState: GameState) => GameStateMutation<T> | Promise<GameStateMutation<T>>
+): Promise<GameStateMutation<T>> {
+  const { getRoomGameState, saveRoomGameState } = await import("./room-game-state")
+
+  try {
+    return await withStateRetry(async () => {
+      const gameState = await getRoomGameState(roomId)
+      if (!gameState) {
+        return { success: false, error: "Game not found", code: 'NOT_FOUND' }
+      }
+
+      // Rooms without a command log yet start theirs from the state as read
+      const baseState = gameState.commandSequence ? null : toReducerState(gameState)
+
+      const result = await mutate(gameState)
+      if (!result.success || !result.gameState) {
+        return result
+      }
+
+      const commands = startCommandLog(baseState, result.commands || [])
+      const newGameState = { ...result.gameState, turnDeadline: getTurnDeadline(gameState, result.gameState) }
+      const version = await saveRoomGameState(roomId, newGameState, commands)
+      return {
+        ...result,
+        gameState: { ...newGameState, version, commandSequence: (gameState.commandSequence ?? 0) + commands.length }
+      }
+    })
+  } catch (error) {
+    if (isStateConflict(error)) {
+      return { success: false, error: STATE_CONFLICT_MESSAGE, code: 'CONFLICT', conflict: true }
+    }
+    throw error
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Player Moves
+ *
+ * The bet, card and team moves of a player, applied to the room's game state
+ * and broadcast to the table. Server actions call these for the signed-in
+ * player, turn timeouts for a player whose clock ran out, and the bot runner
+ * for bot seats, so every move goes through the same validation and events.
+ * This module is server-only and deliberately not a server action file: the
+ * moves take the acting player as an argument and must not be client-callable.
+ *
+ * @see docs/ARCHITECTURE_OVERVIEW.md for how moves flow through the reducer
+ */
+
+import { GameState, GamePhase, Card, Team, Bets, BetsNumericValue, RoundTally } from "./game-types"
+import { broadcastGameEvent } from "./room-game-state"
+import { mutateRoomGameState } from "./optimistic-concurrency"
+import { GameCommandBatch, getBalancedSeating, settleBetting, dealForBidding } from "./game-reducer"
+import {
+  areTeamsBalanced,
+  canSelectTeam,
+  isBiddingOver,
+  canPlaceBet,
+  canPlayCard,
+  isTrickComplete,
+  isRoundComplete,
+  getWinningCard,
+  calculateRoundScores,
+  getTeamTallies,
+  generateDealSeed,
+  isTurnExpired
+} from "./game-logic"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MoveResult {
+  success: boolean
+  error?: string
+  code?: string // API error code for route handlers (NOT_FOUND, INVALID_TURN, CONFLICT, ...)
+  gameState?: GameState // full state, for the caller to project for its viewer
+}
+
+// What a single card play did, for broadcasting after the state is saved
+interface CardPlayOutcome {
+  card: Card
+  afterPlay: GameState // state with the card on the table, before trick processing
+  winningCard?: Card | null
+  roundScores?: { teamAScore: number; teamBScore: number; bettingTeamWon: boolean }
+  roundTallies?: Record<Team, RoundTally>
+}
+
+// ============================================================================
+// Team Selection
+// ============================================================================
+
+// Put a player on a team and broadcast it. Once the teams are balanced the
+// seats are assigned and the first deal starts the bidding.
+export async function applyTeamSelection(
+  roomId: string,
+  userId: string,
+  team: Team
+): Promise<MoveResult> {
+  const result = await mutateRoomGameState(roomId, (gameState) => {
+    if (gameState.phase !== GamePhase.TEAM_SELECTION) {
+      return { success: false, error: "Not in team selection phase", code: "INVALID_PHASE" }
+    }
+
+    if (!gameState.players[userId]) {
+      return { success: false, error: "Player not found in game", code: "NOT_FOUND" }
+    }
+
+    if (!canSelectTeam(gameState, userId, team)) {
+      return { success: false, error: "Team is full", code: "INVALID_TEAM" }
+    }
+
+    const batch = new GameCommandBatch(gameState)
+    const withTeam = batch.apply({ type: 'TEAM_SELECTED', playerId: userId, team })
+
+    // Check if we can move to betting (auto-assign seats in A1, B2, A3, B4 pattern)
+    if (areTeamsBalanced(withTeam)) {
+      const seats = getBalancedSeating(withTeam)
+      batch.apply({ type: 'SEATS_ASSIGNED', seats, dealerIndex: Math.floor(Math.random() * seats.length) })
+      dealForBidding(batch, generateDealSeed())
+    }
+
+    return { success: true, gameState: batch.state, commands: batch.commands }
+  })
+
+  if (!result.success) {
+    return { success: false, error: result.error, code: result.code }
+  }
+
+  const newGameState = result.gameState!
+  const teamsBalanced = areTeamsBalanced(newGameState)
+  const teamACount = Object.values(newGameState.players).filter(p => p.team === Team.A).length
+  const teamBCount = Object.values(newGameState.players).filter(p => p.team === Team.B).length
+
+  // Broadcast the team change to the table
+  await broadcastGameEvent({
+    type: 'TEAMS_CHANGED',
+    roomId,
+    userId,
+    data: {
+      players: newGameState.players,
+      phase: newGameState.phase,
+      teamsBalanced,
+      playerId: userId,
+      playerName: newGameState.players[userId]?.name,
+      team,
+      teamACount,
+      teamBCount
+    },
+    timestamp: new Date()
+  })
+
+  // If teams are balanced and betting phase started, broadcast that too
+  if (teamsBalanced) {
+    await broadcastGameEvent({
+      type: 'BETTING_PHASE_STARTED',
+      roomId,
+      userId,
+      data: {
+        phase: 'bets',
+        turnOrder: newGameState.turnOrder,
+        currentTurn: newGameState.currentTurn,
+        dealer: newGameState.dealer,
+        starter: newGameState.starter,
+        turnDeadline: newGameState.turnDeadline,
+        teamsComplete: true
+      },
+      timestamp: new Date()
+    })
+  }
+
+  console.log(`✅ Team selection broadcasted: ${newGameState.players[userId]?.name} joined Team ${team}`)
+  return { success: true, gameState: newGameState }
+}
+
+// ============================================================================
+// Bidding
+// ============================================================================
+
+// Place a bet for a player and broadcast it. `timedOut` bets are made for a
+// player whose turn ran out, and only go through once the deadline has passed.
+export async function applyBet(
+  roomId: string,
+  userId: string,
+  betValue: Bets,
+  trump: boolean,
+  timedOut: boolean = false
+): Promise<MoveResult> {
+  const result = await mutateRoomGameState(roomId, (gameState) => {
+    if (gameState.phase !== GamePhase.BETS) {
+      return { success: false, error: "Not in betting phase", code: "INVALID_PHASE" }
+    }
+
+    if (gameState.currentTurn !== userId) {
+      return { success: false, error: "Not your turn", code: "INVALID_TURN" }
+    }
+
+    if (timedOut && !isTurnExpired(gameState)) {
+      return { success: false, error: "Turn has not timed out", code: "INVALID_TURN" }
+    }
+
+    if (!canPlaceBet(gameState, userId, { betValue, value: BetsNumericValue[betValue], trump })) {
+      return { success: false, error: "Bet not allowed", code: "INVALID_BET" }
+    }
+
+    const batch = new GameCommandBatch(gameState)
+    const newGameState = batch.apply({ type: 'BET_PLACED', playerId: userId, betValue, trump, timestamp: Date.now() })
+
+    console.log('🎯 Bet placed by:', userId, 'Bet:', betValue, 'Trump:', trump)
+    console.log('🎯 Bets in the auction:', newGameState.bets.length)
+
+    if (isBiddingOver(newGameState)) {
+      // The auction is over - the highest better starts, deal cards and move to cards phase
+      // (or, if everyone passed and the house throws the hands in, the next dealer redeals)
+      console.log('🎯 Auction is over! Closing the bidding...')
+      settleBetting(batch, generateDealSeed())
+    }
+
+    return { success: true, gameState: batch.state, commands: batch.commands, data: { previousDealer: gameState.dealer } }
+  })
+
+  if (!result.success) {
+    return { success: false, error: result.error, code: result.code }
+  }
+
+  const newGameState = result.gameState!
+
+  if (newGameState.phase === GamePhase.CARDS) {
+    const highestBet = newGameState.highestBet
+
+    // Broadcast that all bets are complete and cards phase started
+    console.log('🎯 Broadcasting betting_complete event for room:', roomId)
+    await broadcastGameEvent({
+      type: 'BETTING_COMPLETE',
+      roomId,
+      userId,
+      data: {
+        phase: 'cards',
+        highestBet: highestBet?.value,
+        highestBetter: highestBet?.playerId,
+        trump: highestBet?.trump,
+        allBetsComplete: true,
+        currentTurn: newGameState.currentTurn,
+        turnDeadline: newGameState.turnDeadline,
+        timedOut
+      },
+      timestamp: new Date()
+    })
+    console.log('✅ betting_complete event broadcasted')
+
+    // Note: Removed revalidatePath to prevent SSE connection closure
+    // Real-time updates are handled via SSE events
+    return { success: true, gameState: newGameState }
+  }
+
+  if (result.commands?.some(command => command.type === 'ROUND_REDEALT')) {
+    // Everyone passed: the hands were thrown in and the next dealer redealt
+    await broadcastGameEvent({
+      type: 'ROUND_REDEALT',
+      roomId,
+      userId,
+      data: {
+        phase: newGameState.phase,
+        round: newGameState.round,
+        dealer: newGameState.dealer,
+        previousDealer: result.data!.previousDealer,
+        currentTurn: newGameState.currentTurn,
+        bets: newGameState.bets,
+        turnDeadline: newGameState.turnDeadline,
+        timedOut
+      },
+      timestamp: new Date()
+    })
+
+    return { success: true, gameState: newGameState }
+  }
+
+  await broadcastGameEvent({
+    type: 'BETS_CHANGED',
+    roomId,
+    userId,
+    data: {
+      bets: newGameState.bets,           // The auction so far
+      currentTurn: newGameState.currentTurn,  // Only the current turn
+      phase: newGameState.phase,         // Only the phase (in case it changes)
+      turnDeadline: newGameState.turnDeadline, // When the next bidder runs out of time
+      timedOut
+    },
+    timestamp: new Date()
+  })
+  console.log('✅ bet_placed event broadcasted')
+
+  // Note: Removed revalidatePath to prevent SSE connection closure
+  // Real-time updates are handled via SSE events
+
+  return { success: true, gameState: newGameState }
+}
+
+// ============================================================================
+// Card Play
+// ============================================================================
+
+// Play a card for a player and broadcast it. `timedOut` plays are made for a
+// player whose turn ran out, and only go through once the deadline has passed.
+export async function applyCardPlay(
+  roomId: string,
+  userId: string,
+  cardId: string,
+  timedOut: boolean = false
+): Promise<MoveResult> {
+  // Play the card, and resolve the trick and round it completes, in one save
+  const result = await mutateRoomGameState<CardPlayOutcome>(roomId, (gameState) => {
+    if (gameState.phase !== GamePhase.CARDS) {
+      return { success: false, error: "Not in card playing phase" }
+    }
+
+    if (gameState.currentTurn !== userId) {
+      return { success: false, error: "Not your turn" }
+    }
+
+    if (timedOut && !isTurnExpired(gameState)) {
+      return { success: false, error: "Turn has not timed out" }
+    }
+
+    // Find the card in player's hand
+    const playerHand = gameState.playerHands[userId] || []
+    const card = playerHand.find(c => c.id === cardId)
+
+    if (!card) {
+      return { success: false, error: "Card not found in your hand" }
+    }
+
+    if (!canPlayCard(gameState, userId, card)) {
+      return { success: false, error: "Cannot play this card" }
+    }
+
+    const batch = new GameCommandBatch(gameState)
+    const afterPlay = batch.apply({ type: 'CARD_PLAYED', playerId: userId, cardId })
+    const outcome: CardPlayOutcome = { card, afterPlay }
+
+    if (!isTrickComplete(afterPlay)) {
+      return { success: true, gameState: batch.state, commands: batch.commands, data: outcome }
+    }
+
+    console.log('🎯 Trick complete! Processing trick win...')
+    const playedCards = Object.values(afterPlay.playedCards).sort((a, b) => a.playOrder - b.playOrder)
+    outcome.winningCard = getWinningCard(playedCards, afterPlay.trump)
+
+    const afterTrick = batch.apply({ type: 'TRICK_RESOLVED' })
+
+    // Check if round is complete
+    if (isRoundComplete(afterTrick)) {
+      console.log('🎯 Round complete! Processing round scoring...')
+
+      // Automatically process round scoring
+      outcome.roundScores = calculateRoundScores(afterTrick)
+      outcome.roundTallies = getTeamTallies(afterTrick)
+      console.log(`🏆 Round ${afterTrick.round} complete! Processing scores:`, outcome.roundScores)
+
+      // Process the round end to update scores and prepare next round
+      const nextRound = batch.apply({ type: 'ROUND_SCORED', seed: generateDealSeed() })
+      if (nextRound.phase === GamePhase.GAME_END) {
+        console.log(`🏁 Round ${afterTrick.round} scored. Team ${nextRound.matchResult?.winningTeam} wins the match`)
+      } else {
+        console.log(`🎯 Round ${afterTrick.round} scored. Starting round ${nextRound.round}`)
+      }
+    }
+
+    return { success: true, gameState: batch.state, commands: batch.commands, data: outcome }
+  })
+
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  const newGameState = result.gameState!
+  const { card, afterPlay, winningCard, roundScores, roundTallies } = result.data!
+
+  // Broadcast granular card change event
+  await broadcastGameEvent({
+    type: 'CARDS_CHANGED',
+    roomId,
+    userId,
+    data: {
+      playedCards: afterPlay.playedCards,    // Only the played cards
+      currentTurn: afterPlay.currentTurn,    // Only the current turn
+      phase: afterPlay.phase,               // Only the phase
+      playerHands: afterPlay.playerHands,   // Updated player hands
+      card: `${card.color}-${card.value}`,
+      playerName: afterPlay.players[userId]?.name,
+      cardsInTrick: Object.keys(afterPlay.playedCards).length,
+      // Mid-trick the next player's clock starts now; a finished trick hands the turn on below
+      turnDeadline: isTrickComplete(afterPlay) ? undefined : newGameState.turnDeadline,
+      timedOut
+    },
+    timestamp: new Date()
+  })
+
+  // Check if trick is complete
+  if (isTrickComplete(afterPlay)) {
+    // First, broadcast TRICK_COMPLETE while cards are still visible
+    if (winningCard) {
+      const winnerBeforeProcessing = winningCard.playerId
+      await broadcastGameEvent({
+        type: 'TRICK_COMPLETE',
+        roomId,
+        userId,
+        data: {
+          winner: winnerBeforeProcessing,
+          winnerName: afterPlay.players[winnerBeforeProcessing]?.name,
+          cardsInTrick: Object.keys(afterPlay.playedCards).length,
+          card: winningCard.color + '-' + winningCard.value,
+          remainingCards: Object.keys(afterPlay.playerHands[winnerBeforeProcessing] || {}).length
+        },
+        timestamp: new Date()
+      })
+
+      console.log('🏆 TRICK_COMPLETE sent, processing trick normally but delaying TRICK_CHANGED...')
+    }
+
+    // Delay the TRICK_CHANGED broadcast to let players see the winner
+    setTimeout(async () => {
+      console.log('🔄 Now broadcasting TRICK_CHANGED to clear cards...')
+
+      // Broadcast granular trick change event (clears the cards)
+      await broadcastGameEvent({
+        type: 'TRICK_CHANGED',
+        roomId,
+        userId,
+        data: {
+          playedCards: newGameState.playedCards,    // Cleared played cards
+          currentTurn: newGameState.currentTurn,    // Winner starts next trick
+          phase: newGameState.phase,               // Might change to TRICK_SCORING
+          wonTricks: newGameState.wonTricks,       // Updated tricks taken
+          cardPoints: newGameState.cardPoints,     // Updated card points
+          winner: newGameState.currentTurn,
+          winnerName: newGameState.players[newGameState.currentTurn]?.name,
+          turnDeadline: newGameState.turnDeadline
+        },
+        timestamp: new Date()
+      })
+    }, 2000) // 2 second delay to let players see the winner message
+
+    if (roundScores) {
+      // Broadcast granular round change event
+      await broadcastGameEvent({
+        type: 'ROUND_CHANGED',
+        roomId,
+        userId,
+        data: {
+          phase: newGameState.phase,           // New phase (BETS)
+          round: newGameState.round,           // New round number
+          scores: newGameState.scores,         // Updated scores
+          bets: newGameState.bets,            // Cleared bets
+          currentTurn: newGameState.currentTurn, // New turn order
+          roundScores: roundScores,           // Scores from completed round
+          roundTallies: roundTallies,         // Tricks and card points per team
+          completedRound: afterPlay.round,
+          turnDeadline: newGameState.turnDeadline
+        },
+        timestamp: new Date()
+      })
+
+      // Also broadcast legacy ROUND_COMPLETE event for compatibility
+      await broadcastGameEvent({
+        type: 'ROUND_COMPLETE',
+        roomId,
+        userId,
+        data: {
+          round: afterPlay.round,
+          scores: roundScores
+        },
+        timestamp: new Date()
+      })
+
+      if (newGameState.phase === GamePhase.GAME_END) {
+        await broadcastMatchEnd(roomId, newGameState, userId)
+      }
+    }
+  }
+
+  // Note: Removed revalidatePath to prevent SSE connection closure
+  // Real-time updates are handled via SSE events
+
+  return { success: true, gameState: newGameState }
+}
+
+// ============================================================================
+// Match End
+// ============================================================================
+
+// Announce the end of a match with the final standings
+export async function broadcastMatchEnd(roomId: string, gameState: GameState, userId: string): Promise<void> {
+  await broadcastGameEvent({
+    type: 'GAME_ENDED',
+    roomId,
+    userId,
+    data: {
+      phase: gameState.phase,
+      matchResult: gameState.matchResult,
+      matchTarget: gameState.matchTarget,
+      scores: gameState.scores
+    },
+    timestamp: new Date()
+  })
+  console.log(`🏁 Match over in room ${roomId}: team ${gameState.matchResult?.winningTeam} wins`)
+}
@@ -0,0 +1,138 @@
+/**
+ * Room Game State
+ *
+ * Loading and saving a room's full game state, and broadcasting the events
+ * that follow a change. This module is server-only and deliberately not a
+ * server action file: the state it returns holds every player's hand and it
+ * checks nothing about the caller, so only actions and routes that have
+ * already authorized the caller may use it, and they project the state before
+ * handing it out.
+ *
+ * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
+ */
+
+import { roomRepository, roomToGameState, gameStateToRoomFields } from "./database/repository"
+import { GameState } from "./game-types"
+import type { GameEvent } from "./events"
+import { StateConflictError, isStateConflict } from "./optimistic-concurrency"
+import { appendGameEvent, toSseEvent } from "./game-event-log"
+import { GameCommand } from "./game-reducer"
+import { toCommandRecords, writeSnapshotIfDue } from "./game-command-log"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Internal event type for broadcasting (more flexible than the strict GameEvent type)
+export interface InternalGameEvent {
+  type: string
+  roomId: string
+  userId?: string
+  data?: any
+  timestamp: Date
+  sequence?: number // position in the room's event log, once stored
+}
+
+// ============================================================================
+// Broadcasting
+// ============================================================================
+
+// Broadcast game event to all players in room
+export async function broadcastGameEvent(event: InternalGameEvent): Promise<void> {
+  // Store event in database for persistence; its sequence number becomes the SSE event id
+  const sequence = await storeGameEvent(event)
+
+  // Emit to event store for real-time SSE updates
+  const { eventStore } = await import("./events")
+  const sseEvent = toSseEvent({ ...event, sequence }) as GameEvent
+
+  console.log('📡 Broadcasting to SSE:', event.type, 'for room:', event.roomId)
+  eventStore.emit(sseEvent)
+
+  // The turn may have passed to a bot seat
+  const { scheduleBotTurn, BOT_TRIGGERING_EVENTS, BOT_TRICK_PAUSE_MS } = await import("./bot-runner")
+  if (BOT_TRIGGERING_EVENTS.includes(event.type)) {
+    scheduleBotTurn(event.roomId, event.type === 'TRICK_COMPLETE' ? BOT_TRICK_PAUSE_MS : undefined)
+  }
+
+  // Note: Removed revalidatePath to prevent SSE connection closure
+  // Real-time updates are handled via SSE, not page revalidation
+}
+
+// Store game event in the room's append-only event log, returning its sequence number
+async function storeGameEvent(event: InternalGameEvent): Promise<number | undefined> {
+  try {
+    const stored = await appendGameEvent(event)
+    return stored.sequence
+  } catch (error) {
+    console.error("Failed to store game event:", error)
+    return undefined
+  }
+}
+
+// ============================================================================
+// Loading and Saving
+// ============================================================================
+
+// Get room data with members
+export async function getRoomData(roomId: string) {
+  try {
+    return await roomRepository.findWithMembers(roomId)
+  } catch (error) {
+    console.error("Failed to get room data:", error)
+    return null
+  }
+}
+
+// Get current game state from room, with every hand in it
+export async function getRoomGameState(roomId: string): Promise<GameState | null> {
+  try {
+    const room = await roomRepository.findWithMembers(roomId)
+    if (!room) return null
+
+    const gameState = roomToGameState(room)
+    if (!gameState) {
+      console.error("Invalid game state constructed from database data")
+      return null
+    }
+
+    return gameState
+  } catch (error) {
+    console.error("Failed to get room game state:", error)
+    return null
+  }
+}
+
+// Save game state to room.
+// When the state carries a version, the write is a compare-and-swap against
+// Room.stateVersion and throws StateConflictError if another save got there
+// first. States without a version (fresh initial states) overwrite.
+// `commands` are the reducer commands that produced this state; they are
+// appended to the room's command log in the same write.
+// Returns the new state version.
+export async function saveRoomGameState(roomId: string, gameState: GameState, commands: GameCommand[] = []): Promise<number> {
+  try {
+    const result = await roomRepository.saveGameState(roomId, {
+      fields: gameStateToRoomFields(gameState),
+      expectedVersion: gameState.version,
+      commands: toCommandRecords(commands)
+    })
+
+    if (!result) {
+      throw new StateConflictError(roomId, gameState.version)
+    }
+
+    if (commands.length > 0) {
+      await writeSnapshotIfDue(roomId, result.lastCommand - commands.length + 1, result.lastCommand)
+    }
+
+    // Note: Specific actions will broadcast their own events
+    // Removed automatic GAME_STATE_UPDATED to prevent event spam
+    return result.version
+  } catch (error) {
+    if (!isStateConflict(error)) {
+      console.error("Failed to save room game state:", error)
+    }
+    throw error
+  }
+}
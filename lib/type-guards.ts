@@ -8,7 +8,7 @@
  * @see docs/REALTIME_ARCHITECTURE.md for complete documentation
  */
 
-import { GamePhase, Team, Bets, GameState, Player, Bet, Card, CardColor } from "./game-types"
+import { GamePhase, Team, Bets, GameState, Player, Bet, Card, CardColor, BotDifficulty, BOT_DIFFICULTIES } from "./game-types"
 import { BaseEventData, TeamEventData, BettingEventData, CardEventData, RoundEventData } from "./events"
 
 
@@ -44,6 +44,13 @@ export function isCardColor(value: any): value is CardColor {
   return Object.values(CardColor).includes(value)
 }
 
+/**
+ * Check if value is a valid BotDifficulty
+ */
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return BOT_DIFFICULTIES.includes(value as BotDifficulty)
+}
+
 /**
  * Check if value is a string
  */
@@ -146,7 +153,9 @@ export function isPlayer(value: any): value is Player {
     isString(value.name) &&
     (value.team === undefined || isTeam(value.team)) &&
     (value.seatPosition === undefined || isNumber(value.seatPosition)) &&
-    isBoolean(value.isReady)
+    isBoolean(value.isReady) &&
+    (value.isBot === undefined || isBoolean(value.isBot)) &&
+    (value.botDifficulty === undefined || isBotDifficulty(value.botDifficulty))
   )
 }
 
@@ -204,16 +213,16 @@ export function isGameState(value: any): value is GameState {
     logError('highestBet', 'valid Bet or undefined', value.highestBet)
     return false
   }
+  if (value.turnDeadline !== undefined && !isNumber(value.turnDeadline)) {
+    logError('turnDeadline', 'number or undefined', value.turnDeadline)
+    return false
+  }
 
   // Object fields
   if (!isObject(value.players)) {
     logError('players', 'object', value.players)
     return false
   }
-  if (!isObject(value.bets)) {
-    logError('bets', 'object', value.bets)
-    return false
-  }
   if (!isObject(value.playedCards)) {
     logError('playedCards', 'object', value.playedCards)
     return false
@@ -226,6 +235,10 @@ export function isGameState(value: any): value is GameState {
     logError('wonTricks', 'object', value.wonTricks)
     return false
   }
+  if (!isObject(value.cardPoints)) {
+    logError('cardPoints', 'object', value.cardPoints)
+    return false
+  }
   if (!isObject(value.scores)) {
     logError('scores', 'object', value.scores)
     return false
@@ -236,6 +249,10 @@ export function isGameState(value: any): value is GameState {
     logError('turnOrder', 'array', value.turnOrder)
     return false
   }
+  if (!isArray(value.bets)) {
+    logError('bets', 'array', value.bets)
+    return false
+  }
 
   // Validate nested objects
   for (const [playerId, player] of Object.entries(value.players)) {
@@ -245,9 +262,9 @@ export function isGameState(value: any): value is GameState {
     }
   }
 
-  for (const [playerId, bet] of Object.entries(value.bets)) {
-    if (!isBet(bet)) {
-      logError(`bets.${playerId}`, 'valid Bet', bet)
+  for (let index = 0; index < value.bets.length; index++) {
+    if (!isBet(value.bets[index])) {
+      logError(`bets[${index}]`, 'valid Bet', value.bets[index])
       return false
     }
   }
@@ -279,6 +296,13 @@ export function isGameState(value: any): value is GameState {
     }
   }
 
+  for (const [playerId, points] of Object.entries(value.cardPoints)) {
+    if (!isNumber(points)) {
+      logError(`cardPoints.${playerId}`, 'number', points)
+      return false
+    }
+  }
+
   for (const [playerId, score] of Object.entries(value.scores)) {
     if (!isNumber(score)) {
       logError(`scores.${playerId}`, 'number', score)
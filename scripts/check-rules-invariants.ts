@@ -0,0 +1,355 @@
+import { Bets, GamePhase, GameState, MatchTarget, RuleSet, Team, CARDS_PER_PLAYER, CARD_COLORS, CARD_VALUES, RULE_SET_LIMITS, ALL_PASS_RULES, TURN_TIME_LIMIT_OPTIONS } from "../lib/game-types"
+import {
+  canSelectTeam,
+  canPlaceBet,
+  canPlayCard,
+  getAllBets,
+  isTrickComplete,
+  areHandsDealt,
+  calculateRoundScores,
+  getTeamScores,
+  getRuleViolations,
+  getTricksForRound,
+  getTeamTallies,
+  getTimeoutMove,
+  getTurnDeadline,
+  isTurnTimed,
+  createSeededRandom,
+  type RandomSource
+} from "../lib/game-logic"
+import { getBotMove } from "../lib/bot-players"
+import { applyGameCommand, replayGameCommands, getBalancedSeating, settleBetting, dealForBidding, GameCommandBatch, type GameCommand } from "../lib/game-reducer"
+
+// Randomized invariant checks for the rules engine: plays whole matches under
+// random house rules through the command reducer with random legal moves, and
+// checks after every command that
+// - hands are out before the bidding when the rules deal before betting
+// - the auction only closes once everyone but the highest bidder has passed, and an
+//   all-pass is settled the way the house rules say
+// - all 32 cards are conserved (each round deals and plays the full deck exactly once)
+// - every player puts exactly one card on every trick, and the trick is recorded as played
+// - round scores add up to what calculateRoundScores awarded, and match end is decided correctly
+// - the move made on a turn timeout is legal (a pass when allowed, the lowest legal card), and
+//   every move restarts the clock for the next timed turn
+// - the bets and cards bots choose are legal
+// - replaying the recorded commands rebuilds the same state
+// Usage: npx tsx scripts/check-rules-invariants.ts [games] [seed]
+
+const GAMES = Number(process.argv[2]) || 200
+const BASE_SEED = Number(process.argv[3]) || 1
+const MAX_ROUNDS = 100
+
+const PLAYERS = ["p1", "p2", "p3", "p4"]
+const DECK_SIZE = CARD_COLORS.length * CARD_VALUES.length
+
+class InvariantError extends Error {}
+
+function fail(message: string, context: { game: number; seed: number; commands: GameCommand[] }): never {
+  const last = context.commands[context.commands.length - 1]
+  throw new InvariantError(`Game ${context.game} (seed ${context.seed}), after command #${context.commands.length} ${last?.type}: ${message}`)
+}
+
+// After a move the next player gets a full clock, even when it is the same player again
+function checkTurnClock(before: GameState, after: GameState, context: { game: number; seed: number; commands: GameCommand[] }) {
+  const now = 1000
+  const deadline = getTurnDeadline({ ...before, turnDeadline: 1 }, after, now)
+  const expected = isTurnTimed(after) ? now + after.rules!.turnTimeLimit * 1000 : undefined
+  if (deadline !== expected) {
+    fail(`turn deadline after the move is ${deadline}, expected ${expected}`, context)
+  }
+}
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+function createInitialState(matchTarget: MatchTarget, rules: RuleSet): GameState {
+  return {
+    phase: GamePhase.TEAM_SELECTION,
+    round: 1,
+    currentTurn: PLAYERS[0],
+    dealer: PLAYERS[0],
+    starter: PLAYERS[0],
+    players: Object.fromEntries(PLAYERS.map(id => [id, { id, name: id.toUpperCase(), isReady: true }])),
+    bets: [],
+    playedCards: {},
+    playerHands: {},
+    wonTricks: {},
+    cardPoints: {},
+    scores: {},
+    turnOrder: [...PLAYERS],
+    matchTarget,
+    rules
+  }
+}
+
+function randomMatchTarget(random: RandomSource): MatchTarget {
+  return random() < 0.5
+    ? { type: 'rounds', value: 1 + Math.floor(random() * 8) }
+    : { type: 'points', value: 5 + Math.floor(random() * 40) }
+}
+
+function randomRuleSet(random: RandomSource): RuleSet {
+  const between = (limits: { min: number; max: number }) => limits.min + Math.floor(random() * (limits.max - limits.min + 1))
+  return {
+    bonhommeRougePoints: between(RULE_SET_LIMITS.bonhommePoints),
+    bonhommeBrunPoints: between(RULE_SET_LIMITS.bonhommePoints),
+    minimumBet: between(RULE_SET_LIMITS.minimumBet),
+    mustOvertrump: random() < 0.5,
+    allPassRule: pick(ALL_PASS_RULES, random),
+    dealBeforeBetting: random() < 0.5,
+    trumpBetMultiplier: between(RULE_SET_LIMITS.betMultiplier),
+    noTrumpBetMultiplier: between(RULE_SET_LIMITS.betMultiplier),
+    turnTimeLimit: pick(TURN_TIME_LIMIT_OPTIONS, random)
+  }
+}
+
+/**
+ * Play one match with random legal moves, checking invariants along the way.
+ * Returns the number of rounds played and whether the match reached GAME_END.
+ */
+function playMatch(game: number, seed: number): { rounds: number; finished: boolean; commands: number } {
+  const random = createSeededRandom(seed)
+  const commands: GameCommand[] = []
+  const context = { game, seed, commands }
+
+  let state: GameState = createInitialState(randomMatchTarget(random), randomRuleSet(random))
+
+  const apply = (command: GameCommand) => {
+    state = applyGameCommand(state, command)
+    commands.push(command)
+
+    const violations = getRuleViolations(state)
+    if (violations.length > 0) {
+      fail(violations.join('; '), context)
+    }
+  }
+
+  apply({ type: 'GAME_INITIALIZED', state })
+  const initialState = state
+
+  // Teams: random legal picks until both teams are full
+  for (const playerId of PLAYERS) {
+    const teams = [Team.A, Team.B].filter(team => canSelectTeam(state, playerId, team))
+    apply({ type: 'TEAM_SELECTED', playerId, team: pick(teams, random) })
+  }
+  apply({ type: 'SEATS_ASSIGNED', seats: getBalancedSeating(state), dealerIndex: Math.floor(random() * PLAYERS.length) })
+  const seated = new GameCommandBatch(state)
+  dealForBidding(seated, Math.floor(random() * 4294967296))
+  seated.commands.forEach(apply)
+
+  // Cards played in the current round, in order, across all tricks
+  let roundCards: string[] = []
+
+  while (state.phase !== GamePhase.GAME_END && state.round <= MAX_ROUNDS) {
+    switch (state.phase) {
+      case GamePhase.BETS: {
+        if (state.rules!.dealBeforeBetting && !areHandsDealt(state)) {
+          fail('bidding without hands although the rules deal before betting', context)
+        }
+
+        const playerId = state.currentTurn
+        const legalBets = getAllBets()
+          .flatMap(bet => [{ ...bet, trump: false }, { ...bet, trump: true }])
+          .filter(bet => canPlaceBet(state, playerId, bet))
+        if (legalBets.length === 0) {
+          fail(`${playerId} has no legal bet`, context)
+        }
+
+        // Now and then the player runs out of time and the safe bet is made for them
+        const timeoutMove = getTimeoutMove(state)
+        if (timeoutMove?.type !== 'bet' || !legalBets.some(b => b.betValue === timeoutMove.betValue && b.trump === timeoutMove.trump)) {
+          fail(`timeout bet ${JSON.stringify(timeoutMove)} is not legal for ${playerId}`, context)
+        }
+        const canPass = legalBets.some(b => b.betValue === Bets.SKIP)
+        if (canPass !== (timeoutMove.betValue === Bets.SKIP)) {
+          fail(`timeout bet ${timeoutMove.betValue} although passing is ${canPass ? '' : 'not '}allowed`, context)
+        }
+
+        const botMove = getBotMove(state, playerId)
+        if (botMove?.type !== 'bet' || !legalBets.some(b => b.betValue === botMove.betValue && b.trump === botMove.trump)) {
+          fail(`bot bet ${JSON.stringify(botMove)} is not legal for ${playerId}`, context)
+        }
+
+        // Some seats are bots: they make the bet the bot heuristics choose
+        const roll = random()
+        const bet = roll < 0.2 ? timeoutMove : roll < 0.5 ? botMove : pick(legalBets, random)
+        const beforeBet = state
+        apply({ type: 'BET_PLACED', playerId, betValue: bet.betValue, trump: bet.trump, timestamp: Date.now() })
+        const auction = state.bets
+        const dealer = state.dealer
+        const allPassed = auction.every(b => b.betValue === Bets.SKIP)
+
+        // Close the bidding the way the actions do, then check each command it chose
+        const batch = new GameCommandBatch(state)
+        settleBetting(batch, Math.floor(random() * 4294967296))
+        batch.commands.forEach(apply)
+        checkTurnClock(beforeBet, state, context)
+
+        if (batch.commands.some(c => c.type === 'ROUND_REDEALT')) {
+          const nextDealer = state.turnOrder[(state.turnOrder.indexOf(dealer) + 1) % state.turnOrder.length]
+          if (!allPassed || state.rules!.allPassRule !== 'redeal') {
+            fail(`hands thrown in under ${state.rules!.allPassRule} although ${allPassed ? 'everyone' : 'not everyone'} passed`, context)
+          }
+          if (state.dealer !== nextDealer || state.bets.length > 0 || state.phase !== GamePhase.BETS) {
+            fail(`redeal left dealer ${state.dealer} (expected ${nextDealer}), ${state.bets.length} bets, phase ${state.phase}`, context)
+          }
+        }
+
+        if ((state.phase as GamePhase) === GamePhase.CARDS) {
+          roundCards = []
+
+          const lastBid = [...auction].reverse().find(b => b.betValue !== Bets.SKIP)
+          const stillIn = PLAYERS.filter(id => !auction.some(b => b.playerId === id && b.betValue === Bets.SKIP))
+          if (allPassed) {
+            if (state.rules!.allPassRule !== 'force-dealer' || state.highestBet?.playerId !== dealer || state.highestBet.value !== state.rules!.minimumBet) {
+              fail(`everyone passed under ${state.rules!.allPassRule}, but ${state.highestBet?.playerId} took a ${state.highestBet?.value} contract`, context)
+            }
+          } else if (!lastBid || stillIn.length !== 1 || stillIn[0] !== lastBid.playerId || state.highestBet?.playerId !== lastBid.playerId) {
+            fail(`auction closed with ${stillIn.length} players in, won by ${state.highestBet?.playerId}, last bid by ${lastBid?.playerId}`, context)
+          }
+
+          const dealt = Object.values(state.playerHands).flat().map(c => c.id)
+          if (dealt.length !== DECK_SIZE || new Set(dealt).size !== DECK_SIZE) {
+            fail(`deal handed out ${new Set(dealt).size} distinct of ${dealt.length} cards, expected ${DECK_SIZE}`, context)
+          }
+        }
+        break
+      }
+
+      case GamePhase.CARDS: {
+        const playerId = state.currentTurn
+        const hand = state.playerHands[playerId] || []
+        const legalCards = hand.filter(card => canPlayCard(state, playerId, card))
+        if (legalCards.length === 0) {
+          fail(`${playerId} has ${hand.length} cards but none is playable`, context)
+        }
+
+        const timeoutMove = getTimeoutMove(state)
+        const lowestValue = Math.min(...legalCards.map(card => card.value))
+        const timeoutCard = legalCards.find(card => timeoutMove?.type === 'card' && card.id === timeoutMove.cardId)
+        if (!timeoutCard || timeoutCard.value !== lowestValue) {
+          fail(`timeout card ${JSON.stringify(timeoutMove)} is not the lowest legal card (${lowestValue})`, context)
+        }
+
+        const botMove = getBotMove(state, playerId)
+        const botCard = legalCards.find(card => botMove?.type === 'card' && card.id === botMove.cardId)
+        if (!botCard) {
+          fail(`bot card ${JSON.stringify(botMove)} is not legal for ${playerId}`, context)
+        }
+
+        const beforePlay = state
+        const roll = random()
+        apply({ type: 'CARD_PLAYED', playerId, cardId: (roll < 0.2 ? timeoutCard : roll < 0.5 ? botCard : pick(legalCards, random)).id })
+
+        if (isTrickComplete(state)) {
+          const trick = Object.values(state.playedCards)
+          const players = new Set(trick.map(c => c.playerId))
+          if (trick.length !== PLAYERS.length || players.size !== PLAYERS.length) {
+            fail(`trick has ${trick.length} cards from ${players.size} players`, context)
+          }
+          roundCards.push(...trick.map(c => c.id))
+          const round = state.round
+          apply({ type: 'TRICK_RESOLVED' })
+
+          const recorded = getTricksForRound(state, round)
+          const record = recorded[recorded.length - 1]
+          const played = [...trick].sort((a, b) => a.playOrder - b.playOrder).map(c => c.id)
+          if (recorded.length !== roundCards.length / PLAYERS.length || record.cards.map(c => c.id).join() !== played.join()) {
+            fail(`trick ${recorded.length} recorded as ${record?.cards.map(c => c.id).join()}, played ${played.join()}`, context)
+          }
+        }
+        checkTurnClock(beforePlay, state, context)
+        break
+      }
+
+      case GamePhase.TRICK_SCORING: {
+        if (roundCards.length !== DECK_SIZE || new Set(roundCards).size !== DECK_SIZE) {
+          fail(`round played ${new Set(roundCards).size} distinct of ${roundCards.length} cards, expected ${DECK_SIZE}`, context)
+        }
+        if (roundCards.length / PLAYERS.length !== CARDS_PER_PLAYER) {
+          fail(`round had ${roundCards.length / PLAYERS.length} tricks, expected ${CARDS_PER_PLAYER}`, context)
+        }
+
+        const pointsByWinner: Record<string, number> = {}
+        const tricksByWinner: Record<string, number> = {}
+        for (const record of getTricksForRound(state, state.round)) {
+          pointsByWinner[record.winningPlayerId] = (pointsByWinner[record.winningPlayerId] || 0) + record.points
+          tricksByWinner[record.winningPlayerId] = (tricksByWinner[record.winningPlayerId] || 0) + 1
+        }
+        if (PLAYERS.some(id => (pointsByWinner[id] || 0) !== (state.cardPoints[id] || 0))) {
+          fail(`recorded tricks give ${JSON.stringify(pointsByWinner)}, card points are ${JSON.stringify(state.cardPoints)}`, context)
+        }
+        if (PLAYERS.some(id => (tricksByWinner[id] || 0) !== (state.wonTricks[id] || 0))) {
+          fail(`recorded tricks give ${JSON.stringify(tricksByWinner)} tricks, won tricks are ${JSON.stringify(state.wonTricks)}`, context)
+        }
+
+        const tallies = getTeamTallies(state)
+        if (tallies[Team.A].tricks + tallies[Team.B].tricks !== CARDS_PER_PLAYER) {
+          fail(`team tallies count ${tallies[Team.A].tricks + tallies[Team.B].tricks} tricks, expected ${CARDS_PER_PLAYER}`, context)
+        }
+
+        const before = getTeamScores(state)
+        const awarded = calculateRoundScores(state)
+        const scoredRound = state.round
+        apply({ type: 'ROUND_SCORED', seed: Math.floor(random() * 4294967296) })
+
+        const after = getTeamScores(state)
+        if (after[Team.A] - before[Team.A] !== awarded.teamAScore || after[Team.B] - before[Team.B] !== awarded.teamBScore) {
+          fail(`scores moved by A ${after[Team.A] - before[Team.A]} / B ${after[Team.B] - before[Team.B]}, awarded A ${awarded.teamAScore} / B ${awarded.teamBScore}`, context)
+        }
+
+        const target = state.matchTarget!
+        const leader = Math.max(after[Team.A], after[Team.B])
+        const decided = after[Team.A] !== after[Team.B] &&
+          (target.type === 'rounds' ? scoredRound >= target.value : leader >= target.value)
+        if (decided !== ((state.phase as GamePhase) === GamePhase.GAME_END)) {
+          fail(`match ${decided ? 'should' : 'should not'} have ended (scores A ${after[Team.A]} / B ${after[Team.B]}, target ${target.value} ${target.type}, round ${scoredRound})`, context)
+        }
+        if (decided && state.matchResult?.winningTeam !== (after[Team.A] > after[Team.B] ? Team.A : Team.B)) {
+          fail(`match result names team ${state.matchResult?.winningTeam} as winner`, context)
+        }
+        break
+      }
+
+      default:
+        fail(`unexpected phase ${state.phase}`, context)
+    }
+  }
+
+  // The command log alone must rebuild the final state, bet times included
+  const replayed = replayGameCommands(initialState, commands.slice(1))
+  if (JSON.stringify(replayed) !== JSON.stringify(state)) {
+    fail('replaying the commands does not rebuild the final state', context)
+  }
+
+  return { rounds: state.round, finished: state.phase === GamePhase.GAME_END, commands: commands.length }
+}
+
+function main() {
+  console.log(`🎲 Playing ${GAMES} random matches (base seed ${BASE_SEED})...`)
+
+  let finished = 0
+  let rounds = 0
+  let commands = 0
+
+  try {
+    for (let game = 0; game < GAMES; game++) {
+      const result = playMatch(game, BASE_SEED + game)
+      if (result.finished) finished++
+      rounds += result.rounds
+      commands += result.commands
+    }
+  } catch (error) {
+    if (error instanceof InvariantError) {
+      console.error(`❌ ${error.message}`)
+      process.exit(1)
+    }
+    throw error
+  }
+
+  console.log(`✅ ${GAMES} matches, ${rounds} rounds, ${commands} commands: all invariants held`)
+  console.log(`🏁 ${finished} matches reached GAME_END, ${GAMES - finished} stopped after ${MAX_ROUNDS} rounds`)
+}
+
+main()
@@ -0,0 +1,596 @@
+import { spawn, type ChildProcess } from "child_process"
+import { GamePhase, GameState, Team } from "../lib/game-types"
+import { getTeamScores } from "../lib/game-logic"
+import { chooseBotBet, chooseBotCard } from "../lib/bot-players"
+import { exposesForeignHands, getEventPhase } from "../lib/event-filtering"
+import type { GameEvent } from "../lib/events"
+import type { GameStateResponse } from "../lib/api-types"
+
+// End-to-end multiplayer test: starts the Next server, signs in four users and
+// has them play a full match against each other the way the browser client
+// does - server actions for signing in, rooms, teams and cards, the place-bet
+// route for bids and one SSE stream per player on /api/game-events/[roomId].
+// A fifth user watches the match as a spectator.
+// After every move it checks that the five clients agree:
+// - every client's /api/game-state view shows the same public state
+// - no client is ever shown another player's hand, by the API or over SSE
+//   (the spectator none at all)
+// - the five SSE streams deliver the same events in the same order
+// Moves are picked by the heuristic bot strategy from each player's own view.
+// Usage: npx tsx scripts/e2e-multiplayer.ts [option=value ...]
+//   store=memory|prisma  data store the server runs on (default memory; prisma uses DATABASE_URL)
+//   server=start|dev     production build (default) or next dev, which recompiles pages while
+//                        the test runs and can fail requests that land mid-compile
+//   port=3100            port for the server started by the script
+//   url=http://...       test a server that is already running instead of starting one
+//   rounds=N             stop after N rounds instead of playing the match out
+
+const OPTIONS = Object.fromEntries(
+  process.argv.slice(2).map(arg => {
+    const [key, ...rest] = arg.split("=")
+    return [key, rest.join("=")]
+  })
+)
+
+const STORE = OPTIONS.store || "memory"
+const SERVER_MODE = OPTIONS.server || "start"
+const PORT = Number(OPTIONS.port) || 3100
+const BASE_URL = (OPTIONS.url || `http://localhost:${PORT}`).replace(/\/$/, "")
+const MAX_ROUNDS = Number(OPTIONS.rounds) || Infinity
+
+const NEXT_BIN = "node_modules/.bin/next"
+// Pages compile on first request in dev mode, which can take a while
+const REQUEST_TIMEOUT_MS = 180_000
+const SERVER_START_TIMEOUT_MS = 240_000
+// How long the clients get to agree after a move
+const CONVERGE_TIMEOUT_MS = 10_000
+// Last events of a trick are broadcast after a delay (see lib/player-moves.ts)
+const SETTLE_MS = 3_000
+const MAX_MOVES = 5_000
+
+interface Client {
+  name: string
+  userId: string
+  cookie: string
+  events: SseEvent[]
+  stream: AbortController | null
+  streamError: string | null
+}
+
+interface SseEvent {
+  id?: number
+  event: GameEvent
+}
+
+interface ActionReference {
+  id: string
+  page: string
+}
+
+let failures = 0
+let server: ChildProcess | null = null
+const serverLog: string[] = []
+
+function check(condition: boolean, message: string) {
+  if (!condition) {
+    console.log(`  ❌ ${message}`)
+    failures++
+  }
+  return condition
+}
+
+function fail(message: string): never {
+  throw new Error(message)
+}
+
+async function sleep(ms: number) {
+  await new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (predicate()) return true
+    await sleep(25)
+  }
+  return predicate()
+}
+
+// Server
+
+async function startServer() {
+  if (OPTIONS.url) {
+    console.log(`🌐 Using the server at ${BASE_URL}`)
+    return
+  }
+
+  if (STORE !== "memory" && STORE !== "prisma") {
+    fail(`Unknown store "${STORE}", use store=memory or store=prisma`)
+  }
+  if (SERVER_MODE !== "start" && SERVER_MODE !== "dev") {
+    fail(`Unknown server mode "${SERVER_MODE}", use server=start or server=dev`)
+  }
+
+  if (SERVER_MODE === "start") {
+    console.log("🔨 Building the app...")
+    const build = runNext(["build"])
+    const code = await new Promise<number | null>(resolve => build.on("exit", resolve))
+    if (code !== 0) fail(`next build exited with code ${code}`)
+  }
+
+  console.log(`🚀 Starting next ${SERVER_MODE} on port ${PORT} with the ${STORE} data store...`)
+  server = runNext([SERVER_MODE, "-p", String(PORT)])
+
+  const deadline = Date.now() + SERVER_START_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) fail(`next dev exited with code ${server.exitCode}`)
+    try {
+      const response = await fetch(BASE_URL, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+      if (response.ok) {
+        console.log("✅ Server is up")
+        return
+      }
+    } catch {
+      // Not listening yet
+    }
+    await sleep(1000)
+  }
+  fail("The server did not come up in time")
+}
+
+function runNext(args: string[]): ChildProcess {
+  // Own process group, so the server and its workers are stopped together
+  const child = spawn(NEXT_BIN, args, {
+    env: { ...process.env, DATA_STORE: STORE },
+    stdio: ["ignore", "pipe", "pipe"],
+    detached: true
+  })
+  const keepLog = (chunk: Buffer) => {
+    serverLog.push(...chunk.toString().split("\n").filter(Boolean))
+    serverLog.splice(0, Math.max(0, serverLog.length - 200))
+  }
+  child.stdout?.on("data", keepLog)
+  child.stderr?.on("data", keepLog)
+  return child
+}
+
+function stopServer() {
+  if (!server?.pid || server.exitCode !== null) return
+  try {
+    process.kill(-server.pid, "SIGTERM")
+  } catch {
+    server.kill("SIGTERM")
+  }
+}
+
+// HTTP
+
+async function request(path: string, client: Client | null, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  if (client?.cookie) headers.set("Cookie", client.cookie)
+  return fetch(`${BASE_URL}${path}`, {
+    ...init,
+    headers,
+    redirect: "manual",
+    signal: init.signal ?? AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  })
+}
+
+async function getView(client: Client, roomId: string): Promise<GameState> {
+  return (await getViewResponse(client, roomId)).gameState as GameState
+}
+
+async function getViewResponse(client: Client, roomId: string): Promise<GameStateResponse> {
+  const response = await request(`/api/game-state/${roomId}`, client)
+  const body = await response.json()
+  if (!body.success) fail(`${client.name} could not load the game state: ${body.error}`)
+  return body.data as GameStateResponse
+}
+
+// Server actions
+//
+// The browser calls a server action by POSTing its arguments to the page it
+// was rendered on, with the action id in the Next-Action header. Action ids are
+// only known to the client bundles, so they are read from the page's scripts.
+
+const actions = new Map<string, ActionReference>()
+
+async function discoverActions(page: string, client: Client | null, names: string[]) {
+  const html = await (await request(page, client)).text()
+  const scripts = [...html.matchAll(/<script[^>]+src="([^"]+)"/g)].map(match => match[1].replace(/&amp;/g, "&"))
+
+  for (const script of scripts) {
+    if (!script.startsWith("/_next/")) continue
+    const source = await (await request(script, null)).text()
+    // createServerReference("<id>", callServer, void 0, findSourceMapURL, "<name>"), quoted inside eval() in dev builds
+    const references = source.matchAll(/createServerReference\)\(\\?["']([0-9a-f]+)\\?["'][^"'()\\]*\\?["'](\w+)\\?["']\)/g)
+    for (const [, id, name] of references) {
+      if (!actions.has(name)) actions.set(name, { id, page })
+    }
+  }
+
+  const missing = names.filter(name => !actions.has(name))
+  if (missing.length > 0) fail(`Could not find the server actions ${missing.join(", ")} on ${page}`)
+}
+
+// Flight rows ("<id>:<json>") of an action response, with "$<id>" references resolved
+function decodeActionResult(body: string): unknown {
+  const rows = new Map<string, unknown>()
+  for (const line of body.split("\n")) {
+    const match = /^([0-9a-f]+):(.*)$/.exec(line)
+    if (!match) continue
+    const [, id, payload] = match
+    if (payload.startsWith("E")) {
+      const error = JSON.parse(payload.slice(1)) as { message?: string }
+      fail(`Server action threw: ${error.message ?? payload}`)
+    }
+    // Rendered tree rows (modules, hints, text chunks) are not needed for the result
+    try {
+      rows.set(id, JSON.parse(payload))
+    } catch {
+      continue
+    }
+  }
+
+  // Rows are resolved once, so rows that refer back to each other do not recurse forever
+  const resolved = new Map<string, unknown>()
+  const resolveRow = (id: string): unknown => {
+    if (!resolved.has(id)) {
+      resolved.set(id, undefined)
+      resolved.set(id, resolve(rows.get(id)))
+    }
+    return resolved.get(id)
+  }
+
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === "string" && value.startsWith("$")) {
+      if (value === "$undefined") return undefined
+      if (value.startsWith("$$")) return value.slice(1)
+      if (value.startsWith("$D")) return new Date(value.slice(2))
+      const reference = /^\$@?([0-9a-f]+)((?::[^:]+)*)$/.exec(value)
+      if (reference) {
+        let target = resolveRow(reference[1])
+        for (const key of reference[2].split(":").filter(Boolean)) {
+          target = (target as Record<string, unknown>)?.[key]
+        }
+        return target
+      }
+      return value
+    }
+    if (Array.isArray(value)) return value.map(resolve)
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, resolve(entry)]))
+    }
+    return value
+  }
+
+  const root = resolveRow("0") as { a?: unknown } | undefined
+  return root?.a
+}
+
+interface ActionResponse {
+  result: unknown
+  redirect: string | null
+  setCookie: string | null
+}
+
+async function callAction(name: string, client: Client | null, args: unknown[] | FormData): Promise<ActionResponse> {
+  const action = actions.get(name) ?? fail(`Unknown server action ${name}`)
+
+  // useActionState form actions receive (previousState, formData); React sends the form fields
+  // prefixed "1_" and the arguments last, as the server decodes them as soon as they arrive
+  let body: string | FormData
+  if (args instanceof FormData) {
+    body = new FormData()
+    for (const [key, value] of args) body.append(`1_${key}`, value)
+    body.append("0", JSON.stringify([null, "$K1"]))
+  } else {
+    body = JSON.stringify(args)
+  }
+
+  const response = await request(action.page, client, {
+    method: "POST",
+    headers: { "Next-Action": action.id, Accept: "text/x-component", Origin: BASE_URL },
+    body
+  })
+  const text = await response.text()
+  if (!response.ok && response.status !== 303) {
+    fail(`${name} failed with HTTP ${response.status}: ${text.slice(0, 200)}`)
+  }
+
+  return {
+    result: text ? decodeActionResult(text) : undefined,
+    redirect: response.headers.get("x-action-redirect")?.split(";")[0] ?? null,
+    setCookie: response.headers.get("set-cookie")
+  }
+}
+
+async function callGameAction(name: string, client: Client, args: unknown[]) {
+  const { result } = await callAction(name, client, args)
+  const outcome = result as { success?: boolean; error?: string } | undefined
+  if (!outcome?.success) fail(`${name} by ${client.name} failed: ${outcome?.error ?? "no result"}`)
+}
+
+function form(fields: Record<string, string>): FormData {
+  const data = new FormData()
+  for (const [key, value] of Object.entries(fields)) data.append(key, value)
+  return data
+}
+
+// Clients
+
+async function signIn(name: string): Promise<Client> {
+  const { result, setCookie } = await callAction("signIn", null, form({ name }))
+  const outcome = result as { success?: boolean; error?: string } | undefined
+  const sessionId = setCookie?.match(/sessionId=([^;]+)/)?.[1]
+  if (!outcome?.success || !sessionId) fail(`Could not sign in ${name}: ${outcome?.error ?? "no session cookie"}`)
+
+  return { name, userId: "", cookie: `sessionId=${sessionId}`, events: [], stream: null, streamError: null }
+}
+
+async function openStream(client: Client, roomId: string) {
+  const controller = new AbortController()
+  const response = await request(`/api/game-events/${roomId}`, client, {
+    headers: { Accept: "text/event-stream" },
+    signal: controller.signal
+  })
+  if (!response.ok || !response.body) fail(`${client.name} could not open the event stream (HTTP ${response.status})`)
+  client.stream = controller
+
+  // Read in the background until the stream is aborted at the end of the run
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  void (async () => {
+    try {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+        let boundary: number
+        while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+          const message = buffer.slice(0, boundary)
+          buffer = buffer.slice(boundary + 2)
+          receive(client, message)
+        }
+      }
+      if (!controller.signal.aborted) client.streamError = "stream closed by the server"
+    } catch (error) {
+      if (!controller.signal.aborted) client.streamError = String(error)
+    }
+  })()
+
+  const connected = await waitFor(() => client.events.some(e => (e.event as { type: string }).type === "CONNECTED"), REQUEST_TIMEOUT_MS)
+  if (!connected) fail(`${client.name} never got the CONNECTED message`)
+}
+
+function receive(client: Client, message: string) {
+  let id: number | undefined
+  const data: string[] = []
+  for (const line of message.split("\n")) {
+    if (line.startsWith("id:")) id = Number(line.slice(3).trim())
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart())
+  }
+  if (data.length === 0) return
+
+  const event = JSON.parse(data.join("\n")) as GameEvent
+  client.events.push({ id, event })
+  check(!exposesForeignHands(event, client.userId), `${client.name} was sent another player's hand in ${event.type} #${id}`)
+}
+
+function lastEventId(client: Client): number {
+  const ids = client.events.map(e => e.id).filter((id): id is number => id !== undefined)
+  return ids.length > 0 ? ids[ids.length - 1] : 0
+}
+
+// Convergence
+
+// Everything in a view except the viewer's own cards must be the same for every player
+function publicFieldsDiffering(view: GameState, reference: GameState): string[] {
+  const fields = new Set([...Object.keys(view), ...Object.keys(reference)])
+  fields.delete("playerHands")
+  return [...fields].filter(field =>
+    JSON.stringify(view[field as keyof GameState]) !== JSON.stringify(reference[field as keyof GameState])
+  )
+}
+
+async function checkViews(clients: Client[], roomId: string, label: string): Promise<GameState[]> {
+  const views = await Promise.all(clients.map(client => getView(client, roomId)))
+
+  views.forEach((view, index) => {
+    const client = clients[index]
+    const visibleHands = Object.keys(view.playerHands || {})
+    check(visibleHands.every(id => id === client.userId), `${label}: ${client.name} can see another player's hand`)
+  })
+
+  views.slice(1).forEach((view, index) => {
+    const differing = publicFieldsDiffering(view, views[0])
+    check(differing.length === 0, `${label}: ${clients[index + 1].name} sees a different ${differing.join(", ")} than ${clients[0].name}`)
+  })
+  return views
+}
+
+async function checkStreams(clients: Client[], label: string) {
+  const converged = await waitFor(() => {
+    const latest = clients.map(lastEventId)
+    return latest.every(id => id === latest[0])
+  }, CONVERGE_TIMEOUT_MS)
+  check(converged, `${label}: the event streams did not converge (last ids ${clients.map(lastEventId).join(", ")})`)
+  for (const client of clients) {
+    check(!client.streamError, `${label}: ${client.name}'s event stream failed: ${client.streamError}`)
+  }
+}
+
+function checkEventLogs(clients: Client[], finalPhase?: GamePhase) {
+  const sequences = clients.map(client => client.events.map(e => e.id).filter((id): id is number => id !== undefined))
+  sequences.forEach((ids, index) => {
+    check(ids.every((id, i) => i === 0 || id > ids[i - 1]), `${clients[index].name} received events out of order`)
+    check(JSON.stringify(ids) === JSON.stringify(sequences[0]), `${clients[index].name} received different events than ${clients[0].name}`)
+  })
+
+  // Hands are redacted per viewer, so compare everything else; heartbeats carry no id
+  // and are timed per connection, so only logged events are compared
+  const types = clients.map(client => client.events.filter(e => e.id !== undefined).map(e => e.event.type).join(","))
+  types.forEach((list, index) => check(list === types[0], `${clients[index].name} saw different event types than ${clients[0].name}`))
+
+  for (const client of finalPhase ? clients : []) {
+    const phases = client.events.map(e => getEventPhase(e.event)).filter(Boolean)
+    check(phases[phases.length - 1] === finalPhase, `${client.name}'s event stream ended in phase ${phases[phases.length - 1]}, not ${finalPhase}`)
+  }
+
+  console.log(`📡 ${sequences[0].length} events delivered to each client`)
+}
+
+// Match
+
+// `audience` is every client following the match: the players and the spectator
+async function playMatch(clients: Client[], audience: Client[], roomId: string): Promise<GameState> {
+  const byId = new Map(clients.map(client => [client.userId, client]))
+  let moves = 0
+  let round = 0
+
+  while (moves < MAX_MOVES) {
+    const views = await checkViews(audience, roomId, `move ${moves}`)
+    const state = views[0]
+
+    if (state.phase === GamePhase.GAME_END || state.round > MAX_ROUNDS) return state
+    if (state.round !== round) {
+      round = state.round
+      const scores = getTeamScores(state)
+      console.log(`🎯 Round ${round} (team A ${scores[Team.A]}, team B ${scores[Team.B]})`)
+    }
+
+    const player = state.currentTurn ? byId.get(state.currentTurn) : undefined
+    if (!player || (state.phase !== GamePhase.BETS && state.phase !== GamePhase.CARDS)) {
+      // Between phases: give the server a moment
+      await sleep(250)
+      moves++
+      continue
+    }
+    const view = views[audience.indexOf(player)]
+
+    if (state.phase === GamePhase.BETS) {
+      const bet = chooseBotBet(view, player.userId) ?? fail(`No legal bet for ${player.name}`)
+      const response = await request("/api/place-bet", player, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roomId, betValue: bet.betValue, trump: bet.trump })
+      })
+      const body = await response.json()
+      if (!body.success) fail(`${player.name} could not bet ${bet.betValue}: ${body.error}`)
+    } else {
+      const card = chooseBotCard(view, player.userId) ?? fail(`No legal card for ${player.name}`)
+      await callGameAction("playCardAction", player, [roomId, card.id])
+    }
+
+    moves++
+    await checkStreams(audience, `move ${moves}`)
+  }
+
+  fail(`The match did not end within ${MAX_MOVES} moves`)
+}
+
+async function main() {
+  await startServer()
+
+  const runId = Date.now().toString(36)
+  console.log(`🔎 Looking up server actions...`)
+  await discoverActions("/", null, ["signIn"])
+
+  console.log("👥 Signing in four players...")
+  const clients: Client[] = []
+  for (let i = 1; i <= 4; i++) {
+    clients.push(await signIn(`e2e-${runId}-${i}`))
+  }
+  const [host, ...guests] = clients
+  // Never given a seat, so it has no player id and may see no hand at all
+  const spectator = await signIn(`e2e-${runId}-watcher`)
+  const audience = [...clients, spectator]
+
+  await discoverActions("/dashboard", host, ["createRoom", "joinRoom", "spectateRoom"])
+  const created = await callAction("createRoom", host, form({ roomName: `E2E ${runId}` }))
+  const roomId = created.redirect?.match(/^\/room\/([^/?]+)/)?.[1] ?? fail(`createRoom did not redirect to the room: ${JSON.stringify(created.result)}`)
+  console.log(`🏠 Created room ${roomId}`)
+
+  for (const guest of guests) {
+    const joined = await callAction("joinRoom", guest, form({ roomId }))
+    if (joined.redirect !== `/room/${roomId}`) fail(`${guest.name} could not join: ${JSON.stringify(joined.result)}`)
+  }
+
+  // Player ids come from the game state, which is keyed by user id
+  const lobby = await getView(host, roomId)
+  for (const client of clients) {
+    const player = Object.values(lobby.players).find(p => p.name === client.name) ?? fail(`${client.name} is not in the game`)
+    client.userId = player.id
+  }
+  check(lobby.phase === GamePhase.TEAM_SELECTION, `Full room should be in team selection, got ${lobby.phase}`)
+
+  console.log("👁️ Joining a spectator...")
+  const refused = await request(`/api/game-events/${roomId}`, spectator, { headers: { Accept: "text/event-stream" } })
+  check(refused.status === 403, `A user who neither joined nor spectates should be refused the event stream, got HTTP ${refused.status}`)
+  await refused.body?.cancel()
+  const overfull = await callAction("joinRoom", spectator, form({ roomId }))
+  check(overfull.redirect === null, "A fifth player should not get a seat in a full room")
+  const watching = await callAction("spectateRoom", spectator, form({ roomId }))
+  if (watching.redirect !== `/room/${roomId}`) fail(`${spectator.name} could not spectate: ${JSON.stringify(watching.result)}`)
+  const spectatorView = await getViewResponse(spectator, roomId)
+  check(spectatorView.isSpectator && !spectatorView.isPlayerInRoom, "The spectator should be reported as spectating, not playing")
+  check((await getViewResponse(host, roomId)).spectatorCount === 1, "The players should see one spectator")
+
+  console.log("📡 Opening five event streams...")
+  await Promise.all(audience.map(client => openStream(client, roomId)))
+
+  await discoverActions(`/room/${roomId}`, host, ["selectTeamAction", "playCardAction"])
+
+  const teams = [Team.A, Team.A, Team.B, Team.B]
+  for (const [index, client] of clients.entries()) {
+    await callGameAction("selectTeamAction", client, [roomId, teams[index]])
+    await checkStreams(audience, `team selection by ${client.name}`)
+  }
+
+  const started = Date.now()
+  const finalState = await playMatch(clients, audience, roomId)
+  const elapsed = ((Date.now() - started) / 1000).toFixed(1)
+  if (finalState.matchResult) {
+    console.log(`🏆 Team ${finalState.matchResult.winningTeam} won after ${finalState.matchResult.roundsPlayed} rounds in ${elapsed}s`)
+  } else {
+    console.log(`⏹️ Stopped after ${MAX_ROUNDS} rounds in ${elapsed}s`)
+  }
+
+  // Let the delayed end-of-trick events arrive before comparing the full logs
+  await sleep(SETTLE_MS)
+  await checkStreams(audience, "match end")
+  await checkViews(audience, roomId, "match end")
+  // A match played out must have been announced as over on every stream
+  checkEventLogs(audience, finalState.matchResult ? GamePhase.GAME_END : undefined)
+
+  // Leaving is announced to the players
+  await discoverActions(`/room/${roomId}`, spectator, ["stopSpectatingAction"])
+  await callGameAction("stopSpectatingAction", spectator, [roomId])
+  // Event data arrives flattened into the event
+  const announced = await waitFor(() => host.events.some(e =>
+    e.event.type === "SPECTATORS_CHANGED" && (e.event as unknown as { spectatorCount: number }).spectatorCount === 0
+  ), CONVERGE_TIMEOUT_MS)
+  check(announced, "The players were not told the spectator left")
+
+  for (const client of audience) client.stream?.abort()
+}
+
+main()
+  .catch(error => {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`)
+    if (serverLog.length > 0) {
+      console.error("--- last server output ---")
+      console.error(serverLog.slice(-40).join("\n"))
+    }
+    failures++
+  })
+  .finally(() => {
+    stopServer()
+    if (failures > 0) {
+      console.log(`\n❌ ${failures} check(s) failed`)
+      process.exit(1)
+    }
+    console.log("\n✅ All five clients stayed in sync")
+    process.exit(0)
+  })
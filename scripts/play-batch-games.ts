@@ -0,0 +1,314 @@
+import { Bets, GamePhase, GameState, MatchTarget, RuleSet, Team, BotDifficulty, BotMove, BOT_DIFFICULTIES, DEFAULT_MATCH_TARGET, DEFAULT_RULE_SET, ALL_PASS_RULES } from "../lib/game-types"
+import {
+  canPlaceBet,
+  canPlayCard,
+  getAllBets,
+  isTrickComplete,
+  calculateRoundScores,
+  getTricksForRound,
+  isValidRuleSet,
+  isValidMatchTarget,
+  createSeededRandom,
+  type RandomSource
+} from "../lib/game-logic"
+import { applyGameCommand, getBalancedSeating, settleBetting, dealForBidding, GameCommandBatch, type GameCommand } from "../lib/game-reducer"
+import { getBotMove } from "../lib/bot-players"
+import { getAiMove } from "../lib/bot-ai"
+
+// Headless batch runner for the rules engine: plays complete matches between
+// two bot strategies through the command reducer, with seeded deals, and
+// prints what happened across all of them
+// - match wins per team and rounds per match
+// - contracts by bid size and trump choice: how often each was made and what it scored
+// - how often the bonhommes ended with the betting or the defending team
+// - matches the engine crashed on, with the seed to reproduce them
+// Nothing touches the database, so house rules can be tried out freely.
+// Usage: npx tsx scripts/play-batch-games.ts [games] [seed] [teamA] [teamB] [rule=value ...]
+//   strategies: random, heuristic, easy, medium, hard (the search AI levels are much slower)
+//   rules: any RuleSet field, e.g. minimumBet=8 allPassRule=redeal mustOvertrump=true,
+//   and target=points:41 or target=rounds:10 for the match target
+
+type Strategy = 'random' | 'heuristic' | BotDifficulty
+
+const STRATEGIES: Strategy[] = ['random', 'heuristic', ...BOT_DIFFICULTIES]
+
+const GAMES = Number(process.argv[2]) || 1000
+const BASE_SEED = Number(process.argv[3]) || 1
+const STRATEGY_A = (process.argv[4] || 'heuristic') as Strategy
+const STRATEGY_B = (process.argv[5] || 'heuristic') as Strategy
+const OPTIONS = process.argv.slice(6)
+
+const MAX_ROUNDS = 100
+const MAX_DEALS = 500 // rounds plus hands thrown in, so an all-pass loop cannot run forever
+
+// Team A sits in seats 1 and 3, team B in 2 and 4
+const PLAYERS = ["a1", "b1", "a2", "b2"]
+const TEAMS: Record<string, Team> = { a1: Team.A, b1: Team.B, a2: Team.A, b2: Team.B }
+
+interface ContractStats {
+  contracts: number
+  made: number
+  bettingTeamScore: number // summed round scores of the betting team
+}
+
+interface BonhommeStats {
+  rounds: number
+  redToBetters: number
+  brownToBetters: number
+}
+
+interface BatchStats {
+  matches: number
+  finished: number
+  capped: number
+  crashes: { seed: number; message: string }[]
+  wins: Record<Team, number>
+  roundsPerMatch: number[]
+  thrownIn: number
+  contracts: Record<string, ContractStats>
+  bonhommes: BonhommeStats
+}
+
+function parseOptions(options: string[]): { rules: RuleSet; matchTarget: MatchTarget } {
+  const rules: RuleSet = { ...DEFAULT_RULE_SET }
+  let matchTarget: MatchTarget = { ...DEFAULT_MATCH_TARGET }
+
+  for (const option of options) {
+    const [key, value] = option.split('=')
+    if (key === 'target') {
+      const [type, target] = (value || '').split(':')
+      matchTarget = { type: type as MatchTarget['type'], value: Number(target) }
+    } else if (key === 'allPassRule') {
+      rules.allPassRule = value as RuleSet['allPassRule']
+    } else if (typeof DEFAULT_RULE_SET[key as keyof RuleSet] === 'boolean') {
+      (rules as unknown as Record<string, unknown>)[key] = value === 'true'
+    } else if (typeof DEFAULT_RULE_SET[key as keyof RuleSet] === 'number') {
+      (rules as unknown as Record<string, unknown>)[key] = Number(value)
+    } else {
+      throw new Error(`Unknown option ${option}`)
+    }
+  }
+
+  if (!isValidRuleSet(rules)) {
+    throw new Error(`Invalid house rules ${JSON.stringify(rules)} (all-pass rules: ${ALL_PASS_RULES.join(', ')})`)
+  }
+  if (!isValidMatchTarget(matchTarget)) {
+    throw new Error(`Invalid match target ${matchTarget.value} ${matchTarget.type}`)
+  }
+  return { rules, matchTarget }
+}
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+// Any legal move, uniformly
+function getRandomMove(state: GameState, playerId: string, random: RandomSource): BotMove {
+  if (state.phase === GamePhase.BETS) {
+    const bets = getAllBets()
+      .flatMap(bet => bet.betValue === Bets.SKIP ? [bet] : [{ ...bet, trump: true }, bet])
+      .filter(bet => canPlaceBet(state, playerId, bet))
+    const bet = pick(bets, random)
+    return { type: 'bet', betValue: bet.betValue, trump: bet.trump }
+  }
+  const cards = (state.playerHands[playerId] || []).filter(card => canPlayCard(state, playerId, card))
+  return { type: 'card', cardId: pick(cards, random).id }
+}
+
+function chooseMove(strategy: Strategy, state: GameState, playerId: string, random: RandomSource): BotMove {
+  const move = strategy === 'random'
+    ? getRandomMove(state, playerId, random)
+    : strategy === 'heuristic'
+      ? getBotMove(state, playerId)
+      : getAiMove(state, playerId, strategy, random)
+  if (!move) {
+    throw new Error(`${strategy} strategy found no move for ${playerId} in ${state.phase}`)
+  }
+  return move
+}
+
+function createInitialState(matchTarget: MatchTarget, rules: RuleSet): GameState {
+  return {
+    phase: GamePhase.TEAM_SELECTION,
+    round: 1,
+    currentTurn: PLAYERS[0],
+    dealer: PLAYERS[0],
+    starter: PLAYERS[0],
+    players: Object.fromEntries(PLAYERS.map(id => [id, { id, name: id.toUpperCase(), isReady: true, isBot: true }])),
+    bets: [],
+    playedCards: {},
+    playerHands: {},
+    wonTricks: {},
+    cardPoints: {},
+    scores: {},
+    turnOrder: [...PLAYERS],
+    matchTarget,
+    rules
+  }
+}
+
+// Record how a finished round went, before it is scored
+function recordRound(state: GameState, stats: BatchStats): void {
+  const contract = state.highestBet!
+  const bettingTeam = state.players[contract.playerId].team!
+  const { teamAScore, teamBScore, bettingTeamWon } = calculateRoundScores(state)
+
+  const key = `${contract.value} ${contract.trump ? 'trump' : 'no-trump'}`
+  const entry = stats.contracts[key] ??= { contracts: 0, made: 0, bettingTeamScore: 0 }
+  entry.contracts++
+  if (bettingTeamWon) entry.made++
+  entry.bettingTeamScore += bettingTeam === Team.A ? teamAScore : teamBScore
+
+  const tricks = getTricksForRound(state, state.round)
+  const takenByBetters = (captured: (trick: typeof tricks[number]) => boolean) =>
+    tricks.some(trick => captured(trick) && state.players[trick.winningPlayerId].team === bettingTeam)
+  stats.bonhommes.rounds++
+  if (takenByBetters(trick => trick.capturedBonhommeRouge)) stats.bonhommes.redToBetters++
+  if (takenByBetters(trick => trick.capturedBonhommeBrun)) stats.bonhommes.brownToBetters++
+}
+
+function playMatch(seed: number, rules: RuleSet, matchTarget: MatchTarget, stats: BatchStats): void {
+  const random = createSeededRandom(seed)
+  const nextSeed = () => Math.floor(random() * 4294967296)
+  let state = createInitialState(matchTarget, rules)
+
+  const apply = (command: GameCommand) => {
+    state = applyGameCommand(state, command)
+  }
+
+  PLAYERS.forEach(playerId => apply({ type: 'TEAM_SELECTED', playerId, team: TEAMS[playerId] }))
+  apply({ type: 'SEATS_ASSIGNED', seats: getBalancedSeating(state), dealerIndex: Math.floor(random() * PLAYERS.length) })
+  const seated = new GameCommandBatch(state)
+  dealForBidding(seated, nextSeed())
+  state = seated.state
+
+  let deals = 0
+  while (state.phase !== GamePhase.GAME_END && state.round <= MAX_ROUNDS && deals < MAX_DEALS) {
+    const playerId = state.currentTurn
+    const strategy = TEAMS[playerId] === Team.A ? STRATEGY_A : STRATEGY_B
+
+    switch (state.phase) {
+      case GamePhase.BETS: {
+        const move = chooseMove(strategy, state, playerId, random)
+        if (move.type !== 'bet') throw new Error(`expected a bet from ${playerId}, got ${move.type}`)
+
+        const batch = new GameCommandBatch(state)
+        batch.apply({ type: 'BET_PLACED', playerId, betValue: move.betValue, trump: move.trump, timestamp: Date.now() })
+        settleBetting(batch, nextSeed())
+        state = batch.state
+        if (batch.commands.some(command => command.type === 'ROUND_REDEALT')) {
+          stats.thrownIn++
+          deals++
+        }
+        break
+      }
+
+      case GamePhase.CARDS: {
+        const move = chooseMove(strategy, state, playerId, random)
+        if (move.type !== 'card') throw new Error(`expected a card from ${playerId}, got ${move.type}`)
+
+        apply({ type: 'CARD_PLAYED', playerId, cardId: move.cardId })
+        if (isTrickComplete(state)) apply({ type: 'TRICK_RESOLVED' })
+        break
+      }
+
+      case GamePhase.TRICK_SCORING:
+        recordRound(state, stats)
+        apply({ type: 'ROUND_SCORED', seed: nextSeed() })
+        deals++
+        break
+
+      default:
+        throw new Error(`unexpected phase ${state.phase}`)
+    }
+  }
+
+  if (state.phase === GamePhase.GAME_END) {
+    stats.finished++
+    stats.wins[state.matchResult!.winningTeam]++
+    stats.roundsPerMatch.push(state.matchResult!.roundsPlayed)
+  } else {
+    stats.capped++
+  }
+}
+
+const percent = (part: number, whole: number) => whole > 0 ? `${(100 * part / whole).toFixed(1)}%` : '-'
+
+function printReport(stats: BatchStats): void {
+  const rounds = stats.roundsPerMatch
+  const averageRounds = rounds.length > 0 ? rounds.reduce((sum, r) => sum + r, 0) / rounds.length : 0
+
+  console.log(`\n🏁 ${stats.finished} of ${stats.matches} matches finished, ${stats.capped} stopped after ${MAX_ROUNDS} rounds, ${stats.crashes.length} crashed`)
+  console.log(`🏆 Team A (${STRATEGY_A}) won ${stats.wins[Team.A]} (${percent(stats.wins[Team.A], stats.finished)}), team B (${STRATEGY_B}) won ${stats.wins[Team.B]} (${percent(stats.wins[Team.B], stats.finished)})`)
+  if (rounds.length > 0) {
+    console.log(`🔁 Rounds per match: average ${averageRounds.toFixed(1)}, min ${Math.min(...rounds)}, max ${Math.max(...rounds)}`)
+  }
+  console.log(`🃏 ${stats.thrownIn} hands thrown in after everyone passed`)
+
+  console.log('\n📊 Contracts by bid size and trump choice:')
+  const byBid = Object.entries(stats.contracts)
+    .sort(([a], [b]) => parseInt(a) - parseInt(b) || a.localeCompare(b))
+    .map(([contract, entry]) => ({
+      contract,
+      played: entry.contracts,
+      made: percent(entry.made, entry.contracts),
+      'avg betting score': (entry.bettingTeamScore / entry.contracts).toFixed(2)
+    }))
+  console.table(byBid)
+
+  const { rounds: played, redToBetters, brownToBetters } = stats.bonhommes
+  console.log(`🔴 Red 0 taken by the betting team in ${percent(redToBetters, played)} of rounds, by the defenders in ${percent(played - redToBetters, played)}`)
+  console.log(`🟤 Brown 0 taken by the betting team in ${percent(brownToBetters, played)} of rounds, by the defenders in ${percent(played - brownToBetters, played)}`)
+
+  stats.crashes.slice(0, 10).forEach(crash => console.error(`💥 Seed ${crash.seed}: ${crash.message}`))
+}
+
+function main() {
+  for (const strategy of [STRATEGY_A, STRATEGY_B]) {
+    if (!STRATEGIES.includes(strategy)) {
+      console.error(`❌ Unknown strategy ${strategy} (expected one of ${STRATEGIES.join(', ')})`)
+      process.exit(1)
+    }
+  }
+
+  let options: { rules: RuleSet; matchTarget: MatchTarget }
+  try {
+    options = parseOptions(OPTIONS)
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`)
+    process.exit(1)
+  }
+
+  console.log(`🎲 Playing ${GAMES} matches, ${STRATEGY_A} (team A) against ${STRATEGY_B} (team B), base seed ${BASE_SEED}`)
+  console.log(`📜 Rules: ${JSON.stringify(options.rules)}, playing to ${options.matchTarget.value} ${options.matchTarget.type}`)
+
+  const stats: BatchStats = {
+    matches: 0,
+    finished: 0,
+    capped: 0,
+    crashes: [],
+    wins: { [Team.A]: 0, [Team.B]: 0 },
+    roundsPerMatch: [],
+    thrownIn: 0,
+    contracts: {},
+    bonhommes: { rounds: 0, redToBetters: 0, brownToBetters: 0 }
+  }
+
+  const started = Date.now()
+  for (let game = 0; game < GAMES; game++) {
+    stats.matches++
+    try {
+      playMatch(BASE_SEED + game, options.rules, options.matchTarget, stats)
+    } catch (error) {
+      stats.crashes.push({ seed: BASE_SEED + game, message: (error as Error).stack || String(error) })
+    }
+  }
+  console.log(`⏱️ Done in ${((Date.now() - started) / 1000).toFixed(1)}s`)
+
+  printReport(stats)
+  if (stats.crashes.length > 0) {
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,56 @@
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+// Must match SIMULATOR_ROOM_ID and DUMMY_PLAYERS in app/testing/game-simulator.tsx
+const SIMULATOR_ROOM_ID = "simulator-room-fixed"
+const DUMMY_PLAYERS = [
+  { id: "dummy-alice", name: "Alice" },
+  { id: "dummy-bob", name: "Bob" },
+  { id: "dummy-charlie", name: "Charlie" },
+  { id: "dummy-diana", name: "Diana" }
+]
+
+async function setupSimulatorRoom() {
+  try {
+    console.log("🔄 Setting up simulator room...")
+
+    for (const player of DUMMY_PLAYERS) {
+      await prisma.user.upsert({
+        where: { id: player.id },
+        update: {},
+        create: player
+      })
+    }
+    console.log(`👥 Dummy players ready: ${DUMMY_PLAYERS.map(p => p.name).join(", ")}`)
+
+    // The isSimulator flag is what allows one user to act for every seat.
+    // It can only be set here, never from a request.
+    await prisma.room.upsert({
+      where: { id: SIMULATOR_ROOM_ID },
+      update: { isSimulator: true },
+      create: {
+        id: SIMULATOR_ROOM_ID,
+        name: "Game Simulator",
+        hostId: DUMMY_PLAYERS[0].id,
+        isSimulator: true
+      }
+    })
+
+    for (const player of DUMMY_PLAYERS) {
+      await prisma.roomMember.upsert({
+        where: { roomId_userId: { roomId: SIMULATOR_ROOM_ID, userId: player.id } },
+        update: {},
+        create: { roomId: SIMULATOR_ROOM_ID, userId: player.id }
+      })
+    }
+
+    console.log(`🎉 Simulator room "${SIMULATOR_ROOM_ID}" is ready`)
+  } catch (error) {
+    console.error("❌ Simulator room setup failed:", error)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+setupSimulatorRoom()
@@ -0,0 +1,150 @@
+import { config } from "dotenv"
+import { resolve } from "path"
+import { EventStore, InProcessEventTransport, type GameEvent } from "../lib/events"
+import { PostgresPubSubAdapter, PubSubEventTransport, POSTGRES_MAX_PAYLOAD_BYTES } from "../lib/event-transports"
+
+// Integration check for the Postgres LISTEN/NOTIFY event transport: two
+// EventStore instances (standing in for two server instances) on one database.
+// Usage: npx tsx scripts/test-event-transport.ts
+
+config({ path: resolve(process.cwd(), ".env.local") })
+config({ path: resolve(process.cwd(), ".env") })
+
+const connectionString = process.env.EVENT_TRANSPORT_URL || process.env.DIRECT_URL || process.env.DATABASE_URL
+if (!connectionString) {
+  console.error("❌ Set EVENT_TRANSPORT_URL, DIRECT_URL or DATABASE_URL to a local Postgres")
+  process.exit(1)
+}
+
+// A private channel, so a running dev server does not see the test events
+const channel = `game_events_test_${Date.now()}`
+
+// Stands in for the event log when an event is too large for NOTIFY or never arrives
+const storedEvents = new Map<string, GameEvent>()
+
+let failures = 0
+
+function check(condition: boolean, message: string) {
+  if (condition) {
+    console.log(`  ✅ ${message}`)
+  } else {
+    console.log(`  ❌ ${message}`)
+    failures++
+  }
+}
+
+async function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    if (predicate()) return true
+    await new Promise(r => setTimeout(r, 25))
+  }
+  return predicate()
+}
+
+async function createInstance(instanceId: string): Promise<EventStore> {
+  const store = new EventStore(new InProcessEventTransport())
+  await store.setTransport(new PubSubEventTransport(new PostgresPubSubAdapter(connectionString!), {
+    channel,
+    instanceId,
+    maxMessageBytes: POSTGRES_MAX_PAYLOAD_BYTES,
+    loadEvent: async (roomId, sequence) => storedEvents.get(`${roomId}:${sequence}`) ?? null,
+    gapTimeoutMs: 200
+  }))
+  return store
+}
+
+function collect(store: EventStore, roomId: string): GameEvent[] {
+  const received: GameEvent[] = []
+  store.subscribe(roomId, event => received.push(event))
+  return received
+}
+
+function sequencesOf(events: GameEvent[]): number[] {
+  return events.map(e => (e as unknown as { sequence: number }).sequence)
+}
+
+function testEvent(roomId: string, sequence: number, extra: Record<string, unknown> = {}): GameEvent {
+  return { type: "GAME_STATE_UPDATED", roomId, sequence, ...extra } as unknown as GameEvent
+}
+
+async function main() {
+  console.log(`🔄 Starting two EventStore instances on channel ${channel}...`)
+  const storeA = await createInstance("instance-a")
+  const storeB = await createInstance("instance-b")
+
+  try {
+    console.log("\n📡 Fan-out across instances")
+    const onA = collect(storeA, "room-1")
+    const onB = collect(storeB, "room-1")
+    const otherRoomOnB = collect(storeB, "room-2")
+
+    storeA.emit(testEvent("room-1", 1))
+    check(await waitFor(() => onB.length === 1), "event emitted on A reaches B")
+    check(onA.length === 1, "event is delivered once on the emitting instance")
+    await new Promise(r => setTimeout(r, 300))
+    check(onA.length === 1 && onB.length === 1, "no duplicate deliveries")
+    check(otherRoomOnB.length === 0, "other rooms do not receive it")
+
+    storeB.emit(testEvent("room-1", 2))
+    check(await waitFor(() => onA.length === 2), "event emitted on B reaches A")
+
+    console.log("\n🔢 Ordering")
+    const before = onB.length
+    for (let sequence = 3; sequence <= 22; sequence++) {
+      storeA.emit(testEvent("room-1", sequence))
+    }
+    check(await waitFor(() => onB.length === before + 20), "all 20 events arrive")
+    const sequences = sequencesOf(onB.slice(before))
+    check(sequences.every((s, i) => s === 3 + i), "events arrive in emit order")
+
+    console.log("\n📦 Oversized events")
+    const large = testEvent("room-1", 23, { padding: "x".repeat(POSTGRES_MAX_PAYLOAD_BYTES) })
+    storedEvents.set("room-1:23", large)
+    storeA.emit(large)
+    check(await waitFor(() => sequencesOf(onB).includes(23)), "event too large for NOTIFY is loaded from the log")
+
+    console.log("\n🔀 Concurrent emits from both instances")
+    const burstOnA = onA.length
+    const burstOnB = onB.length
+    // Sequences 24-63 alternate between the instances, none awaited; one in the middle only fits as a reference
+    for (let sequence = 24; sequence <= 63; sequence++) {
+      const store = sequence % 2 === 0 ? storeA : storeB
+      if (sequence === 40) {
+        const oversized = testEvent("room-1", sequence, { padding: "x".repeat(POSTGRES_MAX_PAYLOAD_BYTES) })
+        storedEvents.set(`room-1:${sequence}`, oversized)
+        store.emit(oversized)
+      } else {
+        store.emit(testEvent("room-1", sequence))
+      }
+    }
+    check(await waitFor(() => onA.length === burstOnA + 40 && onB.length === burstOnB + 40), "all 40 events arrive on both instances")
+    check(sequencesOf(onA.slice(burstOnA)).every((s, i) => s === 24 + i), "A delivers them in sequence order")
+    check(sequencesOf(onB.slice(burstOnB)).every((s, i) => s === 24 + i), "B delivers them in sequence order")
+
+    console.log("\n🕳️ Gaps")
+    // 64 and 65 were stored but their messages were lost
+    storedEvents.set("room-1:64", testEvent("room-1", 64))
+    storedEvents.set("room-1:65", testEvent("room-1", 65))
+    const gapOnB = onB.length
+    storeA.emit(testEvent("room-1", 66))
+    check(await waitFor(() => onB.length === gapOnB + 3), "a gap is filled from the log")
+    check(sequencesOf(onB.slice(gapOnB)).join(",") === "64,65,66", "filled events come before the one that revealed the gap")
+
+    // 67 and 68 are not in the log either
+    const resyncOnB = onB.length
+    storeA.emit(testEvent("room-1", 69))
+    check(await waitFor(() => onB.length === resyncOnB + 2), "a gap the log cannot fill is reported")
+    check(onB[resyncOnB]?.type === "RESYNC" && sequencesOf(onB.slice(resyncOnB)).join(",") === "68,69", "listeners get a RESYNC in place of the missing events")
+  } finally {
+    await Promise.all([storeA.close(), storeB.close()])
+  }
+
+  console.log(failures === 0 ? "\n🎉 Event transport checks passed" : `\n❌ ${failures} check(s) failed`)
+  process.exit(failures === 0 ? 0 : 1)
+}
+
+main().catch(error => {
+  console.error("❌ Event transport test failed:", error)
+  process.exit(1)
+})